@@ -1,9 +1,100 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveSession, LiveServerMessage, Modality, Blob as GenaiBlob } from "@google/genai";
-import { decode, decodeAudioData, encode } from '../utils';
-import { TranscriptEntry } from '../types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { GoogleGenAI, Chat, FunctionCall, FunctionResponse, LiveSession, LiveServerMessage, Modality, Blob as GenaiBlob } from "@google/genai";
+import { decode, decodeAudioData, encode, toFileSlug } from '../utils';
+import {
+    CodingLanguage,
+    CodingProblem,
+    CompletedLoopRound,
+    InterviewConfig,
+    InterviewerNotes,
+    InterviewFeedback,
+    InterviewRound,
+    InterviewSession,
+    JobDescription,
+    LoopDebrief,
+    PresenceFeedback,
+    QuestionPlan,
+    RoundHandoff,
+    TestCaseResult,
+    TranscriptEntry,
+} from '../types';
+import {
+    analyzeVideoPresence,
+    createInterviewChatSession,
+    generateCodingProblem,
+    generateInterviewFeedback,
+    generateLoopDebrief,
+    summarizeInterviewRound,
+} from '../services/geminiService';
+import { CAPTURE_SAMPLE_RATE, PcmCapture, startPcmCapture } from '../services/audioCapture';
+import {
+    buildInterviewSystemInstruction,
+    buildResumeInstruction,
+    DEFAULT_INTERVIEW_CONFIG,
+    formatCodeSnapshot,
+    formatTestResults,
+    withConfigDefaults,
+} from '../services/interviewConfig';
+import { runTestCases } from '../services/codeRunner';
+import { jobDescriptionToPromptText, matchesJobDescriptionText } from '../services/jobDescription';
+import { computePlanCoverage, countPlannedQuestions } from '../services/questionPlan';
+import { ActiveRound, buildRoundConfig, createDefaultLoop, ROUND_WRAP_UP_WARNING_MS } from '../services/interviewLoop';
+import { applyInterviewToolCall, EMPTY_INTERVIEWER_NOTES, hasInterviewerNotes, INTERVIEW_TOOL_DECLARATIONS } from '../services/interviewTools';
+import { InterviewRecorder } from '../services/interviewRecorder';
+import { VoiceActivityDetector } from '../services/voiceActivity';
+import { saveInterviewRecording, saveInterviewSession } from '../services/storageService';
+import { startFrameSampling } from '../services/videoFrameSampler';
+import { JobDescriptionPicker } from './common/JobDescriptionPicker';
+import { Spinner } from './common/Spinner';
+import { CoachPanel } from './interview/CoachPanel';
+import { CodingPanel } from './interview/CodingPanel';
+import { DeliveryDashboard } from './interview/DeliveryDashboard';
+import { FeedbackReport } from './interview/FeedbackReport';
+import { InterviewConfigForm } from './interview/InterviewConfigForm';
+import { InterviewerNotesReport } from './interview/InterviewerNotesReport';
+import { InterviewHistory } from './interview/InterviewHistory';
+import { InterviewLoopForm } from './interview/InterviewLoopForm';
+import { InterviewPlayback } from './interview/InterviewPlayback';
+import { LoopDebriefReport } from './interview/LoopDebriefReport';
+import { MicLevelMeter } from './interview/MicLevelMeter';
+import { PresenceReport } from './interview/PresenceReport';
+import { QuestionPlanBuilder } from './interview/QuestionPlanBuilder';
+import { QuestionPlanCoverage } from './interview/QuestionPlanCoverage';
+import { TranscriptExportMenu } from './interview/TranscriptExportMenu';
 
-type InterviewState = 'setup' | 'in_progress' | 'finished' | 'error';
+type InterviewState = 'setup' | 'in_progress' | 'reconnecting' | 'finished' | 'error' | 'history';
+
+// A multi-round loop in progress. The form settings are captured when it starts.
+interface LoopProgress {
+    loopId: string;
+    rounds: InterviewRound[];
+    baseConfig: InterviewConfig;
+    completed: CompletedLoopRound[];
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+// A session must stay open this long before reconnect attempts count from zero again.
+const STABLE_CONNECTION_MS = 10000;
+// Input transcription trails the candidate's speech, so user turns are assumed
+// to have started this long before their first transcribed words arrived.
+const INPUT_TRANSCRIPTION_LEAD_MS = 1500;
+const VIDEO_FRAME_INTERVAL_MS = 1000;
+// Snapshots kept for the post-interview presence review. When the buffer fills
+// up every other snapshot is dropped and the spacing doubles, so the kept
+// snapshots stay spread across the whole interview.
+const MAX_PRESENCE_SNAPSHOTS = 8;
+const INITIAL_SNAPSHOT_SPACING = 15;
+// Code is shared with the interviewer once the candidate pauses typing.
+const CODE_SNAPSHOT_DEBOUNCE_MS = 4000;
+const TEXT_INTERVIEW_KICKOFF = 'Hello, I am ready to begin the interview.';
+const RESUME_PROMPT = 'The connection dropped and has now been restored. Please continue the interview from where we left off.';
+const ROUND_WRAP_UP_PROMPT = '[Time check: about one minute is left in this round. Wrap up the current question, thank the candidate and close the round.]';
+
+const formatCountdown = (ms: number) => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
 
 const MicIcon: React.FC<{ talking: boolean }> = ({ talking }) => (
   <svg className={`h-8 w-8 transition-colors ${talking ? 'text-red-500' : 'text-gray-400'}`} viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
@@ -17,29 +108,95 @@ export const Interview: React.FC = () => {
     const [interviewState, setInterviewState] = useState<InterviewState>('setup');
     const [jobRole, setJobRole] = useState('');
     const [jobDescription, setJobDescription] = useState('');
+    const [parsedJd, setParsedJd] = useState<JobDescription | null>(null);
+    const [config, setConfig] = useState<InterviewConfig>(DEFAULT_INTERVIEW_CONFIG);
     const [error, setError] = useState<string | null>(null);
     const [transcripts, setTranscripts] = useState<TranscriptEntry[]>([]);
     const [isTalking, setIsTalking] = useState(false);
+    const [feedback, setFeedback] = useState<InterviewFeedback | null>(null);
+    const [isGeneratingFeedback, setIsGeneratingFeedback] = useState(false);
+    const [reconnectAttempt, setReconnectAttempt] = useState(0);
+    const [recording, setRecording] = useState<Blob | null>(null);
+    const [completedSession, setCompletedSession] = useState<InterviewSession | null>(null);
+    const [isMicUnavailable, setIsMicUnavailable] = useState(false);
+    const [answerDraft, setAnswerDraft] = useState('');
+    const [pendingModelText, setPendingModelText] = useState('');
+    const [isModelTyping, setIsModelTyping] = useState(false);
+    const [presenceFeedback, setPresenceFeedback] = useState<PresenceFeedback | null>(null);
+    const [isAnalyzingPresence, setIsAnalyzingPresence] = useState(false);
+    const [codingProblem, setCodingProblem] = useState<CodingProblem | null>(null);
+    const [isPreparingProblem, setIsPreparingProblem] = useState(false);
+    const [code, setCode] = useState('');
+    const [codingLanguage, setCodingLanguage] = useState<CodingLanguage>('javascript');
+    const [testResults, setTestResults] = useState<TestCaseResult[] | null>(null);
+    const [isRunningTests, setIsRunningTests] = useState(false);
+    const [questionPlan, setQuestionPlan] = useState<QuestionPlan | null>(null);
+    const [interviewerNotes, setInterviewerNotes] = useState<InterviewerNotes>(EMPTY_INTERVIEWER_NOTES);
+    const [isLoopEnabled, setIsLoopEnabled] = useState(false);
+    const [loopRounds, setLoopRounds] = useState<InterviewRound[]>(createDefaultLoop);
+    const [loopProgress, setLoopProgress] = useState<LoopProgress | null>(null);
+    const [activeRound, setActiveRound] = useState<ActiveRound | null>(null);
+    const [roundEndsAt, setRoundEndsAt] = useState<number | null>(null);
+    const [roundRemainingMs, setRoundRemainingMs] = useState(0);
+    const [loopDebrief, setLoopDebrief] = useState<LoopDebrief | null>(null);
+    const [isGeneratingDebrief, setIsGeneratingDebrief] = useState(false);
+    const [liveAnswer, setLiveAnswer] = useState('');
+    const [answerStartedAt, setAnswerStartedAt] = useState<number | null>(null);
+    const [isCoachVisible, setIsCoachVisible] = useState(true);
+    const [isHoldingToTalk, setIsHoldingToTalk] = useState(false);
 
     const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
-    const audioContextRef = useRef<AudioContext | null>(null); // For input
+    const captureRef = useRef<PcmCapture | null>(null); // For input
+    const streamRef = useRef<MediaStream | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null); // For output
-    const processorRef = useRef<ScriptProcessorNode | null>(null);
     
     // Fix: Use refs for mutable variables in callbacks to prevent stale closures.
     const currentInputTranscriptionRef = useRef('');
     const currentOutputTranscriptionRef = useRef('');
+    const turnTimingRef = useRef<Record<TranscriptEntry['speaker'], { startMs: number; endMs: number } | null>>({ user: null, model: null });
+    // Recording offsets where voice activity detection heard the candidate start speaking.
+    const speechOnsetsRef = useRef<number[]>([]);
+    const recorderRef = useRef<InterviewRecorder | null>(null);
+    const chatRef = useRef<Chat | null>(null);
+    const completedSessionRef = useRef<InterviewSession | null>(null);
+    const stopFrameSamplingRef = useRef<(() => void) | null>(null);
+    const presenceSnapshotsRef = useRef<string[]>([]);
+    const snapshotSpacingRef = useRef(INITIAL_SNAPSHOT_SPACING);
+    const frameCountRef = useRef(0);
+    const codingProblemRef = useRef<CodingProblem | null>(null);
+    const lastSharedCodeRef = useRef('');
+    // Text mode has no side channel, so code updates ride along with the next answer.
+    const pendingChatContextRef = useRef<string[]>([]);
     const nextStartTimeRef = useRef(0);
     const sourcesRef = useRef(new Set<AudioBufferSourceNode>());
+    const sessionIdRef = useRef('');
+    const sessionStartedAtRef = useRef(0);
+    const transcriptsRef = useRef<TranscriptEntry[]>([]);
+    const isSessionActiveRef = useRef(false);
+    const reconnectAttemptRef = useRef(0);
+    const reconnectTimerRef = useRef<number | null>(null);
+    const stableConnectionTimerRef = useRef<number | null>(null);
+    const interviewerNotesRef = useRef<InterviewerNotes>(EMPTY_INTERVIEWER_NOTES);
+    // Set when the interviewer ends the interview and its goodbye is still playing.
+    const autoEndTimerRef = useRef<number | null>(null);
+    // The running session's setup; loop rounds override parts of the form config.
+    const sessionConfigRef = useRef<InterviewConfig>(config);
+    const loopProgressRef = useRef<LoopProgress | null>(null);
+    const activeRoundRef = useRef<ActiveRound | null>(null);
+    const wrapUpSentRef = useRef(false);
+    const voiceActivityRef = useRef(new VoiceActivityDetector());
+    const inputLevelRef = useRef(0);
+    const isTalkingRef = useRef(false);
+    const isHoldingToTalkRef = useRef(false);
 
     const stopAudioProcessing = useCallback(() => {
-        if (processorRef.current) {
-            processorRef.current.disconnect();
-            processorRef.current = null;
+        if (captureRef.current) {
+            captureRef.current.stop();
+            captureRef.current = null;
         }
-        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-            audioContextRef.current.close();
-            audioContextRef.current = null;
+        if (streamRef.current) {
+            streamRef.current.getTracks().forEach(track => track.stop());
+            streamRef.current = null;
         }
         // Fix: Clean up output audio context and sources.
         if (outputAudioContextRef.current && outputAudioContextRef.current.state !== 'closed') {
@@ -52,89 +209,459 @@ export const Interview: React.FC = () => {
         sourcesRef.current.clear();
     }, []);
     
-    const startInterview = async () => {
+    const appendTranscripts = (entries: TranscriptEntry[]) => {
+        if (entries.length === 0) return;
+        transcriptsRef.current = [...transcriptsRef.current, ...entries];
+        setTranscripts(transcriptsRef.current);
+    };
+
+    // Record when a speaker was heard, as an offset into the session recording.
+    const markTurnTiming = (speaker: TranscriptEntry['speaker'], startMs: number, endMs: number) => {
+        const timing = turnTimingRef.current[speaker];
+        turnTimingRef.current[speaker] = timing
+            ? { startMs: Math.min(timing.startMs, startMs), endMs: Math.max(timing.endMs, endMs) }
+            : { startMs, endMs };
+    };
+
+    // Take the text and timing collected for a speaker's current turn and reset it.
+    const takeTurn = (speaker: TranscriptEntry['speaker']): TranscriptEntry[] => {
+        const textRef = speaker === 'user' ? currentInputTranscriptionRef : currentOutputTranscriptionRef;
+        const text = textRef.current.trim();
+        const timing = turnTimingRef.current[speaker];
+        const speechOnsets = speechOnsetsRef.current;
+        textRef.current = '';
+        turnTimingRef.current[speaker] = null;
+        if (speaker === 'user') speechOnsetsRef.current = [];
+        if (!text) return [];
+
+        const entry: TranscriptEntry = { speaker, text };
+        if (timing) {
+            const previousEnd = transcriptsRef.current[transcriptsRef.current.length - 1]?.endMs ?? 0;
+            if (speaker === 'user') {
+                // The first time the candidate was heard after the previous turn ended.
+                const speechStartMs = speechOnsets.find(ms => ms >= previousEnd && ms <= timing.startMs);
+                entry.startMs = speechStartMs ?? Math.max(previousEnd, timing.startMs - INPUT_TRANSCRIPTION_LEAD_MS);
+                if (speechStartMs !== undefined) entry.speechStartMs = speechStartMs;
+            } else {
+                entry.startMs = timing.startMs;
+            }
+            entry.endMs = timing.endMs;
+        }
+        return [entry];
+    };
+
+    // Move any turn that is still being transcribed into the transcript.
+    const flushPendingTranscripts = () => {
+        appendTranscripts([...takeTurn('model'), ...takeTurn('user')]);
+    };
+
+    const stopPlayback = () => {
+        for (const source of sourcesRef.current.values()) {
+            source.stop();
+        }
+        sourcesRef.current.clear();
+        nextStartTimeRef.current = 0;
+    };
+
+    const startCapture = (stream: MediaStream) => {
+        startPcmCapture(stream, (pcm) => {
+            const isPushToTalk = sessionConfigRef.current.pushToTalk;
+            const isOpen = !isPushToTalk || isHoldingToTalkRef.current;
+            const { level, isSpeaking } = voiceActivityRef.current.process(pcm);
+            inputLevelRef.current = isOpen ? level : 0;
+            if (isOpen && isSpeaking && !isTalkingRef.current && recorderRef.current) {
+                speechOnsetsRef.current.push(recorderRef.current.elapsedMs());
+            }
+            updateIsTalking(isOpen && isSpeaking);
+            // With push-to-talk released, the recording keeps its timeline with silence.
+            recorderRef.current?.addInput(isOpen ? pcm : new Int16Array(pcm.length));
+            if (!isOpen) return;
+            const pcmBlob: GenaiBlob = {
+                data: encode(new Uint8Array(pcm.buffer)),
+                mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
+            };
+            // While reconnecting there is no session, so captured audio is dropped.
+            sessionPromiseRef.current?.then((session) => session.sendRealtimeInput({ media: pcmBlob }));
+        }).then((capture) => {
+            // The interview may have ended while the worklet was loading.
+            if (streamRef.current !== stream) {
+                capture.stop();
+                return;
+            }
+            captureRef.current = capture;
+        }).catch((err) => {
+            console.error("Failed to start audio capture:", err);
+            setError("Could not start audio capture in this browser.");
+            endInterviewRef.current();
+        });
+    };
+
+    const updateIsTalking = (isTalking: boolean) => {
+        if (isTalkingRef.current === isTalking) return;
+        isTalkingRef.current = isTalking;
+        setIsTalking(isTalking);
+    };
+
+    // Push-to-talk turns server-side voice detection off, so the candidate's
+    // turn is bracketed explicitly by activity start and end signals.
+    const setHoldingToTalk = (isHolding: boolean) => {
+        if (isHoldingToTalkRef.current === isHolding) return;
+        isHoldingToTalkRef.current = isHolding;
+        setIsHoldingToTalk(isHolding);
+        sessionPromiseRef.current?.then(session => session.sendRealtimeInput(isHolding ? { activityStart: {} } : { activityEnd: {} }));
+    };
+
+    const keepPresenceSnapshot = (frame: string) => {
+        if (frameCountRef.current++ % snapshotSpacingRef.current !== 0) return;
+        presenceSnapshotsRef.current.push(frame);
+        if (presenceSnapshotsRef.current.length > MAX_PRESENCE_SNAPSHOTS) {
+            presenceSnapshotsRef.current = presenceSnapshotsRef.current.filter((_, i) => i % 2 === 0);
+            snapshotSpacingRef.current *= 2;
+        }
+    };
+
+    const startVideoSampling = (stream: MediaStream) => {
+        stopFrameSamplingRef.current = startFrameSampling(stream, VIDEO_FRAME_INTERVAL_MS, (frame) => {
+            keepPresenceSnapshot(frame);
+            // While reconnecting there is no session, so frames are only kept locally.
+            sessionPromiseRef.current?.then((session) => session.sendRealtimeInput({ media: { data: frame, mimeType: 'image/jpeg' } }));
+        });
+    };
+
+    const stopVideoSampling = () => {
+        stopFrameSamplingRef.current?.();
+        stopFrameSamplingRef.current = null;
+    };
+
+    const clearStableConnectionTimer = () => {
+        if (stableConnectionTimerRef.current !== null) {
+            clearTimeout(stableConnectionTimerRef.current);
+            stableConnectionTimerRef.current = null;
+        }
+    };
+
+    // Events from a session that has since been replaced or ended are ignored,
+    // so they cannot drop the live one.
+    const handleConnectionLost = (stream: MediaStream, sessionPromise: Promise<LiveSession>) => {
+        if (sessionPromiseRef.current !== sessionPromise) return;
+        sessionPromiseRef.current = null;
+        clearStableConnectionTimer();
+        if (!isSessionActiveRef.current) return;
+
+        flushPendingTranscripts();
+        stopPlayback();
+        updateIsTalking(false);
+        // A new session starts without an open turn; the candidate presses again.
+        isHoldingToTalkRef.current = false;
+        setIsHoldingToTalk(false);
+
+        const attempt = reconnectAttemptRef.current;
+        if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+            setError("Lost connection to the interviewer and could not reconnect.");
+            endInterviewRef.current();
+            return;
+        }
+        reconnectAttemptRef.current = attempt + 1;
+        setReconnectAttempt(attempt + 1);
+        setInterviewState('reconnecting');
+        reconnectTimerRef.current = window.setTimeout(() => {
+            reconnectTimerRef.current = null;
+            connectLiveSession(stream, true);
+        }, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+    };
+
+    // The parsed requirements only apply while the text is the one they were parsed from.
+    const promptJobDescription = matchesJobDescriptionText(parsedJd, jobDescription)
+        ? jobDescriptionToPromptText(parsedJd)
+        : jobDescription;
+
+    const handleSelectJobDescription = (jd: JobDescription | null) => {
+        setParsedJd(jd);
+        if (!jd) return;
+        setJobDescription(jd.rawText);
+        if (jd.title) setJobRole(jd.title);
+    };
+
+    // Loop rounds bring their own agenda, so a question plan only applies to single interviews.
+    const buildPromptContext = () => ({
+        codingProblem: codingProblemRef.current,
+        questionPlan: activeRoundRef.current ? null : questionPlan,
+        round: activeRoundRef.current,
+    });
+
+    const connectLiveSession = (stream: MediaStream, isResuming: boolean) => {
+        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+        const sessionConfig = sessionConfigRef.current;
+        const systemInstruction = buildInterviewSystemInstruction(jobRole, promptJobDescription, sessionConfig, buildPromptContext())
+            + (isResuming ? `\n${buildResumeInstruction(transcriptsRef.current)}` : '');
+        // onerror and onclose usually both fire for the same failure; only react once.
+        let isLost = false;
+        const onLost = () => {
+            if (isLost) return;
+            isLost = true;
+            handleConnectionLost(stream, sessionPromise);
+        };
+
+        const sessionPromise = ai.live.connect({
+            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+            config: {
+                responseModalities: [Modality.AUDIO],
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: sessionConfig.voice }}},
+                systemInstruction,
+                tools: [{ functionDeclarations: INTERVIEW_TOOL_DECLARATIONS }],
+                ...(sessionConfig.pushToTalk ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+            },
+            callbacks: {
+                onopen: () => {
+                    console.log('Session opened.');
+                    // The interview may have ended while this session was connecting.
+                    if (!isSessionActiveRef.current || sessionPromiseRef.current !== sessionPromise) {
+                        sessionPromise.then(session => session.close());
+                        return;
+                    }
+                    setInterviewState('in_progress');
+                    // A session that opens and drops straight away keeps using up the attempts.
+                    clearStableConnectionTimer();
+                    stableConnectionTimerRef.current = window.setTimeout(() => {
+                        stableConnectionTimerRef.current = null;
+                        reconnectAttemptRef.current = 0;
+                        setReconnectAttempt(0);
+                    }, STABLE_CONNECTION_MS);
+                    // Fix: Initialize output audio context once per session.
+                    if (!outputAudioContextRef.current) {
+                        outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+                    }
+                    if (!isResuming) {
+                        startCapture(stream);
+                        if (stream.getVideoTracks().length > 0) {
+                            startVideoSampling(stream);
+                        }
+                    }
+                },
+                onmessage: async (message: LiveServerMessage) => {
+                    handleLiveMessage(message);
+                },
+                onerror: (e) => {
+                    console.error("Session error:", e);
+                    onLost();
+                },
+                onclose: () => {
+                    console.log("Session closed.");
+                    onLost();
+                }
+            }
+        });
+        sessionPromiseRef.current = sessionPromise;
+        sessionPromise.then((session) => {
+            if (isResuming) {
+                // Prompt the interviewer to pick the conversation back up.
+                session.sendClientContent({ turns: RESUME_PROMPT, turnComplete: true });
+            }
+        }).catch((err) => {
+            console.error("Failed to connect live session:", err);
+            onLost();
+        });
+    };
+
+    // Stream the interviewer's reply to a typed message into the transcript.
+    const sendChatMessage = async (chat: Chat, message: string) => {
+        setIsModelTyping(true);
+        setPendingModelText('');
+        try {
+            const stream = await chat.sendMessageStream({ message });
+            let fullText = '';
+            for await (const chunk of stream) {
+                fullText += chunk.text ?? '';
+                setPendingModelText(fullText);
+            }
+            // The candidate may have ended the interview while the reply streamed.
+            if (chatRef.current === chat) {
+                appendTranscripts([{ speaker: 'model', text: fullText.trim() }]);
+            }
+        } catch (err) {
+            console.error("Interview chat error:", err);
+            setError("The interviewer did not respond. Please try again.");
+        } finally {
+            setPendingModelText('');
+            setIsModelTyping(false);
+        }
+    };
+
+    const submitTextAnswer = () => {
+        const chat = chatRef.current;
+        const answer = answerDraft.trim();
+        if (!chat || !answer || isModelTyping) return;
+        setError(null);
+        setAnswerDraft('');
+        appendTranscripts([{ speaker: 'user', text: answer }]);
+        const context = pendingChatContextRef.current;
+        pendingChatContextRef.current = [];
+        sendChatMessage(chat, [...context, answer].join('\n\n'));
+    };
+
+    const startInterview = async (sessionConfig: InterviewConfig = config, round: ActiveRound | null = null) => {
         if (!jobRole.trim() || !jobDescription.trim()) {
             setError("Please fill in both job role and description.");
             return;
         }
+        sessionConfigRef.current = sessionConfig;
+        activeRoundRef.current = round;
+        setActiveRound(round);
+        setLoopDebrief(null);
+        setIsGeneratingDebrief(false);
+        if (!round) {
+            setLoop(null);
+        }
         setError(null);
+        setIsMicUnavailable(false);
         setTranscripts([]);
+        setFeedback(null);
+        setRecording(null);
+        setCompletedSession(null);
+        completedSessionRef.current = null;
+        setPresenceFeedback(null);
+        setIsGeneratingFeedback(false);
+        setIsAnalyzingPresence(false);
+        setAnswerDraft('');
+        setLiveAnswer('');
+        setAnswerStartedAt(null);
         setInterviewState('in_progress');
 
         // Fix: Reset refs for new session.
         currentInputTranscriptionRef.current = '';
         currentOutputTranscriptionRef.current = '';
+        turnTimingRef.current = { user: null, model: null };
+        speechOnsetsRef.current = [];
+        transcriptsRef.current = [];
         nextStartTimeRef.current = 0;
         sourcesRef.current.clear();
+        reconnectAttemptRef.current = 0;
+        setReconnectAttempt(0);
+        presenceSnapshotsRef.current = [];
+        snapshotSpacingRef.current = INITIAL_SNAPSHOT_SPACING;
+        frameCountRef.current = 0;
+        voiceActivityRef.current = new VoiceActivityDetector();
+        interviewerNotesRef.current = EMPTY_INTERVIEWER_NOTES;
+        setInterviewerNotes(EMPTY_INTERVIEWER_NOTES);
+        sessionIdRef.current = crypto.randomUUID();
+        sessionStartedAtRef.current = Date.now();
 
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-            
-            sessionPromiseRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' }}},
-                    systemInstruction: `You are a professional interviewer conducting an interview for a '${jobRole}' position. The job description is: '${jobDescription}'. Ask relevant behavioral and technical questions. Keep your responses concise and conversational. Start by introducing yourself and then ask the first question.`,
-                },
-                callbacks: {
-                    onopen: () => {
-                        console.log('Session opened.');
-                        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-                        // Fix: Initialize output audio context once per session.
-                        outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-                        const source = audioContextRef.current.createMediaStreamSource(stream);
-                        processorRef.current = audioContextRef.current.createScriptProcessor(4096, 1, 1);
-                        
-                        processorRef.current.onaudioprocess = (e) => {
-                            const inputData = e.inputBuffer.getChannelData(0);
-                            // Fix: Use a more efficient method to create the PCM blob as per guidelines.
-                            const l = inputData.length;
-                            const int16 = new Int16Array(l);
-                            for (let i = 0; i < l; i++) {
-                                int16[i] = inputData[i] * 32767; // Clamp to Int16 range
-                            }
-                            const pcmBlob: GenaiBlob = {
-                                data: encode(new Uint8Array(int16.buffer)),
-                                mimeType: 'audio/pcm;rate=16000',
-                            };
-                            sessionPromiseRef.current?.then((session) => session.sendRealtimeInput({ media: pcmBlob }));
-                        };
-                        source.connect(processorRef.current);
-                        processorRef.current.connect(audioContextRef.current.destination);
-                    },
-                    onmessage: async (message: LiveServerMessage) => {
-                        handleLiveMessage(message);
-                    },
-                    onerror: (e) => {
-                        console.error("Session error:", e);
-                        setError("An error occurred during the interview.");
-                        setInterviewState('error');
-                        stopAudioProcessing();
-                    },
-                    onclose: () => {
-                        console.log("Session closed.");
-                        stopAudioProcessing();
-                    }
+        codingProblemRef.current = null;
+        lastSharedCodeRef.current = '';
+        pendingChatContextRef.current = [];
+        setCodingProblem(null);
+        setTestResults(null);
+        if (sessionConfig.type === 'coding') {
+            setIsPreparingProblem(true);
+            try {
+                const outcome = await generateCodingProblem(jobRole, promptJobDescription, sessionConfig.difficulty);
+                if (outcome.status === 'error') {
+                    setError(outcome.message);
+                    setInterviewState('setup');
+                    return;
                 }
-            });
+                const { problem } = outcome;
+                codingProblemRef.current = problem;
+                lastSharedCodeRef.current = problem.starterCode;
+                setCodingProblem(problem);
+                setCode(problem.starterCode);
+            } catch (err) {
+                console.error("Failed to prepare coding problem:", err);
+                setError("Could not prepare a coding problem. Please try again.");
+                setInterviewState('setup');
+                return;
+            } finally {
+                setIsPreparingProblem(false);
+            }
+        }
+
+        wrapUpSentRef.current = false;
+        setRoundEndsAt(round ? Date.now() + round.round.timeLimitMinutes * 60_000 : null);
+
+        if (sessionConfig.mode === 'text') {
+            const chat = createInterviewChatSession(jobRole, promptJobDescription, sessionConfig, buildPromptContext());
+            chatRef.current = chat;
+            isSessionActiveRef.current = true;
+            sendChatMessage(chat, TEXT_INTERVIEW_KICKOFF);
+            return;
+        }
 
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({
+                audio: true,
+                video: sessionConfig.useCamera ? { width: 640, height: 480 } : false,
+            });
+            streamRef.current = stream;
+            recorderRef.current = new InterviewRecorder();
+            isSessionActiveRef.current = true;
+            connectLiveSession(stream, false);
         } catch (err) {
             console.error("Failed to start interview:", err);
-            setError("Could not access microphone. Please check permissions.");
-            setInterviewState('error');
+            setError(sessionConfig.useCamera
+                ? "Could not access microphone or camera. Please check permissions, or continue with a typed interview."
+                : "Could not access microphone. Please check permissions, or continue with a typed interview.");
+            setIsMicUnavailable(true);
+            setInterviewState('setup');
         }
     };
 
+    const startTextInterview = () => {
+        const textConfig: InterviewConfig = { ...config, mode: 'text' };
+        setConfig(textConfig);
+        const progress = loopProgressRef.current;
+        if (progress) {
+            // Carry on with the same loop, from the round that could not start.
+            const textProgress = { ...progress, baseConfig: { ...progress.baseConfig, mode: 'text' as const } };
+            setLoop(textProgress);
+            startRound(textProgress);
+        } else {
+            startInterview(textConfig);
+        }
+    };
+
+    const setLoop = (progress: LoopProgress | null) => {
+        loopProgressRef.current = progress;
+        setLoopProgress(progress);
+    };
+
+    const startLoop = (baseConfig: InterviewConfig = config) => {
+        const progress: LoopProgress = { loopId: crypto.randomUUID(), rounds: loopRounds, baseConfig, completed: [] };
+        setLoop(progress);
+        startRound(progress);
+    };
+
+    // Start the first round of the loop that has not been completed yet.
+    const startRound = (progress: LoopProgress) => {
+        const index = progress.completed.length;
+        const round = progress.rounds[index];
+        if (!round) return;
+        startInterview(buildRoundConfig(progress.baseConfig, round), {
+            loopId: progress.loopId,
+            round,
+            index,
+            count: progress.rounds.length,
+            completed: progress.completed,
+        });
+    };
+
+
     const handleLiveMessage = async (message: LiveServerMessage) => {
         if (message.serverContent?.inputTranscription) {
             const text = message.serverContent.inputTranscription.text;
+            const isPracticing = sessionConfigRef.current.realism === 'practice';
+            if (isPracticing && !currentInputTranscriptionRef.current) {
+                setAnswerStartedAt(Date.now());
+            }
             currentInputTranscriptionRef.current += text;
-            setIsTalking(true);
+            if (isPracticing) {
+                setLiveAnswer(currentInputTranscriptionRef.current);
+            }
+            const nowMs = recorderRef.current?.elapsedMs();
+            if (nowMs !== undefined) {
+                markTurnTiming('user', nowMs, nowMs);
+            }
         }
         if (message.serverContent?.outputTranscription) {
             const text = message.serverContent.outputTranscription.text;
@@ -142,15 +669,9 @@ export const Interview: React.FC = () => {
         }
 
         if (message.serverContent?.turnComplete) {
-            if (currentInputTranscriptionRef.current.trim()) {
-                setTranscripts(prev => [...prev, { speaker: 'user', text: currentInputTranscriptionRef.current.trim() }]);
-            }
-            if (currentOutputTranscriptionRef.current.trim()) {
-                setTranscripts(prev => [...prev, { speaker: 'model', text: currentOutputTranscriptionRef.current.trim() }]);
-            }
-            currentInputTranscriptionRef.current = '';
-            currentOutputTranscriptionRef.current = '';
-            setIsTalking(false);
+            appendTranscripts([...takeTurn('user'), ...takeTurn('model')]);
+            setLiveAnswer('');
+            setAnswerStartedAt(null);
         }
 
         const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
@@ -172,36 +693,366 @@ export const Interview: React.FC = () => {
             });
 
             source.start(nextStartTimeRef.current);
+            const recorder = recorderRef.current;
+            if (recorder) {
+                const startMs = recorder.elapsedMs() + (nextStartTimeRef.current - outputAudioContext.currentTime) * 1000;
+                recorder.addOutput(audioBuffer.getChannelData(0), audioBuffer.sampleRate, startMs);
+                markTurnTiming('model', startMs, startMs + audioBuffer.duration * 1000);
+            }
             nextStartTimeRef.current += audioBuffer.duration;
             sourcesRef.current.add(source);
         }
 
+        if (message.toolCall?.functionCalls) {
+            handleToolCalls(message.toolCall.functionCalls);
+        }
+
         const interrupted = message.serverContent?.interrupted;
         if (interrupted) {
-            for (const source of sourcesRef.current.values()) {
-                source.stop();
+            stopPlayback();
+            const recorder = recorderRef.current;
+            const timing = turnTimingRef.current.model;
+            if (recorder) {
+                const nowMs = recorder.elapsedMs();
+                recorder.truncateOutput(nowMs);
+                if (timing) timing.endMs = Math.min(timing.endMs, nowMs);
             }
-            sourcesRef.current.clear();
-            nextStartTimeRef.current = 0;
         }
     }
     
+    // Record the interviewer's structured notes and acknowledge each call.
+    const handleToolCalls = (calls: FunctionCall[]) => {
+        const atMs = recorderRef.current?.elapsedMs();
+        const functionResponses: FunctionResponse[] = [];
+        let shouldEnd = false;
+        for (const call of calls) {
+            const outcome = applyInterviewToolCall(interviewerNotesRef.current, call, atMs);
+            interviewerNotesRef.current = outcome.notes;
+            functionResponses.push({ id: call.id, name: call.name, response: outcome.response });
+            shouldEnd = shouldEnd || outcome.shouldEnd;
+        }
+        setInterviewerNotes(interviewerNotesRef.current);
+        sessionPromiseRef.current?.then(session => session.sendToolResponse({ functionResponses }));
+
+        if (shouldEnd && autoEndTimerRef.current === null) {
+            // Let the goodbye finish playing before closing the session.
+            const outputAudioContext = outputAudioContextRef.current;
+            const remainingMs = outputAudioContext
+                ? Math.max(0, nextStartTimeRef.current - outputAudioContext.currentTime) * 1000
+                : 0;
+            autoEndTimerRef.current = window.setTimeout(() => {
+                autoEndTimerRef.current = null;
+                endInterviewRef.current();
+            }, remainingMs + 500);
+        }
+    };
+
+    const persistSession = (session: InterviewSession) => {
+        saveInterviewSession(session).catch(err => console.error("Failed to save interview session:", err));
+    };
+
+    // Merge late results (feedback reports) into the finished session and save it.
+    const updateCompletedSession = (sessionId: string, patch: Partial<InterviewSession>) => {
+        const current = completedSessionRef.current;
+        if (!current || current.id !== sessionId) return;
+        const updated = { ...current, ...patch };
+        completedSessionRef.current = updated;
+        setCompletedSession(updated);
+        persistSession(updated);
+    };
+
+    // Reports can arrive after the candidate has already started another interview.
+    const isCurrentSession = (session: InterviewSession) => completedSessionRef.current?.id === session.id;
+
+    const generateFeedback = async (session: InterviewSession) => {
+        setIsGeneratingFeedback(true);
+        try {
+            const outcome = await generateInterviewFeedback(
+                session.transcripts, session.jobRole, session.jobDescription, session.coding, session.interviewerNotes);
+            if (!isCurrentSession(session)) return;
+            if (outcome.status === 'ok') {
+                setFeedback(outcome.feedback);
+                updateCompletedSession(session.id, { feedback: outcome.feedback });
+            } else {
+                setFeedback({ error: outcome.message });
+            }
+        } catch (err) {
+            console.error("Feedback generation failed:", err);
+            setFeedback({ error: "Failed to generate interview feedback. Please try again." });
+        } finally {
+            if (isCurrentSession(session)) setIsGeneratingFeedback(false);
+        }
+    };
+
+    const generatePresenceFeedback = async (session: InterviewSession, snapshots: string[]) => {
+        setIsAnalyzingPresence(true);
+        try {
+            const outcome = await analyzeVideoPresence(snapshots, session.jobRole);
+            if (!isCurrentSession(session)) return;
+            if (outcome.status === 'ok') {
+                setPresenceFeedback(outcome.feedback);
+                updateCompletedSession(session.id, { presenceFeedback: outcome.feedback });
+            } else {
+                setPresenceFeedback({ error: outcome.message });
+            }
+        } catch (err) {
+            console.error("Presence analysis failed:", err);
+            setPresenceFeedback({ error: "Failed to analyze your on-camera presence. Please try again." });
+        } finally {
+            if (isCurrentSession(session)) setIsAnalyzingPresence(false);
+        }
+    };
+
+    const updateLoopRound = (loopId: string, sessionId: string, patch: Partial<CompletedLoopRound>) => {
+        const progress = loopProgressRef.current;
+        if (!progress || progress.loopId !== loopId) return;
+        setLoop({
+            ...progress,
+            completed: progress.completed.map(round => round.sessionId === sessionId ? { ...round, ...patch } : round),
+        });
+    };
+
+    const summarizeRound = async (loopId: string, completedRound: CompletedLoopRound) => {
+        let handoff: RoundHandoff;
+        try {
+            const outcome = await summarizeInterviewRound(completedRound.transcripts, jobRole, completedRound.roundName);
+            handoff = outcome.status === 'ok' ? outcome.handoff : { error: outcome.message };
+        } catch (err) {
+            console.error("Round summary failed:", err);
+            handoff = { error: "Failed to summarize this round." };
+        }
+        updateLoopRound(loopId, completedRound.sessionId, { handoff });
+        if (!handoff.error) {
+            updateCompletedSession(completedRound.sessionId, { roundHandoff: handoff });
+        }
+    };
+
+    const generateDebrief = async (progress: LoopProgress, sessionId: string) => {
+        setIsGeneratingDebrief(true);
+        const isCurrentLoop = () => loopProgressRef.current?.loopId === progress.loopId;
+        try {
+            const outcome = await generateLoopDebrief(progress.completed, jobRole, promptJobDescription);
+            if (!isCurrentLoop()) return;
+            if (outcome.status === 'ok') {
+                setLoopDebrief(outcome.debrief);
+                updateCompletedSession(sessionId, { loopDebrief: outcome.debrief });
+            } else {
+                setLoopDebrief({ error: outcome.message });
+            }
+        } catch (err) {
+            console.error("Loop debrief failed:", err);
+            setLoopDebrief({ error: "Failed to generate the loop debrief. Please try again." });
+        } finally {
+            if (isCurrentLoop()) setIsGeneratingDebrief(false);
+        }
+    };
+
+    // Record a finished round and prepare the handoff notes for the next one.
+    const completeLoopRound = (round: ActiveRound, transcripts: TranscriptEntry[]) => {
+        const progress = loopProgressRef.current;
+        if (!progress || progress.loopId !== round.loopId) return;
+        const hasAnswers = transcripts.some(entry => entry.speaker === 'user');
+        const completedRound: CompletedLoopRound = {
+            sessionId: sessionIdRef.current,
+            roundName: round.round.name,
+            transcripts,
+            interviewerNotes: hasInterviewerNotes(interviewerNotesRef.current) ? interviewerNotesRef.current : undefined,
+            handoff: hasAnswers ? undefined : { summary: 'The candidate did not answer any questions in this round.' },
+        };
+        const updated = { ...progress, completed: [...progress.completed, completedRound] };
+        setLoop(updated);
+        if (hasAnswers) {
+            summarizeRound(updated.loopId, completedRound);
+        }
+        if (updated.completed.length === updated.rounds.length
+            && updated.completed.some(r => r.transcripts.some(entry => entry.speaker === 'user'))) {
+            generateDebrief(updated, completedRound.sessionId);
+        }
+    };
+
     const endInterview = () => {
+        if (!isSessionActiveRef.current) return;
+        isSessionActiveRef.current = false;
+        if (reconnectTimerRef.current !== null) {
+            clearTimeout(reconnectTimerRef.current);
+            reconnectTimerRef.current = null;
+        }
+        clearStableConnectionTimer();
+        if (autoEndTimerRef.current !== null) {
+            clearTimeout(autoEndTimerRef.current);
+            autoEndTimerRef.current = null;
+        }
         sessionPromiseRef.current?.then(session => session.close());
         sessionPromiseRef.current = null;
+        chatRef.current = null;
+        stopVideoSampling();
         stopAudioProcessing();
         setInterviewState('finished');
-        setIsTalking(false);
+        updateIsTalking(false);
+        isHoldingToTalkRef.current = false;
+        setIsHoldingToTalk(false);
+        inputLevelRef.current = 0;
+
+        // Flush any turn that was still being transcribed when the interview ended.
+        flushPendingTranscripts();
+        const finalTranscripts = transcriptsRef.current;
+        const recorder = recorderRef.current;
+        recorderRef.current = null;
+        const round = activeRoundRef.current;
+        if (round) {
+            completeLoopRound(round, finalTranscripts);
+        }
+
+        if (finalTranscripts.length === 0) {
+            return;
+        }
+        if (recorder) {
+            const wav = recorder.toWav();
+            setRecording(wav);
+            saveInterviewRecording(sessionIdRef.current, wav).catch(err => console.error("Failed to save interview recording:", err));
+        }
+        const session: InterviewSession = {
+            id: sessionIdRef.current,
+            jobRole,
+            jobDescription,
+            config: sessionConfigRef.current,
+            startedAt: sessionStartedAtRef.current,
+            endedAt: Date.now(),
+            transcripts: finalTranscripts,
+            coding: codingProblemRef.current
+                ? { problem: codingProblemRef.current, language: codingLanguage, code, results: testResults ?? undefined }
+                : undefined,
+            questionPlan: !round && questionPlan ? questionPlan : undefined,
+            coveredQuestionIds: !round && questionPlan ? [...computePlanCoverage(questionPlan, finalTranscripts)] : undefined,
+            interviewerNotes: hasInterviewerNotes(interviewerNotesRef.current) ? interviewerNotesRef.current : undefined,
+            loop: round
+                ? { loopId: round.loopId, roundIndex: round.index, roundCount: round.count, roundName: round.round.name }
+                : undefined,
+        };
+        completedSessionRef.current = session;
+        setCompletedSession(session);
+        persistSession(session);
+        if (finalTranscripts.some(entry => entry.speaker === 'user')) {
+            generateFeedback(session);
+        }
+        if (presenceSnapshotsRef.current.length > 0) {
+            generatePresenceFeedback(session, presenceSnapshotsRef.current);
+        }
     };
 
+    // Let the interviewer see the candidate's code (and optionally test results).
+    const shareWithInterviewer = (message: string, expectReply: boolean) => {
+        if (sessionConfigRef.current.mode === 'text') {
+            pendingChatContextRef.current.push(message);
+            return;
+        }
+        sessionPromiseRef.current?.then(session => session.sendClientContent({ turns: message, turnComplete: expectReply }));
+    };
+
+    useEffect(() => {
+        if (interviewState !== 'in_progress' || !codingProblem || code === lastSharedCodeRef.current) return;
+        const timer = setTimeout(() => {
+            lastSharedCodeRef.current = code;
+            shareWithInterviewer(formatCodeSnapshot(code, codingLanguage), false);
+        }, CODE_SNAPSHOT_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [code, codingLanguage, codingProblem, interviewState]);
+
+    const handleRunTests = async () => {
+        const problem = codingProblemRef.current;
+        if (!problem) return;
+        setIsRunningTests(true);
+        try {
+            const results = await runTestCases(code, codingLanguage, problem);
+            setTestResults(results);
+            lastSharedCodeRef.current = code;
+            shareWithInterviewer(`${formatCodeSnapshot(code, codingLanguage)}\n${formatTestResults(results)}`, true);
+        } finally {
+            setIsRunningTests(false);
+        }
+    };
+
+    // Count down a loop round, nudging the interviewer to wrap up before time runs out.
+    useEffect(() => {
+        if (interviewState !== 'in_progress' || roundEndsAt === null) return;
+        const tick = () => {
+            const remainingMs = roundEndsAt - Date.now();
+            setRoundRemainingMs(Math.max(0, remainingMs));
+            if (remainingMs <= 0) {
+                endInterviewRef.current();
+            } else if (remainingMs <= ROUND_WRAP_UP_WARNING_MS && !wrapUpSentRef.current) {
+                wrapUpSentRef.current = true;
+                shareWithInterviewer(ROUND_WRAP_UP_PROMPT, true);
+            }
+        };
+        tick();
+        const timer = window.setInterval(tick, 1000);
+        return () => clearInterval(timer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [interviewState, roundEndsAt]);
+
+    // Hold the spacebar to talk, unless the candidate is typing in a field.
+    useEffect(() => {
+        if (interviewState !== 'in_progress' || config.mode !== 'voice' || !config.pushToTalk) return;
+        const isTypingTarget = (target: EventTarget | null) =>
+            target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+            e.preventDefault();
+            if (!e.repeat) setHoldingToTalk(true);
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+            e.preventDefault();
+            setHoldingToTalk(false);
+        };
+        // Releasing the key in another window never reaches us.
+        const handleBlur = () => setHoldingToTalk(false);
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [interviewState, config.mode, config.pushToTalk]);
+
+    const replaySession = (session: InterviewSession) => {
+        setJobRole(session.jobRole);
+        setJobDescription(session.jobDescription);
+        setConfig(withConfigDefaults(session.config));
+        setQuestionPlan(session.questionPlan ?? null);
+        setIsLoopEnabled(false);
+        setError(null);
+        setInterviewState('setup');
+    };
+
+    const coveredQuestionIds = useMemo(
+        () => questionPlan ? computePlanCoverage(questionPlan, transcripts) : new Set<string>(),
+        [questionPlan, transcripts]
+    );
+
+    // The unmount cleanup below would otherwise see the first render's job details.
+    const endInterviewRef = useRef(endInterview);
+    endInterviewRef.current = endInterview;
+
     useEffect(() => {
         // Cleanup on component unmount
         return () => {
-            endInterview();
+            endInterviewRef.current();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    const lastQuestion = [...transcripts].reverse().find(entry => entry.speaker === 'model')?.text ?? '';
+    const isCoachShown = config.realism === 'practice' && isCoachVisible && !codingProblem;
+
+    const nextRound = activeRound && loopProgress ? loopProgress.rounds[activeRound.index + 1] : undefined;
+    const isHandoffPending = loopProgress?.completed.some(round => !round.handoff) ?? false;
+
     const renderSetup = () => (
         <div className="max-w-xl mx-auto bg-gray-800 p-8 rounded-lg shadow-xl">
             <h2 className="text-2xl font-bold text-center mb-6 text-indigo-400">Interview Setup</h2>
@@ -214,6 +1065,7 @@ export const Interview: React.FC = () => {
                     placeholder="Job Role (e.g., Senior Frontend Engineer)"
                     className="w-full bg-gray-700 text-white placeholder-gray-400 p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
                 />
+                <JobDescriptionPicker text={jobDescription} onTextChange={setJobDescription} selected={parsedJd} onSelect={handleSelectJobDescription} />
                 <textarea
                     value={jobDescription}
                     onChange={(e) => setJobDescription(e.target.value)}
@@ -221,36 +1073,201 @@ export const Interview: React.FC = () => {
                     rows={8}
                     className="w-full bg-gray-700 text-white placeholder-gray-400 p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
                 />
+                <InterviewConfigForm config={config} onChange={setConfig} />
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={isLoopEnabled}
+                        onChange={(e) => setIsLoopEnabled(e.target.checked)}
+                        className="form-checkbox text-indigo-500"
+                    />
+                    <span className="text-sm text-gray-300">Run a multi-round interview loop with a combined debrief</span>
+                </label>
+                {isLoopEnabled ? (
+                    <InterviewLoopForm rounds={loopRounds} onChange={setLoopRounds} />
+                ) : (
+                    <QuestionPlanBuilder
+                        jobRole={jobRole}
+                        jobDescription={promptJobDescription}
+                        config={config}
+                        plan={questionPlan}
+                        onChange={setQuestionPlan}
+                    />
+                )}
             </div>
             {error && <p className="text-red-400 mt-4 text-center">{error}</p>}
+            {isMicUnavailable && config.mode === 'voice' && (
+                <button
+                    onClick={startTextInterview}
+                    className="w-full mt-4 bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-md transition duration-300"
+                >
+                    Continue as Text Interview
+                </button>
+            )}
             <button
-                onClick={startInterview}
+                onClick={() => isLoopEnabled ? startLoop() : startInterview()}
                 disabled={!jobRole.trim() || !jobDescription.trim()}
                 className="w-full mt-8 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900 disabled:text-gray-400 text-white font-bold py-3 px-4 rounded-md transition duration-300"
             >
-                Start Mock Interview
+                {isLoopEnabled ? `Start ${loopRounds.length}-Round Loop` : 'Start Mock Interview'}
+            </button>
+            <button
+                onClick={() => setInterviewState('history')}
+                className="w-full mt-3 text-indigo-400 hover:text-indigo-300 font-semibold py-2"
+            >
+                View Past Interviews
             </button>
         </div>
     );
     
-    const renderInProgress = () => (
-        <div className="flex flex-col h-[70vh] max-w-4xl mx-auto bg-gray-800 p-6 rounded-lg shadow-xl">
-            <div className="flex justify-between items-center mb-4">
-                 <h2 className="text-xl font-bold text-indigo-400">Interview in Progress...</h2>
-                 <MicIcon talking={isTalking} />
-            </div>
+    const renderConversation = () => (
+        <>
             <div className="flex-grow bg-gray-900 rounded-md p-4 overflow-y-auto space-y-4">
                 {transcripts.map((entry, index) => (
                     <div key={index} className={`flex ${entry.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
                         <div className={`max-w-lg p-3 rounded-lg ${entry.speaker === 'user' ? 'bg-indigo-600' : 'bg-gray-700'}`}>
-                            <p className="text-sm">{entry.text}</p>
+                            <p className="text-sm whitespace-pre-wrap">{entry.text}</p>
                         </div>
                     </div>
                 ))}
+                {isModelTyping && (
+                    <div className="flex justify-start">
+                        <div className="max-w-lg p-3 rounded-lg bg-gray-700">
+                            {pendingModelText ? <p className="text-sm whitespace-pre-wrap">{pendingModelText}</p> : <Spinner />}
+                        </div>
+                    </div>
+                )}
+            </div>
+            {config.mode === 'text' && (
+                <div className="mt-4">
+                    {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+                    <div className="flex items-end gap-2">
+                        <textarea
+                            value={answerDraft}
+                            onChange={(e) => setAnswerDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    submitTextAnswer();
+                                }
+                            }}
+                            placeholder="Type your answer... (Shift+Enter for a new line)"
+                            rows={3}
+                            className="flex-grow bg-gray-700 text-white placeholder-gray-400 p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        />
+                        <button
+                            onClick={submitTextAnswer}
+                            disabled={isModelTyping || !answerDraft.trim()}
+                            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900 disabled:text-gray-400 text-white font-bold py-3 px-4 rounded-md transition duration-300"
+                        >
+                            Send
+                        </button>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+
+    const renderInProgress = () => (
+        <div className={`flex flex-col h-[70vh] ${codingProblem ? 'max-w-7xl' : isCoachShown ? 'max-w-6xl' : 'max-w-4xl'} mx-auto bg-gray-800 p-6 rounded-lg shadow-xl`}>
+            <div className="flex justify-between items-center mb-4">
+                 <h2 className="text-xl font-bold text-indigo-400">
+                    {activeRound ? `Round ${activeRound.index + 1} of ${activeRound.count}: ${activeRound.round.name}` : 'Interview in Progress...'}
+                 </h2>
+                 {activeRound && roundEndsAt !== null && (
+                    <span className={`font-mono text-sm ${roundRemainingMs <= ROUND_WRAP_UP_WARNING_MS ? 'text-yellow-400' : 'text-gray-400'}`}>
+                        {formatCountdown(roundRemainingMs)} left
+                    </span>
+                 )}
+                 {config.realism === 'practice' && !codingProblem && (
+                    <button onClick={() => setIsCoachVisible(!isCoachVisible)} className="text-sm text-indigo-400 hover:text-indigo-300">
+                        {isCoachVisible ? 'Hide Coach' : 'Show Coach'}
+                    </button>
+                 )}
+                 {config.mode === 'voice' && (
+                    <div className="flex items-center gap-2">
+                        <MicLevelMeter levelRef={inputLevelRef} isActive={isTalking} />
+                        <MicIcon talking={isTalking} />
+                    </div>
+                 )}
             </div>
+            {interviewerNotes.topics.length > 0 && (
+                <p className="text-sm text-gray-400 mb-4">
+                    Current topic: <span className="text-gray-200">{interviewerNotes.topics[interviewerNotes.topics.length - 1].topic}</span>
+                </p>
+            )}
+            {config.mode === 'voice' && config.useCamera && (
+                <video
+                    ref={(video) => {
+                        if (video && video.srcObject !== streamRef.current) video.srcObject = streamRef.current;
+                    }}
+                    autoPlay
+                    muted
+                    playsInline
+                    className="w-40 self-end rounded-md border border-gray-700 mb-4 -scale-x-100"
+                />
+            )}
+            {interviewState === 'reconnecting' && (
+                <div className="flex items-center gap-2 bg-yellow-900 text-yellow-100 text-sm p-3 rounded-md mb-4">
+                    <Spinner />
+                    <span>Connection lost. Reconnecting (attempt {reconnectAttempt} of {MAX_RECONNECT_ATTEMPTS})...</span>
+                </div>
+            )}
+            {questionPlan && !activeRound && (
+                <details className="bg-gray-900 rounded-md p-3 mb-4">
+                    <summary className="cursor-pointer text-sm font-bold text-indigo-300">
+                        Question Plan: {coveredQuestionIds.size} of {countPlannedQuestions(questionPlan)} covered
+                    </summary>
+                    <div className="mt-2 max-h-40 overflow-y-auto">
+                        <QuestionPlanCoverage plan={questionPlan} coveredIds={coveredQuestionIds} />
+                    </div>
+                </details>
+            )}
+            {isPreparingProblem && (
+                <div className="flex items-center justify-center gap-2 text-gray-300 mb-4">
+                    <Spinner /> <span>Preparing your coding problem...</span>
+                </div>
+            )}
+            {codingProblem ? (
+                <div className="flex-grow grid grid-cols-1 lg:grid-cols-2 gap-4 min-h-0">
+                    <div className="flex flex-col min-h-0">{renderConversation()}</div>
+                    <CodingPanel
+                        problem={codingProblem}
+                        language={codingLanguage}
+                        onLanguageChange={setCodingLanguage}
+                        code={code}
+                        onCodeChange={setCode}
+                        results={testResults}
+                        isRunning={isRunningTests}
+                        onRunTests={handleRunTests}
+                    />
+                </div>
+            ) : isCoachShown ? (
+                <div className="flex-grow grid grid-cols-1 lg:grid-cols-[1fr_16rem] gap-4 min-h-0">
+                    <div className="flex flex-col min-h-0">{renderConversation()}</div>
+                    <CoachPanel
+                        question={lastQuestion}
+                        answer={config.mode === 'text' ? answerDraft : liveAnswer}
+                        answerStartedAt={config.mode === 'text' ? null : answerStartedAt}
+                        interviewType={activeRound?.round.type ?? config.type}
+                        jobDescription={promptJobDescription}
+                    />
+                </div>
+            ) : renderConversation()}
+            {config.mode === 'voice' && config.pushToTalk && (
+                <button
+                    onPointerDown={() => setHoldingToTalk(true)}
+                    onPointerUp={() => setHoldingToTalk(false)}
+                    onPointerLeave={() => setHoldingToTalk(false)}
+                    className={`w-full mt-4 font-bold py-3 px-4 rounded-md transition duration-300 select-none ${isHoldingToTalk ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                >
+                    {isHoldingToTalk ? 'Listening... release to finish your answer' : 'Hold Space (or this button) to talk'}
+                </button>
+            )}
             <button
                 onClick={endInterview}
-                className="w-full mt-6 bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-4 rounded-md transition duration-300"
+                disabled={isPreparingProblem}
+                className="w-full mt-6 bg-red-600 hover:bg-red-700 disabled:bg-red-900 text-white font-bold py-3 px-4 rounded-md transition duration-300"
             >
                 End Interview
             </button>
@@ -259,29 +1276,106 @@ export const Interview: React.FC = () => {
 
     const renderFinished = () => (
         <div className="max-w-4xl mx-auto bg-gray-800 p-8 rounded-lg shadow-xl text-center">
-             <h2 className="text-2xl font-bold text-green-400 mb-4">Interview Complete!</h2>
-             <p className="text-gray-300 mb-6">Here is the transcript of your interview. You can use this to analyze your performance.</p>
-             <div className="text-left bg-gray-900 rounded-md p-4 overflow-y-auto max-h-96 space-y-4 mb-6">
-                {transcripts.map((entry, index) => (
-                    <div key={index}>
-                        <p className={`font-bold ${entry.speaker === 'user' ? 'text-indigo-400' : 'text-gray-400'}`}>{entry.speaker === 'user' ? 'You' : 'Interviewer'}:</p>
-                        <p className="text-gray-200 ml-2">{entry.text}</p>
+             <h2 className="text-2xl font-bold text-green-400 mb-4">
+                {!activeRound ? 'Interview Complete!'
+                    : nextRound ? `Round ${activeRound.index + 1} of ${activeRound.count} Complete: ${activeRound.round.name}`
+                    : 'Interview Loop Complete!'}
+             </h2>
+             {error && <p className="text-red-400 mb-4">{error}</p>}
+             {activeRound && !nextRound && (isGeneratingDebrief || loopDebrief) && (
+                <div className="text-left bg-gray-800 border border-gray-700 rounded-md p-4 mb-6">
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Loop Debrief</h3>
+                    {isGeneratingDebrief && (
+                        <div className="flex items-center justify-center gap-2 text-gray-300">
+                            <Spinner /> <span>Weighing the evidence from every round...</span>
+                        </div>
+                    )}
+                    {!isGeneratingDebrief && loopDebrief && <LoopDebriefReport debrief={loopDebrief} />}
+                </div>
+             )}
+             <div className="text-left bg-gray-800 border border-gray-700 rounded-md p-4 mb-6">
+                <h3 className="text-xl font-bold text-indigo-400 mb-4">Feedback Report</h3>
+                {isGeneratingFeedback && (
+                    <div className="flex items-center justify-center gap-2 text-gray-300">
+                        <Spinner /> <span>Evaluating your answers...</span>
                     </div>
-                ))}
-            </div>
-             <button
-                onClick={() => setInterviewState('setup')}
-                className="mt-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-md transition duration-300"
-            >
-                Start Another Interview
-            </button>
+                )}
+                {!isGeneratingFeedback && feedback && <FeedbackReport feedback={feedback} />}
+                {!isGeneratingFeedback && !feedback && (
+                    <p className="text-gray-400">No answers were recorded, so there is nothing to evaluate.</p>
+                )}
+             </div>
+             {hasInterviewerNotes(interviewerNotes) && (
+                <div className="text-left bg-gray-800 border border-gray-700 rounded-md p-4 mb-6">
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Interviewer Notes</h3>
+                    <InterviewerNotesReport notes={interviewerNotes} />
+                </div>
+             )}
+             {(isAnalyzingPresence || presenceFeedback) && (
+                <div className="text-left bg-gray-800 border border-gray-700 rounded-md p-4 mb-6">
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">On-Camera Presence</h3>
+                    {isAnalyzingPresence && (
+                        <div className="flex items-center justify-center gap-2 text-gray-300">
+                            <Spinner /> <span>Reviewing your video...</span>
+                        </div>
+                    )}
+                    {!isAnalyzingPresence && presenceFeedback && <PresenceReport feedback={presenceFeedback} />}
+                </div>
+             )}
+             {questionPlan && !activeRound && (
+                <div className="text-left bg-gray-800 border border-gray-700 rounded-md p-4 mb-6">
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Plan Coverage</h3>
+                    <QuestionPlanCoverage plan={questionPlan} coveredIds={coveredQuestionIds} />
+                </div>
+             )}
+             <div className="text-left bg-gray-800 border border-gray-700 rounded-md p-4 mb-6">
+                <h3 className="text-xl font-bold text-indigo-400 mb-4">Delivery</h3>
+                <DeliveryDashboard transcripts={transcripts} />
+             </div>
+             <h3 className="text-left text-xl font-bold text-indigo-400 mb-2">Transcript</h3>
+             {completedSession && (
+                <div className="mb-4">
+                    <TranscriptExportMenu session={completedSession} />
+                </div>
+             )}
+             <InterviewPlayback
+                transcripts={transcripts}
+                recording={recording}
+                fileName={`interview-${toFileSlug(jobRole)}.wav`}
+             />
+             <div className="flex justify-center gap-4 mt-6">
+                {nextRound && (
+                    <button
+                        onClick={() => loopProgressRef.current && startRound(loopProgressRef.current)}
+                        disabled={isHandoffPending}
+                        className="mt-4 bg-green-600 hover:bg-green-700 disabled:bg-green-900 disabled:text-gray-400 text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center gap-2"
+                    >
+                        {isHandoffPending ? <><Spinner /> Preparing handoff notes...</> : `Start Next Round: ${nextRound.name}`}
+                    </button>
+                )}
+                <button
+                    onClick={() => setInterviewState('setup')}
+                    className="mt-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-md transition duration-300"
+                >
+                    Start Another Interview
+                </button>
+                <button
+                    onClick={() => setInterviewState('history')}
+                    className="mt-4 bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-4 rounded-md transition duration-300"
+                >
+                    View History
+                </button>
+             </div>
         </div>
     );
 
 
     switch (interviewState) {
         case 'in_progress':
+        case 'reconnecting':
             return renderInProgress();
+        case 'history':
+            return <InterviewHistory onBack={() => setInterviewState('setup')} onReplay={replaySession} />;
         case 'finished':
         case 'error': // Show finished view even on error to let user see transcript
             return renderFinished();
@@ -1,165 +1,322 @@
 
 import React, { useState } from 'react';
+import {
+    AnalysisResult,
+    CoverLetter,
+    CoverLetterOptions,
+    JobDescription,
+    JobTarget,
+    JobTargetResult,
+    LineRewrite,
+    ResumeLayout,
+    ResumeSource,
+    ResumeVersion,
+    StructuredResume,
+} from '../types';
+import { AtsMatchResult, matchResumeToJd } from '../services/atsMatcher';
+import { createJobTarget } from '../services/batchAnalysis';
+import { DEFAULT_COVER_LETTER_OPTIONS } from '../services/coverLetter';
 import { analyzeResumeWithJd } from '../services/geminiService';
+import { jobDescriptionRequirements, jobDescriptionToPromptText, matchesJobDescriptionText } from '../services/jobDescription';
+import { applyRewritesToResume, applyRewritesToText } from '../services/resumeRewrites';
+import { saveResumeVersion } from '../services/storageService';
+import { createEmptyResume, listResumeReferences, ResumeReference, resumeToAnalysisText, resumeToBlocks, resumeToPlainText } from '../services/resumeModel';
+import { JobDescriptionPicker } from './common/JobDescriptionPicker';
 import { Spinner } from './common/Spinner';
+import { AtsMatchReport } from './resume/AtsMatchReport';
+import { BatchAnalysis } from './resume/BatchAnalysis';
+import { CoverLetterGenerator } from './resume/CoverLetterGenerator';
+import { ResumeAnalysisReport } from './resume/ResumeAnalysisReport';
+import { ResumeBuilder } from './resume/ResumeBuilder';
+import { ResumeFileImport } from './resume/ResumeFileImport';
+import { ResumeRewrites } from './resume/ResumeRewrites';
+import { ResumeVersionHistory } from './resume/ResumeVersionHistory';
 
-interface AnalysisResult {
-    score?: number;
-    missingKeywords?: string[];
-    summarySuggestion?: string;
-    experienceAdvice?: string;
-    error?: string;
-}
-
-const ATS_TEMPLATE = `
-[Your Name]
-[City, State, Zip Code] | [Phone Number] | [Email Address] | [LinkedIn URL]
-
-SUMMARY
-[A concise 2-3 sentence summary of your professional background, key skills, and career objectives. Tailor this to the specific job you are applying for.]
-
-SKILLS
-- Technical Skills: [List relevant programming languages, software, and tools, e.g., JavaScript, React, Python, AWS]
-- Soft Skills: [List skills like Communication, Teamwork, Problem-Solving, Leadership]
-- Certifications: [List any relevant certifications]
-
-EXPERIENCE
-[Job Title] | [Company Name], [City, State] | [Month, Year] – [Month, Year or Present]
-- [Use action verbs to describe your accomplishments. Quantify your achievements with numbers and data wherever possible. e.g., "Developed and launched a new feature that increased user engagement by 15%."]
-- [Focus on achievements that align with the keywords and requirements in the job description.]
-- [List 3-5 bullet points per role.]
-
-[Previous Job Title] | [Previous Company Name], [City, State] | [Month, Year] – [Month, Year]
-- [Repeat the format above for previous relevant roles.]
-- [Ensure consistency in formatting.]
-
-EDUCATION
-[Your Degree] | [University Name], [City, State] | [Year of Graduation]
-- Relevant Coursework: [Optional: List a few key courses relevant to the job.]
-
-PROJECTS
-[Project Name] | [Link to Project if available]
-- [Briefly describe a significant project you worked on. Explain the technology used and your role in the project.]
-- [Highlight the outcome or success of the project.]
-`;
+type ResumeTab = 'analyzer' | 'builder' | 'batch' | 'coverLetter' | 'history';
+
+const TABS: [ResumeTab, string][] = [
+    ['analyzer', 'Resume Analyzer'],
+    ['builder', 'Resume Builder'],
+    ['batch', 'Compare Roles'],
+    ['coverLetter', 'Cover Letter'],
+    ['history', 'Version History'],
+];
 
 export const ResumeHelper: React.FC = () => {
     const [resumeText, setResumeText] = useState('');
     const [jdText, setJdText] = useState('');
+    const [parsedJd, setParsedJd] = useState<JobDescription | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
-    const [activeTab, setActiveTab] = useState<'analyzer' | 'template'>('analyzer');
+    const [analysisError, setAnalysisError] = useState<string | null>(null);
+    // Only offered when the request itself or the model's output failed.
+    const [canRetry, setCanRetry] = useState(false);
+    const [activeTab, setActiveTab] = useState<ResumeTab>('analyzer');
+    const [resume, setResume] = useState<StructuredResume>(createEmptyResume);
+    const [layout, setLayout] = useState<ResumeLayout>('classic');
+    const [resumeSource, setResumeSource] = useState<ResumeSource>('text');
+    // The references of the resume as it was analyzed, so suggestions still
+    // point at the right lines after later edits.
+    const [analyzedReferences, setAnalyzedReferences] = useState<Map<string, ResumeReference>>(new Map());
+    // The local keyword match needs no network, so it is shown even when the AI analysis fails.
+    const [keywordMatch, setKeywordMatch] = useState<{ match: AtsMatchResult; resumeText: string; jobDescription: string } | null>(null);
+    // Scores from before the last batch of accepted rewrites, to show the change.
+    const [previousScores, setPreviousScores] = useState<{ ai: number; keyword: number } | null>(null);
+    const [rewriteNotice, setRewriteNotice] = useState<string | null>(null);
+    const [coverLetter, setCoverLetter] = useState<CoverLetter | null>(null);
+    const [coverLetterOptions, setCoverLetterOptions] = useState<CoverLetterOptions>(DEFAULT_COVER_LETTER_OPTIONS);
+    // Kept here so a running batch keeps reporting while another tab is open.
+    const [jobTargets, setJobTargets] = useState<JobTarget[]>(() => [createJobTarget()]);
+    const [jobTargetResults, setJobTargetResults] = useState<JobTargetResult[]>([]);
+
+    // The parsed requirements only apply while the text is the one they were parsed from.
+    const activeJd = matchesJobDescriptionText(parsedJd, jdText) ? parsedJd : null;
+    const promptJobDescription = activeJd ? jobDescriptionToPromptText(activeJd) : jdText;
+
+    const handleSelectJobDescription = (jd: JobDescription | null) => {
+        setParsedJd(jd);
+        if (jd) setJdText(jd.rawText);
+    };
 
-    const handleAnalyze = async () => {
-        if (!resumeText.trim() || !jdText.trim()) {
-            setAnalysis({ error: "Please paste both your resume and the job description." });
+    // Takes the resume explicitly so a re-analysis can run on edits that
+    // have not reached state yet.
+    const handleAnalyze = async (input = { resumeText, resume }) => {
+        const isStructured = resumeSource === 'builder';
+        const hasResume = isStructured ? resumeToBlocks(input.resume).length > 0 : input.resumeText.trim() !== '';
+        setAnalysis(null);
+        setCanRetry(false);
+        setKeywordMatch(null);
+        if (!hasResume || !jdText.trim()) {
+            setAnalysisError(isStructured
+                ? "Please fill in your resume in the Resume Builder and paste the job description."
+                : "Please paste both your resume and the job description.");
             return;
         }
         setIsLoading(true);
-        setAnalysis(null);
+        setAnalysisError(null);
+        setAnalyzedReferences(isStructured ? listResumeReferences(input.resume) : new Map());
+        const matchedResumeText = isStructured ? resumeToPlainText(input.resume) : input.resumeText;
+        const match = matchResumeToJd(matchedResumeText, jdText, activeJd ? jobDescriptionRequirements(activeJd) : undefined);
+        setKeywordMatch({ match, resumeText: matchedResumeText, jobDescription: jdText });
         try {
-            const resultString = await analyzeResumeWithJd(resumeText, jdText);
-            const resultJson = JSON.parse(resultString);
-            setAnalysis(resultJson);
+            const outcome = await analyzeResumeWithJd(isStructured ? resumeToAnalysisText(input.resume) : input.resumeText, promptJobDescription, isStructured);
+            if (outcome.status === 'ok') {
+                // Drop rewrites whose original line the model did not copy exactly.
+                const lineRewrites = outcome.analysis.lineRewrites.filter(rewrite => (isStructured
+                    ? applyRewritesToResume(input.resume, [rewrite])
+                    : applyRewritesToText(input.resumeText, [rewrite])).skipped.length === 0);
+                setAnalysis({ ...outcome.analysis, lineRewrites });
+                const version: ResumeVersion = {
+                    id: crypto.randomUUID(),
+                    createdAt: Date.now(),
+                    source: resumeSource,
+                    resumeText: matchedResumeText,
+                    ...(isStructured ? { resume: input.resume, layout } : {}),
+                    jobDescription: jdText,
+                    analysis: outcome.analysis,
+                    keywordScore: match.score,
+                };
+                saveResumeVersion(version).catch(err => console.error("Failed to save resume version:", err));
+            } else {
+                setAnalysisError(outcome.message);
+                setCanRetry(true);
+            }
         } catch (error) {
             console.error("Analysis failed:", error);
-            setAnalysis({ error: "Failed to parse the analysis. The model may have returned an unexpected format." });
+            setAnalysisError("Failed to analyze resume. Please try again.");
+            setCanRetry(true);
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handleApplyRewrites = (accepted: LineRewrite[]) => {
+        let updated = { resumeText, resume };
+        let skipped: LineRewrite[];
+        if (resumeSource === 'builder') {
+            const result = applyRewritesToResume(resume, accepted);
+            updated = { ...updated, resume: result.updated };
+            skipped = result.skipped;
+            setResume(result.updated);
+        } else {
+            const result = applyRewritesToText(resumeText, accepted);
+            updated = { ...updated, resumeText: result.updated };
+            skipped = result.skipped;
+            setResumeText(result.updated);
+        }
+        setRewriteNotice(skipped.length > 0
+            ? `${skipped.length} of ${accepted.length} rewrites were skipped because those lines changed after the analysis.`
+            : null);
+        if (analysis && keywordMatch) setPreviousScores({ ai: analysis.score, keyword: keywordMatch.match.score });
+        handleAnalyze(updated);
+    };
+
+    const handleRestoreVersion = (version: ResumeVersion) => {
+        setResumeSource(version.source);
+        if (version.resume) {
+            setResume(version.resume);
+            if (version.layout) setLayout(version.layout);
+        } else {
+            setResumeText(version.resumeText);
+        }
+        setJdText(version.jobDescription);
+        setAnalysis(null);
+        setAnalysisError(null);
+        setKeywordMatch(null);
+        setPreviousScores(null);
+        setRewriteNotice(null);
+        setActiveTab(version.resume ? 'builder' : 'analyzer');
+    };
+
+    const startAnalysis = () => {
+        setPreviousScores(null);
+        setRewriteNotice(null);
+        handleAnalyze();
+    };
+
+    const renderScoreChange = (label: string, before: number, after: number) => {
+        const change = after - before;
+        return (
+            <span>
+                {label}: {before} → <span className="font-bold">{after}</span>{' '}
+                <span className={change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-400'}>
+                    ({change > 0 ? '+' : ''}{change})
+                </span>
+            </span>
+        );
+    };
+
+    const currentResumeText = resumeSource === 'builder' ? resumeToPlainText(resume) : resumeText;
+
     const renderAnalyzer = () => (
         <>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-                <textarea
-                    value={resumeText}
-                    onChange={(e) => setResumeText(e.target.value)}
-                    placeholder="Paste your full resume text here..."
-                    rows={15}
-                    className="w-full bg-gray-700 text-white placeholder-gray-400 p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                />
-                <textarea
-                    value={jdText}
-                    onChange={(e) => setJdText(e.target.value)}
-                    placeholder="Paste the target job description here..."
-                    rows={15}
-                    className="w-full bg-gray-700 text-white placeholder-gray-400 p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                />
+                <div>
+                    <div className="flex gap-2 mb-3">
+                        {([['text', 'Upload or Paste'], ['builder', 'From Resume Builder']] as [ResumeSource, string][]).map(([source, label]) => (
+                            <button
+                                key={source}
+                                onClick={() => setResumeSource(source)}
+                                className={`text-sm py-1 px-3 rounded-md transition duration-300 ${resumeSource === source ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {resumeSource === 'text' ? (
+                        <>
+                            <ResumeFileImport onUse={setResumeText} />
+                            <textarea
+                                value={resumeText}
+                                onChange={(e) => setResumeText(e.target.value)}
+                                placeholder="...or paste your full resume text here"
+                                rows={15}
+                                className="w-full bg-gray-700 text-white placeholder-gray-400 p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                            />
+                        </>
+                    ) : (
+                        <div className="bg-gray-800 p-4 rounded-md text-sm text-gray-300">
+                            <p>The resume from the Resume Builder tab will be analyzed section by section, so suggestions can point at specific lines.</p>
+                            <button onClick={() => setActiveTab('builder')} className="mt-2 text-indigo-400 hover:text-indigo-300 font-semibold">Open Resume Builder</button>
+                        </div>
+                    )}
+                </div>
+                <div className="space-y-3">
+                    <JobDescriptionPicker text={jdText} onTextChange={setJdText} selected={parsedJd} onSelect={handleSelectJobDescription} />
+                    <textarea
+                        value={jdText}
+                        onChange={(e) => setJdText(e.target.value)}
+                        placeholder="Paste the target job description here..."
+                        rows={15}
+                        className="w-full bg-gray-700 text-white placeholder-gray-400 p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    />
+                </div>
             </div>
             <button
-                onClick={handleAnalyze}
+                onClick={startAnalysis}
                 disabled={isLoading}
                 className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900 text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center justify-center"
             >
                 {isLoading ? <Spinner /> : "Analyze Resume for ATS Score"}
             </button>
 
-            {analysis && (
+            {analysisError && (
                 <div className="mt-8 bg-gray-800 p-6 rounded-lg">
-                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Analysis Result</h3>
-                    {analysis.error && <p className="text-red-400">{analysis.error}</p>}
-                    {analysis.score && (
-                        <div className="mb-4">
-                            <h4 className="font-semibold text-lg text-gray-300">ATS Score</h4>
-                            <div className="w-full bg-gray-700 rounded-full h-4 mt-2">
-                                <div className="bg-green-500 h-4 rounded-full" style={{ width: `${analysis.score}%` }}></div>
-                            </div>
-                            <p className="text-center font-bold text-xl mt-1">{analysis.score}/100</p>
-                        </div>
+                    <p className="text-red-400">{analysisError}</p>
+                    {canRetry && (
+                        <button
+                            onClick={() => handleAnalyze()}
+                            disabled={isLoading}
+                            className="mt-3 bg-gray-700 hover:bg-gray-600 text-gray-200 font-bold py-2 px-4 rounded-md transition duration-300"
+                        >
+                            Try Again
+                        </button>
                     )}
-                    {analysis.missingKeywords && (
-                        <div className="mb-4">
-                            <h4 className="font-semibold text-lg text-gray-300">Missing Keywords</h4>
-                            <div className="flex flex-wrap gap-2 mt-2">
-                                {analysis.missingKeywords.map((kw, i) => <span key={i} className="bg-yellow-600 text-yellow-100 text-xs font-semibold mr-2 px-2.5 py-0.5 rounded">{kw}</span>)}
-                            </div>
-                        </div>
-                    )}
-                    {analysis.summarySuggestion && (
-                        <div className="mb-4">
-                            <h4 className="font-semibold text-lg text-gray-300">Summary Suggestion</h4>
-                            <p className="bg-gray-700 p-3 rounded-md mt-2 text-gray-200">{analysis.summarySuggestion}</p>
-                        </div>
-                    )}
-                    {analysis.experienceAdvice && (
-                        <div>
-                            <h4 className="font-semibold text-lg text-gray-300">Experience Section Advice</h4>
-                            <p className="bg-gray-700 p-3 rounded-md mt-2 text-gray-200">{analysis.experienceAdvice}</p>
-                        </div>
+                </div>
+            )}
+            {(rewriteNotice || (analysis && keywordMatch && previousScores)) && (
+                <div className="mt-8 bg-gray-800 p-4 rounded-lg text-gray-200 space-y-1">
+                    {analysis && keywordMatch && previousScores && (
+                        <p className="flex flex-wrap gap-x-6">
+                            <span className="font-semibold text-indigo-400">After your rewrites</span>
+                            {renderScoreChange('AI score', previousScores.ai, analysis.score)}
+                            {renderScoreChange('Keyword match', previousScores.keyword, keywordMatch.match.score)}
+                        </p>
                     )}
+                    {rewriteNotice && <p className="text-sm text-yellow-400">{rewriteNotice}</p>}
                 </div>
             )}
+            {analysis && <ResumeAnalysisReport analysis={analysis} references={analyzedReferences} keywordScore={keywordMatch?.match.score} />}
+            {analysis && analysis.lineRewrites.length > 0 && (
+                <ResumeRewrites
+                    rewrites={analysis.lineRewrites}
+                    references={analyzedReferences}
+                    onApply={handleApplyRewrites}
+                    isApplying={isLoading}
+                />
+            )}
+            {keywordMatch && <AtsMatchReport {...keywordMatch} />}
         </>
     );
 
-    const renderTemplate = () => (
-        <div className="bg-gray-800 p-6 rounded-lg">
-            <h3 className="text-xl font-bold text-indigo-400 mb-4">ATS-Friendly Resume Template</h3>
-            <p className="text-gray-400 mb-4">This template is designed to be easily parsed by Applicant Tracking Systems. Copy the text below and fill in your details.</p>
-            <pre className="whitespace-pre-wrap bg-gray-900 text-gray-200 p-4 rounded-md text-sm overflow-x-auto">
-                <code>{ATS_TEMPLATE}</code>
-            </pre>
-             <button
-                onClick={() => navigator.clipboard.writeText(ATS_TEMPLATE)}
-                className="mt-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300"
-            >
-                Copy Template
-            </button>
-        </div>
-    );
-
     return (
         <div className="max-w-6xl mx-auto">
             <h2 className="text-3xl font-bold text-center mb-2">Resume & Cover Letter Tools</h2>
             <p className="text-center text-gray-400 mb-8">Optimize your application materials with AI-powered insights.</p>
             
             <div className="flex justify-center border-b border-gray-700 mb-6">
-                <button onClick={() => setActiveTab('analyzer')} className={`px-4 py-2 font-semibold ${activeTab === 'analyzer' ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-gray-400'}`}>Resume Analyzer</button>
-                <button onClick={() => setActiveTab('template')} className={`px-4 py-2 font-semibold ${activeTab === 'template' ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-gray-400'}`}>ATS Template</button>
+                {TABS.map(([tab, label]) => (
+                    <button key={tab} onClick={() => setActiveTab(tab)} className={`px-4 py-2 font-semibold ${activeTab === tab ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-gray-400'}`}>{label}</button>
+                ))}
             </div>
 
-            {activeTab === 'analyzer' ? renderAnalyzer() : renderTemplate()}
+            {activeTab === 'analyzer' && renderAnalyzer()}
+            {activeTab === 'builder' && <ResumeBuilder resume={resume} onChange={setResume} layout={layout} onLayoutChange={setLayout} />}
+            {activeTab === 'batch' && (
+                <BatchAnalysis
+                    resumeText={currentResumeText}
+                    targets={jobTargets}
+                    onTargetsChange={setJobTargets}
+                    results={jobTargetResults}
+                    onResultsChange={setJobTargetResults}
+                    currentJobDescription={jdText}
+                    onEditResume={() => setActiveTab('analyzer')}
+                />
+            )}
+            {activeTab === 'coverLetter' && (
+                <CoverLetterGenerator
+                    resumeText={currentResumeText}
+                    jobDescription={promptJobDescription}
+                    header={resume.contact.name.trim() ? resume : null}
+                    layout={layout}
+                    letter={coverLetter}
+                    onChange={setCoverLetter}
+                    options={coverLetterOptions}
+                    onOptionsChange={setCoverLetterOptions}
+                    onEditInputs={() => setActiveTab('analyzer')}
+                />
+            )}
+            {activeTab === 'history' && <ResumeVersionHistory onRestore={handleRestoreVersion} />}
         </div>
     );
 };
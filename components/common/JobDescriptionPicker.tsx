@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { JobDescription } from '../../types';
+import { parseJobDescription } from '../../services/geminiService';
+import {
+    createJobDescription,
+    JOB_WORKPLACES,
+    jobDescriptionLabel,
+    matchesJobDescriptionText,
+} from '../../services/jobDescription';
+import { importResumeFile, RESUME_FILE_ACCEPT } from '../../services/resumeImport';
+import { deleteJobDescription, listJobDescriptions, saveJobDescription } from '../../services/storageService';
+import { Spinner } from './Spinner';
+
+interface JobDescriptionPickerProps {
+    // The job description text being edited next to the picker.
+    text: string;
+    onTextChange: (text: string) => void;
+    selected: JobDescription | null;
+    // Selecting a saved record also replaces the text with the one it was parsed from.
+    onSelect: (jd: JobDescription | null) => void;
+}
+
+const SkillList: React.FC<{ label: string; skills: string[]; className: string }> = ({ label, skills, className }) => (
+    skills.length === 0 ? null : (
+        <div>
+            <p className="text-xs text-gray-400 mb-1">{label}</p>
+            <div className="flex flex-wrap gap-1">
+                {skills.map((skill, i) => <span key={i} className={`${className} text-xs font-semibold px-2 py-0.5 rounded`}>{skill}</span>)}
+            </div>
+        </div>
+    )
+);
+
+export const JobDescriptionPicker: React.FC<JobDescriptionPickerProps> = ({ text, onTextChange, selected, onSelect }) => {
+    const [saved, setSaved] = useState<JobDescription[]>([]);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState('');
+    const inputRef = useRef<HTMLInputElement>(null);
+    const isCurrent = matchesJobDescriptionText(selected, text);
+
+    useEffect(() => {
+        listJobDescriptions()
+            .then(setSaved)
+            .catch(err => console.error("Failed to load job descriptions:", err));
+    }, []);
+
+    // Text that was already parsed selects its saved record instead of
+    // saving a duplicate. Storage is checked since other tabs save too.
+    const parseAndSave = async (jdText: string) => {
+        const stored = await listJobDescriptions();
+        const existing = stored.find(jd => matchesJobDescriptionText(jd, jdText));
+        if (existing) {
+            setSaved(stored);
+            onSelect(existing);
+            return;
+        }
+        const outcome = await parseJobDescription(jdText);
+        if (outcome.status === 'error') {
+            setError(outcome.message);
+            return;
+        }
+        const jd = createJobDescription(outcome.details, jdText);
+        await saveJobDescription(jd);
+        setSaved([jd, ...stored]);
+        onSelect(jd);
+    };
+
+    const handleParse = async () => {
+        setIsWorking(true);
+        setError('');
+        try {
+            await parseAndSave(text);
+        } catch (err) {
+            console.error("Failed to parse job description:", err);
+            setError("Could not parse and save the job description.");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setIsWorking(true);
+        setError('');
+        try {
+            const { text: fileText } = await importResumeFile(file);
+            if (!fileText.trim()) {
+                setError(`No text was found in ${file.name}.`);
+                return;
+            }
+            onTextChange(fileText);
+            await parseAndSave(fileText);
+        } catch (err) {
+            console.error("Job description import failed:", err);
+            setError(err instanceof Error ? err.message : "Failed to read the file.");
+        } finally {
+            setIsWorking(false);
+            if (inputRef.current) inputRef.current.value = '';
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selected || !window.confirm("Delete this saved job description?")) return;
+        try {
+            await deleteJobDescription(selected.id);
+            setSaved(prev => prev.filter(jd => jd.id !== selected.id));
+            onSelect(null);
+        } catch (err) {
+            console.error("Failed to delete job description:", err);
+            setError("Could not delete the job description.");
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={selected && saved.some(jd => jd.id === selected.id) ? selected.id : ''}
+                    onChange={(e) => onSelect(saved.find(jd => jd.id === e.target.value) ?? null)}
+                    className="flex-grow min-w-0 bg-gray-700 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+                >
+                    <option value="">{saved.length > 0 ? 'Saved job descriptions...' : 'No saved job descriptions yet'}</option>
+                    {saved.map(jd => <option key={jd.id} value={jd.id}>{jobDescriptionLabel(jd)}</option>)}
+                </select>
+                {selected && (
+                    <button onClick={handleDelete} className="text-sm text-red-400 hover:text-red-300">Delete</button>
+                )}
+                <button
+                    onClick={handleParse}
+                    disabled={isWorking || !text.trim() || isCurrent}
+                    className="text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 py-2 px-3 rounded-md transition duration-300"
+                >
+                    {selected && !isCurrent ? 'Parse Again' : 'Parse & Save'}
+                </button>
+                <button
+                    onClick={() => inputRef.current?.click()}
+                    disabled={isWorking}
+                    className="text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 py-2 px-3 rounded-md transition duration-300"
+                >
+                    Upload File
+                </button>
+                <input ref={inputRef} type="file" accept={RESUME_FILE_ACCEPT} onChange={(e) => handleFile(e.target.files?.[0])} className="hidden" />
+                {isWorking && <Spinner />}
+            </div>
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            {selected && !isCurrent && (
+                <p className="text-xs text-yellow-400">The text has changed since it was parsed, so the saved requirements are not used. Parse it again to update them.</p>
+            )}
+            {isCurrent && (
+                <div className="bg-gray-800 p-3 rounded-md space-y-2 text-sm">
+                    <p className="font-semibold text-indigo-300">{jobDescriptionLabel(selected)}</p>
+                    <p className="text-xs text-gray-400">
+                        {[selected.seniority, selected.location, selected.workplace !== 'unspecified' ? JOB_WORKPLACES[selected.workplace] : '', selected.compensation]
+                            .filter(Boolean)
+                            .join(' · ')}
+                    </p>
+                    <SkillList label="Must-have" skills={selected.mustHaveSkills} className="bg-indigo-700 text-indigo-100" />
+                    <SkillList label="Nice-to-have" skills={selected.niceToHaveSkills} className="bg-gray-600 text-gray-100" />
+                    {selected.responsibilities.length > 0 && (
+                        <details>
+                            <summary className="cursor-pointer text-xs text-gray-400">Responsibilities ({selected.responsibilities.length})</summary>
+                            <ul className="list-disc list-inside text-gray-300 mt-1">
+                                {selected.responsibilities.map((item, i) => <li key={i}>{item}</li>)}
+                            </ul>
+                        </details>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
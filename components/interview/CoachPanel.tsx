@@ -0,0 +1,53 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { InterviewType } from '../../types';
+import { computeCoachHints, extractJdKeywords } from '../../services/answerCoach';
+
+interface CoachPanelProps {
+    question: string;
+    answer: string;
+    // When the candidate started the current answer; unknown for typed answers.
+    answerStartedAt: number | null;
+    interviewType: InterviewType;
+    jobDescription: string;
+}
+
+const CLOCK_TICK_MS = 5000;
+
+export const CoachPanel: React.FC<CoachPanelProps> = ({ question, answer, answerStartedAt, interviewType, jobDescription }) => {
+    const [now, setNow] = useState(Date.now());
+    const jdKeywords = useMemo(() => extractJdKeywords(jobDescription), [jobDescription]);
+
+    useEffect(() => {
+        if (answerStartedAt === null) return;
+        setNow(Date.now());
+        const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+        return () => clearInterval(timer);
+    }, [answerStartedAt]);
+
+    const hints = computeCoachHints({
+        question,
+        answer,
+        elapsedMs: answerStartedAt !== null ? now - answerStartedAt : undefined,
+        interviewType,
+        jdKeywords,
+    });
+
+    return (
+        <div className="bg-gray-900 rounded-md p-3 text-sm overflow-y-auto">
+            <h3 className="font-bold text-indigo-300 mb-2">Coach</h3>
+            {!answer.trim() ? (
+                <p className="text-gray-500">Hints will appear here while you answer.</p>
+            ) : hints.length === 0 ? (
+                <p className="text-green-400">Looking good. Keep going.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {hints.map(hint => (
+                        <li key={hint.id} className={`p-2 rounded ${hint.tone === 'warn' ? 'bg-yellow-900 text-yellow-100' : 'bg-gray-800 text-gray-300'}`}>
+                            {hint.text}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
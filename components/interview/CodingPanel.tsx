@@ -0,0 +1,93 @@
+import React from 'react';
+import { CodingLanguage, CodingProblem, TestCaseResult } from '../../types';
+import { Spinner } from '../common/Spinner';
+
+interface CodingPanelProps {
+    problem: CodingProblem;
+    language: CodingLanguage;
+    onLanguageChange: (language: CodingLanguage) => void;
+    code: string;
+    onCodeChange: (code: string) => void;
+    results: TestCaseResult[] | null;
+    isRunning: boolean;
+    onRunTests: () => void;
+}
+
+const INDENT = '  ';
+
+export const CodingPanel: React.FC<CodingPanelProps> = ({
+    problem,
+    language,
+    onLanguageChange,
+    code,
+    onCodeChange,
+    results,
+    isRunning,
+    onRunTests,
+}) => {
+    // Insert spaces on Tab instead of moving focus out of the editor.
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key !== 'Tab') return;
+        e.preventDefault();
+        const editor = e.currentTarget;
+        const { selectionStart, selectionEnd } = editor;
+        onCodeChange(code.slice(0, selectionStart) + INDENT + code.slice(selectionEnd));
+        requestAnimationFrame(() => {
+            editor.selectionStart = editor.selectionEnd = selectionStart + INDENT.length;
+        });
+    };
+
+    const passedCount = results?.filter(result => result.passed).length ?? 0;
+
+    return (
+        <div className="flex flex-col h-full gap-3 min-h-0">
+            <details open className="bg-gray-900 rounded-md p-3 text-sm">
+                <summary className="cursor-pointer font-bold text-indigo-300">{problem.title}</summary>
+                <p className="whitespace-pre-wrap text-gray-300 mt-2 max-h-40 overflow-y-auto">{problem.description}</p>
+            </details>
+            <div className="flex justify-between items-center">
+                <select
+                    value={language}
+                    onChange={(e) => onLanguageChange(e.target.value as CodingLanguage)}
+                    className="bg-gray-700 text-white text-sm p-1 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                >
+                    <option value="javascript">JavaScript</option>
+                    <option value="typescript">TypeScript</option>
+                </select>
+                <button
+                    onClick={onRunTests}
+                    disabled={isRunning}
+                    className="bg-green-600 hover:bg-green-700 disabled:bg-green-900 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300 flex items-center gap-2"
+                >
+                    {isRunning ? <Spinner /> : 'Run Tests'}
+                </button>
+            </div>
+            <textarea
+                value={code}
+                onChange={(e) => onCodeChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                spellCheck={false}
+                className="flex-grow min-h-[12rem] bg-gray-900 text-green-200 font-mono text-sm p-3 rounded-md border border-gray-700 focus:ring-2 focus:ring-indigo-500 focus:outline-none resize-none"
+            />
+            {results && (
+                <div className="bg-gray-900 rounded-md p-3 text-sm max-h-40 overflow-y-auto">
+                    <p className={`font-bold mb-2 ${passedCount === results.length ? 'text-green-400' : 'text-yellow-400'}`}>
+                        {passedCount}/{results.length} tests passed
+                    </p>
+                    <ul className="space-y-1 font-mono text-xs">
+                        {results.map((result, i) => (
+                            <li key={i} className={result.passed ? 'text-green-300' : 'text-red-300'}>
+                                {result.passed ? '✓' : '✗'} {problem.functionName}({problem.testCases[i].input.map(arg => JSON.stringify(arg)).join(', ')})
+                                {!result.passed && (
+                                    <span className="text-gray-400">
+                                        {' '}&rarr; {result.error ?? JSON.stringify(result.actual)} (expected {JSON.stringify(problem.testCases[i].expected)})
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { TranscriptEntry } from '../../types';
+import { computeDeliveryMetrics } from '../../services/deliveryAnalytics';
+
+const StatTile: React.FC<{ label: string; value: string; hint?: string; tone?: 'good' | 'warn' }> = ({ label, value, hint, tone }) => (
+    <div className="bg-gray-900 p-4 rounded-md">
+        <p className="text-xs uppercase tracking-wide text-gray-400">{label}</p>
+        <p className={`text-2xl font-bold ${tone === 'good' ? 'text-green-400' : tone === 'warn' ? 'text-yellow-400' : 'text-gray-100'}`}>{value}</p>
+        {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+    </div>
+);
+
+export const DeliveryDashboard: React.FC<{ transcripts: TranscriptEntry[] }> = ({ transcripts }) => {
+    const metrics = useMemo(() => computeDeliveryMetrics(transcripts), [transcripts]);
+
+    if (metrics.answerCount === 0) {
+        return <p className="text-gray-400">No answers were recorded, so there is no delivery data.</p>;
+    }
+
+    const paceTone = metrics.wordsPerMinute === undefined ? undefined
+        : metrics.wordsPerMinute >= 120 && metrics.wordsPerMinute <= 160 ? 'good' : 'warn';
+    const talkSharePercent = Math.round(metrics.candidateTalkShare * 100);
+    const fillerEntries = Object.entries<number>(metrics.fillerCounts).sort(([, a], [, b]) => b - a);
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatTile
+                    label="Pace"
+                    value={metrics.wordsPerMinute !== undefined ? `${metrics.wordsPerMinute} wpm` : '—'}
+                    hint="120–160 wpm is comfortable"
+                    tone={paceTone}
+                />
+                <StatTile
+                    label="Filler Words"
+                    value={`${metrics.totalFillers}`}
+                    hint={`${metrics.fillersPerHundredWords.toFixed(1)} per 100 words`}
+                    tone={metrics.fillersPerHundredWords <= 3 ? 'good' : 'warn'}
+                />
+                <StatTile
+                    label="Avg. Answer"
+                    value={`${metrics.averageAnswerWords} words`}
+                    hint={metrics.averageAnswerSeconds !== undefined ? `${Math.round(metrics.averageAnswerSeconds)}s on average` : undefined}
+                />
+                <StatTile
+                    label="Your Talk Share"
+                    value={`${talkSharePercent}%`}
+                    hint="Aim for roughly 60–70%"
+                    tone={talkSharePercent >= 55 && talkSharePercent <= 75 ? 'good' : 'warn'}
+                />
+            </div>
+
+            <div>
+                <div className="flex h-3 rounded-full overflow-hidden bg-gray-700">
+                    <div className="bg-indigo-500" style={{ width: `${talkSharePercent}%` }}></div>
+                </div>
+                <div className="flex justify-between text-xs text-gray-400 mt-1">
+                    <span>You</span>
+                    <span>Interviewer</span>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <h5 className="font-semibold text-gray-300 mb-2">Filler Breakdown</h5>
+                    {fillerEntries.length === 0 ? (
+                        <p className="text-sm text-gray-400">No filler words detected.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-2">
+                            {fillerEntries.map(([filler, count]) => (
+                                <span key={filler} className="bg-yellow-600 text-yellow-100 text-xs font-semibold px-2.5 py-0.5 rounded">"{filler}" &times; {count}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <div>
+                    <h5 className="font-semibold text-gray-300 mb-2">Longest Pauses Before Answering</h5>
+                    <p className="text-xs text-gray-500 mb-2">From the end of the interviewer's question until your voice was detected.</p>
+                    {metrics.longestPauses.length === 0 ? (
+                        <p className="text-sm text-gray-400">Pauses are only measured in voice interviews.</p>
+                    ) : (
+                        <ul className="space-y-1 text-sm">
+                            {metrics.longestPauses.map((pause, i) => (
+                                <li key={i} className="flex gap-2">
+                                    <span className="font-bold text-gray-200 w-12 shrink-0">{(pause.durationMs / 1000).toFixed(1)}s</span>
+                                    <span className="text-gray-400 truncate">after "{pause.afterText}"</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
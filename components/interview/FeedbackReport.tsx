@@ -0,0 +1,98 @@
+import React from 'react';
+import { HireSignal, InterviewFeedback, RubricScores } from '../../types';
+
+export const HIRE_SIGNAL_STYLES: Record<HireSignal, { label: string; className: string }> = {
+    strong_hire: { label: 'Strong Hire', className: 'bg-green-600 text-green-100' },
+    hire: { label: 'Hire', className: 'bg-green-800 text-green-100' },
+    no_hire: { label: 'No Hire', className: 'bg-yellow-700 text-yellow-100' },
+    strong_no_hire: { label: 'Strong No Hire', className: 'bg-red-700 text-red-100' },
+};
+
+const RUBRIC_LABELS: Record<keyof RubricScores, string> = {
+    relevance: 'Relevance',
+    depth: 'Depth',
+    structure: 'Structure',
+    communication: 'Communication',
+};
+
+const RubricBar: React.FC<{ label: string; score: number }> = ({ label, score }) => (
+    <div className="flex items-center gap-2 text-xs">
+        <span className="w-28 text-gray-400">{label}</span>
+        <div className="flex-grow bg-gray-700 rounded-full h-2">
+            <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${(score / 5) * 100}%` }}></div>
+        </div>
+        <span className="w-8 text-right text-gray-300">{score}/5</span>
+    </div>
+);
+
+export const FeedbackReport: React.FC<{ feedback: InterviewFeedback }> = ({ feedback }) => {
+    if (feedback.error) {
+        return <p className="text-red-400">{feedback.error}</p>;
+    }
+
+    const signal = feedback.hireSignal ? HIRE_SIGNAL_STYLES[feedback.hireSignal] : undefined;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                {feedback.overallScore !== undefined && (
+                    <div className="flex-grow">
+                        <h4 className="font-semibold text-lg text-gray-300">Overall Score</h4>
+                        <div className="w-full bg-gray-700 rounded-full h-4 mt-2">
+                            <div className="bg-green-500 h-4 rounded-full" style={{ width: `${feedback.overallScore}%` }}></div>
+                        </div>
+                        <p className="text-center font-bold text-xl mt-1">{feedback.overallScore}/100</p>
+                    </div>
+                )}
+                {signal && (
+                    <span className={`text-sm font-bold px-3 py-1 rounded ${signal.className}`}>{signal.label}</span>
+                )}
+            </div>
+
+            {feedback.summary && <p className="bg-gray-700 p-3 rounded-md text-gray-200">{feedback.summary}</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {feedback.strengths && feedback.strengths.length > 0 && (
+                    <div>
+                        <h4 className="font-semibold text-lg text-gray-300 mb-2">Strengths</h4>
+                        <ul className="list-disc list-inside space-y-1 text-green-300">
+                            {feedback.strengths.map((item, i) => <li key={i}>{item}</li>)}
+                        </ul>
+                    </div>
+                )}
+                {feedback.gaps && feedback.gaps.length > 0 && (
+                    <div>
+                        <h4 className="font-semibold text-lg text-gray-300 mb-2">Gaps</h4>
+                        <ul className="list-disc list-inside space-y-1 text-yellow-300">
+                            {feedback.gaps.map((item, i) => <li key={i}>{item}</li>)}
+                        </ul>
+                    </div>
+                )}
+            </div>
+
+            {feedback.answers && feedback.answers.length > 0 && (
+                <div className="space-y-4">
+                    <h4 className="font-semibold text-lg text-gray-300">Answer-by-Answer Breakdown</h4>
+                    {feedback.answers.map((answer, i) => (
+                        <div key={i} className="bg-gray-900 p-4 rounded-md space-y-3">
+                            <p className="font-bold text-gray-200">Q{i + 1}. {answer.question}</p>
+                            <p className="text-sm text-gray-400 italic">{answer.answer}</p>
+                            <div className="space-y-1">
+                                {(Object.keys(RUBRIC_LABELS) as (keyof RubricScores)[]).map(key => (
+                                    <RubricBar key={key} label={RUBRIC_LABELS[key]} score={answer.scores?.[key] ?? 0} />
+                                ))}
+                            </div>
+                            {answer.comment && <p className="text-sm text-gray-300">{answer.comment}</p>}
+                            {answer.improvedAnswer && (
+                                <div>
+                                    <h5 className="text-sm font-semibold text-indigo-300">Improved Sample Answer</h5>
+                                    <p className="text-sm bg-gray-700 p-3 rounded-md mt-1 text-gray-200">{answer.improvedAnswer}</p>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { InterviewConfig } from '../../types';
+import {
+    INTERVIEW_DIFFICULTIES,
+    INTERVIEW_MODES,
+    INTERVIEW_REALISM,
+    INTERVIEW_TYPES,
+    INTERVIEW_VOICES,
+    INTERVIEWER_PERSONAS,
+    QUESTION_COUNT_OPTIONS,
+} from '../../services/interviewConfig';
+
+interface InterviewConfigFormProps {
+    config: InterviewConfig;
+    onChange: (config: InterviewConfig) => void;
+}
+
+const selectClassName = "w-full bg-gray-700 text-white p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+export const InterviewConfigForm: React.FC<InterviewConfigFormProps> = ({ config, onChange }) => {
+    const update = <K extends keyof InterviewConfig>(key: K, value: InterviewConfig[K]) => {
+        onChange({ ...config, [key]: value });
+    };
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block">
+                <span className="text-sm text-gray-300">Format</span>
+                <select value={config.mode} onChange={(e) => update('mode', e.target.value as InterviewConfig['mode'])} className={selectClassName}>
+                    {Object.entries(INTERVIEW_MODES).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-sm text-gray-300">Experience</span>
+                <select value={config.realism} onChange={(e) => update('realism', e.target.value as InterviewConfig['realism'])} className={selectClassName}>
+                    {Object.entries(INTERVIEW_REALISM).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-sm text-gray-300">Interview Type</span>
+                <select value={config.type} onChange={(e) => update('type', e.target.value as InterviewConfig['type'])} className={selectClassName}>
+                    {Object.entries(INTERVIEW_TYPES).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-sm text-gray-300">Seniority</span>
+                <select value={config.difficulty} onChange={(e) => update('difficulty', e.target.value as InterviewConfig['difficulty'])} className={selectClassName}>
+                    {Object.entries(INTERVIEW_DIFFICULTIES).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-sm text-gray-300">Number of Questions</span>
+                <select value={config.questionCount} onChange={(e) => update('questionCount', Number(e.target.value))} className={selectClassName}>
+                    {QUESTION_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count} questions</option>)}
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-sm text-gray-300">Interviewer Persona</span>
+                <select value={config.persona} onChange={(e) => update('persona', e.target.value as InterviewConfig['persona'])} className={selectClassName}>
+                    {Object.entries(INTERVIEWER_PERSONAS).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </label>
+            <label className="block sm:col-span-2">
+                <span className="text-sm text-gray-300">Interviewer Voice</span>
+                <select value={config.voice} onChange={(e) => update('voice', e.target.value as InterviewConfig['voice'])} disabled={config.mode === 'text'} className={`${selectClassName} disabled:opacity-50`}>
+                    {INTERVIEW_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center gap-2 sm:col-span-2">
+                <input
+                    type="checkbox"
+                    checked={config.useCamera}
+                    onChange={(e) => update('useCamera', e.target.checked)}
+                    disabled={config.mode === 'text'}
+                    className="form-checkbox text-indigo-500"
+                />
+                <span className={`text-sm ${config.mode === 'text' ? 'text-gray-500' : 'text-gray-300'}`}>Video interview: use my camera and get on-camera presence feedback</span>
+            </label>
+            <label className="flex items-center gap-2 sm:col-span-2">
+                <input
+                    type="checkbox"
+                    checked={config.pushToTalk}
+                    onChange={(e) => update('pushToTalk', e.target.checked)}
+                    disabled={config.mode === 'text'}
+                    className="form-checkbox text-indigo-500"
+                />
+                <span className={`text-sm ${config.mode === 'text' ? 'text-gray-500' : 'text-gray-300'}`}>Push-to-talk: hold the spacebar while answering (for noisy rooms)</span>
+            </label>
+        </div>
+    );
+};
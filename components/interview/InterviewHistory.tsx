@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { InterviewSession, RubricScores } from '../../types';
+import { deleteInterviewSession, getInterviewRecording, listInterviewSessions } from '../../services/storageService';
+import { INTERVIEW_DIFFICULTIES, INTERVIEW_MODES, INTERVIEW_TYPES, INTERVIEWER_PERSONAS, withConfigDefaults } from '../../services/interviewConfig';
+import { hasInterviewerNotes } from '../../services/interviewTools';
+import { toFileSlug } from '../../utils';
+import { Spinner } from '../common/Spinner';
+import { DeliveryDashboard } from './DeliveryDashboard';
+import { FeedbackReport } from './FeedbackReport';
+import { InterviewerNotesReport } from './InterviewerNotesReport';
+import { LoopDebriefReport } from './LoopDebriefReport';
+import { PresenceReport } from './PresenceReport';
+import { QuestionPlanCoverage } from './QuestionPlanCoverage';
+import { InterviewPlayback } from './InterviewPlayback';
+import { TranscriptExportMenu } from './TranscriptExportMenu';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const formatDuration = (session: InterviewSession) => {
+    const totalSeconds = Math.max(0, Math.round((session.endedAt - session.startedAt) / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+};
+
+const averageRubric = (session: InterviewSession): RubricScores | null => {
+    const answers = session.feedback?.answers;
+    if (!answers || answers.length === 0) return null;
+    const totals = { relevance: 0, depth: 0, structure: 0, communication: 0 };
+    for (const answer of answers) {
+        totals.relevance += answer.scores?.relevance ?? 0;
+        totals.depth += answer.scores?.depth ?? 0;
+        totals.structure += answer.scores?.structure ?? 0;
+        totals.communication += answer.scores?.communication ?? 0;
+    }
+    return {
+        relevance: totals.relevance / answers.length,
+        depth: totals.depth / answers.length,
+        structure: totals.structure / answers.length,
+        communication: totals.communication / answers.length,
+    };
+};
+
+const describeConfig = (session: InterviewSession) => {
+    if (!session.config) return 'Default setup';
+    const { mode, type, difficulty, questionCount, persona, voice } = withConfigDefaults(session.config);
+    const delivery = mode === 'text' ? INTERVIEW_MODES.text.label : voice;
+    const round = session.loop ? `${session.loop.roundName} (round ${session.loop.roundIndex + 1} of ${session.loop.roundCount}) · ` : '';
+    return `${round}${INTERVIEW_TYPES[type].label} · ${INTERVIEW_DIFFICULTIES[difficulty].label} · ${questionCount} questions · ${INTERVIEWER_PERSONAS[persona].label} · ${delivery}`;
+};
+
+const matchesQuery = (session: InterviewSession, query: string) => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return true;
+    return session.jobRole.toLowerCase().includes(needle)
+        || session.jobDescription.toLowerCase().includes(needle)
+        || session.transcripts.some(entry => entry.text.toLowerCase().includes(needle));
+};
+
+const SessionComparison: React.FC<{ sessions: InterviewSession[] }> = ({ sessions }) => {
+    const rows: { label: string; value: (session: InterviewSession) => React.ReactNode }[] = [
+        { label: 'Date', value: s => formatDate(s.startedAt) },
+        { label: 'Setup', value: describeConfig },
+        { label: 'Duration', value: formatDuration },
+        { label: 'Answers Given', value: s => s.transcripts.filter(entry => entry.speaker === 'user').length },
+        { label: 'Overall Score', value: s => s.feedback?.overallScore ?? '—' },
+        { label: 'Hire Signal', value: s => s.feedback?.hireSignal?.replace(/_/g, ' ') ?? '—' },
+        { label: 'Avg. Relevance', value: s => averageRubric(s)?.relevance.toFixed(1) ?? '—' },
+        { label: 'Avg. Depth', value: s => averageRubric(s)?.depth.toFixed(1) ?? '—' },
+        { label: 'Avg. Structure', value: s => averageRubric(s)?.structure.toFixed(1) ?? '—' },
+        { label: 'Avg. Communication', value: s => averageRubric(s)?.communication.toFixed(1) ?? '—' },
+    ];
+
+    return (
+        <table className="w-full text-sm text-left">
+            <thead>
+                <tr className="border-b border-gray-700">
+                    <th className="p-2"></th>
+                    {sessions.map(session => <th key={session.id} className="p-2 text-indigo-300">{session.jobRole}</th>)}
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.label} className="border-b border-gray-800">
+                        <td className="p-2 text-gray-400">{row.label}</td>
+                        {sessions.map(session => <td key={session.id} className="p-2 text-gray-200 capitalize">{row.value(session)}</td>)}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+interface InterviewHistoryProps {
+    onBack: () => void;
+    onReplay: (session: InterviewSession) => void;
+}
+
+export const InterviewHistory: React.FC<InterviewHistoryProps> = ({ onBack, onReplay }) => {
+    const [sessions, setSessions] = useState<InterviewSession[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [query, setQuery] = useState('');
+    const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [openRecording, setOpenRecording] = useState<Blob | null>(null);
+
+    useEffect(() => {
+        listInterviewSessions()
+            .then(setSessions)
+            .catch(err => {
+                console.error("Failed to load interview history:", err);
+                setError("Could not load your interview history.");
+            })
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    useEffect(() => {
+        setOpenRecording(null);
+        if (!openSessionId) return;
+        let isCurrent = true;
+        getInterviewRecording(openSessionId)
+            .then(recording => {
+                if (isCurrent) setOpenRecording(recording ?? null);
+            })
+            .catch(err => console.error("Failed to load interview recording:", err));
+        return () => {
+            isCurrent = false;
+        };
+    }, [openSessionId]);
+
+    const filteredSessions = useMemo(() => sessions.filter(session => matchesQuery(session, query)), [sessions, query]);
+    const openSession = sessions.find(session => session.id === openSessionId);
+    const comparedSessions = sessions.filter(session => compareIds.includes(session.id));
+
+    const handleDelete = async (id: string) => {
+        if (!window.confirm("Delete this interview session? This cannot be undone.")) return;
+        try {
+            await deleteInterviewSession(id);
+            setSessions(prev => prev.filter(session => session.id !== id));
+            setCompareIds(prev => prev.filter(compareId => compareId !== id));
+            if (openSessionId === id) setOpenSessionId(null);
+        } catch (err) {
+            console.error("Failed to delete interview session:", err);
+            setError("Could not delete the interview session.");
+        }
+    };
+
+    const toggleCompare = (id: string) => {
+        setCompareIds(prev => {
+            if (prev.includes(id)) return prev.filter(compareId => compareId !== id);
+            // Keep the comparison to the two most recently selected sessions.
+            return [...prev, id].slice(-2);
+        });
+    };
+
+    if (openSession) {
+        return (
+            <div className="max-w-4xl mx-auto bg-gray-800 p-8 rounded-lg shadow-xl">
+                <button onClick={() => setOpenSessionId(null)} className="text-indigo-400 hover:text-indigo-300 mb-4">&larr; Back to History</button>
+                <h2 className="text-2xl font-bold text-indigo-400">{openSession.jobRole}</h2>
+                <p className="text-gray-400 text-sm">{formatDate(openSession.startedAt)} &middot; {formatDuration(openSession)}</p>
+                <p className="text-gray-400 text-sm mb-4">{describeConfig(openSession)}</p>
+                <button
+                    onClick={() => onReplay(openSession)}
+                    className="mb-6 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300"
+                >
+                    Practice Again with This Setup
+                </button>
+                {openSession.loopDebrief && (
+                    <div className="mb-6">
+                        <h3 className="text-xl font-bold text-indigo-400 mb-4">Loop Debrief</h3>
+                        <LoopDebriefReport debrief={openSession.loopDebrief} />
+                    </div>
+                )}
+                {openSession.feedback && (
+                    <div className="mb-6">
+                        <h3 className="text-xl font-bold text-indigo-400 mb-4">Feedback Report</h3>
+                        <FeedbackReport feedback={openSession.feedback} />
+                    </div>
+                )}
+                {hasInterviewerNotes(openSession.interviewerNotes) && (
+                    <div className="mb-6">
+                        <h3 className="text-xl font-bold text-indigo-400 mb-4">Interviewer Notes</h3>
+                        <InterviewerNotesReport notes={openSession.interviewerNotes} />
+                    </div>
+                )}
+                {openSession.presenceFeedback && (
+                    <div className="mb-6">
+                        <h3 className="text-xl font-bold text-indigo-400 mb-4">On-Camera Presence</h3>
+                        <PresenceReport feedback={openSession.presenceFeedback} />
+                    </div>
+                )}
+                {openSession.questionPlan && (
+                    <div className="mb-6">
+                        <h3 className="text-xl font-bold text-indigo-400 mb-4">Plan Coverage</h3>
+                        <QuestionPlanCoverage plan={openSession.questionPlan} coveredIds={new Set(openSession.coveredQuestionIds)} />
+                    </div>
+                )}
+                <div className="mb-6">
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Delivery</h3>
+                    <DeliveryDashboard transcripts={openSession.transcripts} />
+                </div>
+                <h3 className="text-xl font-bold text-indigo-400 mb-2">Transcript</h3>
+                <div className="mb-4">
+                    <TranscriptExportMenu session={openSession} />
+                </div>
+                <InterviewPlayback
+                    transcripts={openSession.transcripts}
+                    recording={openRecording}
+                    fileName={`interview-${toFileSlug(openSession.jobRole)}.wav`}
+                />
+                <details className="mt-6">
+                    <summary className="cursor-pointer text-gray-400">Job Description</summary>
+                    <p className="whitespace-pre-wrap text-gray-300 text-sm mt-2">{openSession.jobDescription}</p>
+                </details>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-4xl mx-auto bg-gray-800 p-8 rounded-lg shadow-xl">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-indigo-400">Interview History</h2>
+                <button onClick={onBack} className="text-indigo-400 hover:text-indigo-300">&larr; New Interview</button>
+            </div>
+            <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by role, job description or transcript..."
+                className="w-full bg-gray-700 text-white placeholder-gray-400 p-3 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none mb-4"
+            />
+            {error && <p className="text-red-400 mb-4">{error}</p>}
+            {isLoading && <div className="flex justify-center"><Spinner /></div>}
+            {!isLoading && filteredSessions.length === 0 && (
+                <p className="text-gray-400 text-center">{sessions.length === 0 ? "You haven't finished any interviews yet." : "No sessions match your search."}</p>
+            )}
+            <ul className="space-y-2">
+                {filteredSessions.map(session => (
+                    <li key={session.id} className="flex items-center gap-4 bg-gray-900 p-3 rounded-md">
+                        <input
+                            type="checkbox"
+                            checked={compareIds.includes(session.id)}
+                            onChange={() => toggleCompare(session.id)}
+                            title="Select to compare"
+                            className="form-checkbox text-indigo-500"
+                        />
+                        <button onClick={() => setOpenSessionId(session.id)} className="flex-grow text-left">
+                            <p className="font-semibold text-gray-200">{session.jobRole}</p>
+                            <p className="text-xs text-gray-400">{formatDate(session.startedAt)} &middot; {formatDuration(session)}</p>
+                        </button>
+                        {session.feedback?.overallScore !== undefined && (
+                            <span className="text-sm font-bold text-green-400">{session.feedback.overallScore}/100</span>
+                        )}
+                        <button onClick={() => handleDelete(session.id)} className="text-sm text-red-400 hover:text-red-300">Delete</button>
+                    </li>
+                ))}
+            </ul>
+            {comparedSessions.length === 2 && (
+                <div className="mt-8">
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Comparison</h3>
+                    <SessionComparison sessions={comparedSessions} />
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { InterviewRound } from '../../types';
+import { INTERVIEW_TYPES, INTERVIEW_VOICES, INTERVIEWER_PERSONAS } from '../../services/interviewConfig';
+import { createInterviewRound, ROUND_TIME_LIMIT_OPTIONS } from '../../services/interviewLoop';
+
+interface InterviewLoopFormProps {
+    rounds: InterviewRound[];
+    onChange: (rounds: InterviewRound[]) => void;
+}
+
+const fieldClassName = "w-full bg-gray-700 text-white placeholder-gray-400 p-2 text-sm rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+export const InterviewLoopForm: React.FC<InterviewLoopFormProps> = ({ rounds, onChange }) => {
+    const update = (id: string, patch: Partial<InterviewRound>) => {
+        onChange(rounds.map(round => round.id === id ? { ...round, ...patch } : round));
+    };
+
+    const move = (index: number, offset: number) => {
+        const next = [...rounds];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        onChange(next);
+    };
+
+    const addRound = () => {
+        onChange([...rounds, createInterviewRound({
+            name: `Round ${rounds.length + 1}`,
+            type: 'behavioral',
+            persona: 'neutral',
+            voice: 'Zephyr',
+            focus: '',
+            timeLimitMinutes: 30,
+        })]);
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-gray-400">Each round has its own interviewer. Format, seniority, question count and camera come from the settings above.</p>
+            {rounds.map((round, index) => (
+                <div key={round.id} className="bg-gray-900 rounded-md p-3 space-y-2">
+                    <div className="flex gap-2 items-center">
+                        <span className="text-sm font-bold text-indigo-300 w-6">{index + 1}.</span>
+                        <input
+                            type="text"
+                            value={round.name}
+                            onChange={(e) => update(round.id, { name: e.target.value })}
+                            placeholder="Round name"
+                            className={fieldClassName}
+                        />
+                        <button onClick={() => move(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-gray-200 disabled:opacity-30 px-1" title="Move up">&uarr;</button>
+                        <button onClick={() => move(index, 1)} disabled={index === rounds.length - 1} className="text-gray-400 hover:text-gray-200 disabled:opacity-30 px-1" title="Move down">&darr;</button>
+                        <button
+                            onClick={() => onChange(rounds.filter(r => r.id !== round.id))}
+                            disabled={rounds.length <= 1}
+                            className="text-gray-400 hover:text-red-400 disabled:opacity-30 px-1"
+                            title="Remove round"
+                        >
+                            &times;
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        <select value={round.type} onChange={(e) => update(round.id, { type: e.target.value as InterviewRound['type'] })} className={fieldClassName}>
+                            {Object.entries(INTERVIEW_TYPES).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                        <select value={round.persona} onChange={(e) => update(round.id, { persona: e.target.value as InterviewRound['persona'] })} className={fieldClassName}>
+                            {Object.entries(INTERVIEWER_PERSONAS).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                        <select value={round.voice} onChange={(e) => update(round.id, { voice: e.target.value as InterviewRound['voice'] })} className={fieldClassName}>
+                            {INTERVIEW_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                        </select>
+                        <select value={round.timeLimitMinutes} onChange={(e) => update(round.id, { timeLimitMinutes: Number(e.target.value) })} className={fieldClassName}>
+                            {ROUND_TIME_LIMIT_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes} min</option>)}
+                        </select>
+                    </div>
+                    <input
+                        type="text"
+                        value={round.focus}
+                        onChange={(e) => update(round.id, { focus: e.target.value })}
+                        placeholder="Focus area (e.g., API design and scaling)"
+                        className={fieldClassName}
+                    />
+                </div>
+            ))}
+            <button onClick={addRound} className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold">+ Add round</button>
+        </div>
+    );
+};
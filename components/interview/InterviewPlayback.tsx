@@ -0,0 +1,62 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TranscriptEntry } from '../../types';
+import { TranscriptView } from './TranscriptView';
+
+interface InterviewPlaybackProps {
+    transcripts: TranscriptEntry[];
+    recording?: Blob | null;
+    fileName: string;
+}
+
+// Transcript with an optional audio player; clicking a line plays that moment.
+export const InterviewPlayback: React.FC<InterviewPlaybackProps> = ({ transcripts, recording, fileName }) => {
+    const [recordingUrl, setRecordingUrl] = useState('');
+    const [activeIndex, setActiveIndex] = useState<number | undefined>(undefined);
+    const audioRef = useRef<HTMLAudioElement>(null);
+
+    useEffect(() => {
+        if (!recording) {
+            setRecordingUrl('');
+            return;
+        }
+        const url = URL.createObjectURL(recording);
+        setRecordingUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [recording]);
+
+    const handleTimeUpdate = () => {
+        const currentMs = (audioRef.current?.currentTime ?? 0) * 1000;
+        const index = transcripts.findIndex(entry =>
+            entry.startMs !== undefined && entry.endMs !== undefined && currentMs >= entry.startMs && currentMs < entry.endMs);
+        setActiveIndex(index === -1 ? undefined : index);
+    };
+
+    const handleSelectEntry = (entry: TranscriptEntry) => {
+        const audio = audioRef.current;
+        if (!audio || entry.startMs === undefined) return;
+        audio.currentTime = entry.startMs / 1000;
+        audio.play();
+    };
+
+    return (
+        <div className="space-y-4">
+            {recordingUrl && (
+                <div className="flex flex-col sm:flex-row items-center gap-4">
+                    <audio ref={audioRef} src={recordingUrl} controls onTimeUpdate={handleTimeUpdate} className="w-full" />
+                    <a
+                        href={recordingUrl}
+                        download={fileName}
+                        className="shrink-0 bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-md transition duration-300"
+                    >
+                        Download WAV
+                    </a>
+                </div>
+            )}
+            <TranscriptView
+                transcripts={transcripts}
+                onSelectEntry={recordingUrl ? handleSelectEntry : undefined}
+                activeIndex={activeIndex}
+            />
+        </div>
+    );
+};
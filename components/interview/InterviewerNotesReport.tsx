@@ -0,0 +1,43 @@
+import React from 'react';
+import { InterviewerNotes } from '../../types';
+
+const formatOffset = (ms?: number) => {
+    if (ms === undefined) return '';
+    const totalSeconds = Math.floor(ms / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const InterviewerNotesReport: React.FC<{ notes: InterviewerNotes }> = ({ notes }) => (
+    <div className="space-y-4">
+        {notes.summary && <p className="text-gray-300 italic">"{notes.summary}"</p>}
+        {notes.topics.length > 0 && (
+            <div>
+                <h5 className="font-semibold text-gray-300 mb-2">Topics</h5>
+                <ol className="flex flex-wrap gap-2 text-xs">
+                    {notes.topics.map((transition, i) => (
+                        <li key={i} className="bg-gray-700 text-gray-200 px-2.5 py-0.5 rounded">
+                            {i + 1}. {transition.topic}
+                            {transition.atMs !== undefined && <span className="ml-1 text-gray-400">{formatOffset(transition.atMs)}</span>}
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        )}
+        {notes.scores.length > 0 && (
+            <div>
+                <h5 className="font-semibold text-gray-300 mb-2">Scores Recorded During the Interview</h5>
+                <ul className="space-y-2 text-sm">
+                    {notes.scores.map((entry, i) => (
+                        <li key={i} className="bg-gray-900 p-3 rounded-md">
+                            <div className="flex justify-between gap-4">
+                                <span className="text-gray-200">{entry.question}</span>
+                                <span className={`font-bold shrink-0 ${entry.score >= 4 ? 'text-green-400' : entry.score >= 3 ? 'text-yellow-400' : 'text-red-400'}`}>{entry.score}/5</span>
+                            </div>
+                            <p className="text-gray-400 mt-1">{entry.rationale}</p>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+    </div>
+);
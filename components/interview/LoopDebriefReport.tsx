@@ -0,0 +1,32 @@
+import React from 'react';
+import { LoopDebrief } from '../../types';
+import { FeedbackReport, HIRE_SIGNAL_STYLES } from './FeedbackReport';
+
+export const LoopDebriefReport: React.FC<{ debrief: LoopDebrief }> = ({ debrief }) => {
+    const { rounds, ...overall } = debrief;
+
+    return (
+        <div className="space-y-6">
+            <FeedbackReport feedback={overall} />
+            {!debrief.error && rounds && rounds.length > 0 && (
+                <div>
+                    <h4 className="font-semibold text-lg text-gray-300 mb-2">By Round</h4>
+                    <ul className="space-y-2">
+                        {rounds.map((round, i) => {
+                            const signal = round.hireSignal ? HIRE_SIGNAL_STYLES[round.hireSignal] : undefined;
+                            return (
+                                <li key={i} className="bg-gray-900 p-3 rounded-md">
+                                    <div className="flex justify-between items-center gap-4">
+                                        <span className="font-semibold text-gray-200">{round.roundName}</span>
+                                        {signal && <span className={`text-xs font-bold px-2 py-0.5 rounded ${signal.className}`}>{signal.label}</span>}
+                                    </div>
+                                    <p className="text-sm text-gray-400 mt-1">{round.summary}</p>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,28 @@
+import React, { useEffect, useRef } from 'react';
+
+interface MicLevelMeterProps {
+    // Updated for every captured frame; read on animation frames so the
+    // meter does not re-render the interview ten times a second.
+    levelRef: React.MutableRefObject<number>;
+    isActive: boolean;
+}
+
+export const MicLevelMeter: React.FC<MicLevelMeterProps> = ({ levelRef, isActive }) => {
+    const barRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let frame = requestAnimationFrame(function draw() {
+            if (barRef.current) {
+                barRef.current.style.width = `${Math.round(levelRef.current * 100)}%`;
+            }
+            frame = requestAnimationFrame(draw);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [levelRef]);
+
+    return (
+        <div className="w-24 h-2 bg-gray-700 rounded-full overflow-hidden" title="Microphone level">
+            <div ref={barRef} className={`h-2 transition-[width] duration-100 ${isActive ? 'bg-green-500' : 'bg-gray-500'}`} style={{ width: '0%' }}></div>
+        </div>
+    );
+};
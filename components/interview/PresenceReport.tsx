@@ -0,0 +1,44 @@
+import React from 'react';
+import { PresenceAspect, PresenceFeedback } from '../../types';
+
+const ASPECTS: { key: 'eyeContact' | 'framing' | 'lighting' | 'posture'; label: string }[] = [
+    { key: 'eyeContact', label: 'Eye Contact' },
+    { key: 'framing', label: 'Framing' },
+    { key: 'lighting', label: 'Lighting' },
+    { key: 'posture', label: 'Posture' },
+];
+
+const AspectCard: React.FC<{ label: string; aspect: PresenceAspect }> = ({ label, aspect }) => (
+    <div className="bg-gray-900 p-4 rounded-md">
+        <div className="flex justify-between items-center mb-1">
+            <h5 className="font-semibold text-gray-300">{label}</h5>
+            <span className={`font-bold ${aspect.score >= 4 ? 'text-green-400' : aspect.score >= 3 ? 'text-yellow-400' : 'text-red-400'}`}>{aspect.score}/5</span>
+        </div>
+        <p className="text-sm text-gray-400">{aspect.comment}</p>
+    </div>
+);
+
+export const PresenceReport: React.FC<{ feedback: PresenceFeedback }> = ({ feedback }) => {
+    if (feedback.error) {
+        return <p className="text-red-400">{feedback.error}</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {ASPECTS.map(({ key, label }) => {
+                    const aspect = feedback[key];
+                    return aspect ? <AspectCard key={key} label={label} aspect={aspect} /> : null;
+                })}
+            </div>
+            {feedback.tips && feedback.tips.length > 0 && (
+                <div>
+                    <h5 className="font-semibold text-gray-300 mb-2">Tips</h5>
+                    <ul className="list-disc list-inside space-y-1 text-gray-300 text-sm">
+                        {feedback.tips.map((tip, i) => <li key={i}>{tip}</li>)}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
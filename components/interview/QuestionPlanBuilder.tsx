@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { InterviewConfig, PlannedCompetency, QuestionPlan } from '../../types';
+import { generateQuestionPlan } from '../../services/geminiService';
+import { deleteQuestionPlan, listQuestionPlans, saveQuestionPlan } from '../../services/storageService';
+import {
+    countPlannedQuestions,
+    createPlannedCompetency,
+    createPlannedQuestion,
+    createQuestionPlan,
+} from '../../services/questionPlan';
+import { Spinner } from '../common/Spinner';
+
+interface QuestionPlanBuilderProps {
+    jobRole: string;
+    jobDescription: string;
+    config: InterviewConfig;
+    plan: QuestionPlan | null;
+    onChange: (plan: QuestionPlan | null) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 text-white placeholder-gray-400 p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+export const QuestionPlanBuilder: React.FC<QuestionPlanBuilderProps> = ({ jobRole, jobDescription, config, plan, onChange }) => {
+    const [savedPlans, setSavedPlans] = useState<QuestionPlan[]>([]);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState('');
+    const [status, setStatus] = useState('');
+
+    const refreshSavedPlans = () => listQuestionPlans()
+        .then(setSavedPlans)
+        .catch(err => console.error("Failed to load question plans:", err));
+
+    useEffect(() => {
+        refreshSavedPlans();
+    }, []);
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setError('');
+        setStatus('');
+        try {
+            const outcome = await generateQuestionPlan(jobRole, jobDescription, config);
+            if (outcome.status === 'ok') {
+                onChange(createQuestionPlan(outcome.plan, jobRole));
+            } else {
+                setError(outcome.message);
+            }
+        } catch (e) {
+            console.error("Question plan generation failed:", e);
+            setError("Failed to generate a question plan. Please try again.");
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!plan) return;
+        const saved = { ...plan, updatedAt: Date.now() };
+        try {
+            await saveQuestionPlan(saved);
+            onChange(saved);
+            setStatus('Plan saved.');
+            refreshSavedPlans();
+        } catch (err) {
+            console.error("Failed to save question plan:", err);
+            setError("Could not save the plan.");
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!plan) return;
+        try {
+            await deleteQuestionPlan(plan.id);
+            setStatus('Saved plan deleted.');
+            refreshSavedPlans();
+        } catch (err) {
+            console.error("Failed to delete question plan:", err);
+            setError("Could not delete the plan.");
+        }
+    };
+
+    const updateCompetency = (id: string, patch: Partial<PlannedCompetency>) => {
+        if (!plan) return;
+        setStatus('');
+        onChange({
+            ...plan,
+            competencies: plan.competencies.map(competency => competency.id === id ? { ...competency, ...patch } : competency),
+        });
+    };
+
+    const removeCompetency = (id: string) => {
+        if (!plan) return;
+        onChange({ ...plan, competencies: plan.competencies.filter(competency => competency.id !== id) });
+    };
+
+    const isSaved = plan !== null && savedPlans.some(saved => saved.id === plan.id);
+
+    return (
+        <div className="border border-gray-700 rounded-md p-4 space-y-3">
+            <div className="flex justify-between items-center">
+                <h3 className="font-bold text-gray-200">Question Plan <span className="text-xs font-normal text-gray-400">(optional)</span></h3>
+                {plan && (
+                    <button onClick={() => onChange(null)} className="text-xs text-gray-400 hover:text-gray-200">Clear</button>
+                )}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+                <button
+                    onClick={handleGenerate}
+                    disabled={isGenerating || !jobRole.trim() || !jobDescription.trim()}
+                    className="flex-1 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white text-sm font-bold py-2 px-3 rounded-md transition duration-300 flex items-center justify-center gap-2"
+                >
+                    {isGenerating ? <><Spinner /> Planning...</> : 'Generate from Job Description'}
+                </button>
+                {savedPlans.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => {
+                            const saved = savedPlans.find(p => p.id === e.target.value);
+                            if (saved) onChange(saved);
+                        }}
+                        className={`flex-1 text-sm ${inputClassName}`}
+                    >
+                        <option value="" disabled>Load a saved plan...</option>
+                        {savedPlans.map(saved => (
+                            <option key={saved.id} value={saved.id}>{saved.name} ({countPlannedQuestions(saved)} questions)</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            {plan && (
+                <>
+                    <input
+                        type="text"
+                        value={plan.name}
+                        onChange={(e) => onChange({ ...plan, name: e.target.value })}
+                        placeholder="Plan name"
+                        className={inputClassName}
+                    />
+                    {plan.competencies.map(competency => (
+                        <div key={competency.id} className="bg-gray-900 rounded-md p-3 space-y-2">
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={competency.name}
+                                    onChange={(e) => updateCompetency(competency.id, { name: e.target.value })}
+                                    placeholder="Competency"
+                                    className={`font-semibold ${inputClassName}`}
+                                />
+                                <button onClick={() => removeCompetency(competency.id)} className="text-gray-400 hover:text-red-400 px-2" title="Remove competency">&times;</button>
+                            </div>
+                            <textarea
+                                value={competency.signals.join('\n')}
+                                onChange={(e) => updateCompetency(competency.id, { signals: e.target.value.split('\n') })}
+                                placeholder="Expected signals, one per line"
+                                rows={2}
+                                className={`text-sm ${inputClassName}`}
+                            />
+                            {competency.questions.map(question => (
+                                <div key={question.id} className="flex gap-2 items-center">
+                                    <input
+                                        type="text"
+                                        value={question.text}
+                                        onChange={(e) => updateCompetency(competency.id, {
+                                            questions: competency.questions.map(q => q.id === question.id ? { ...q, text: e.target.value } : q),
+                                        })}
+                                        placeholder="Question"
+                                        className={`text-sm ${inputClassName}`}
+                                    />
+                                    {question.custom && <span className="text-xs text-indigo-300">custom</span>}
+                                    <button
+                                        onClick={() => updateCompetency(competency.id, { questions: competency.questions.filter(q => q.id !== question.id) })}
+                                        className="text-gray-400 hover:text-red-400 px-2"
+                                        title="Remove question"
+                                    >
+                                        &times;
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => updateCompetency(competency.id, { questions: [...competency.questions, createPlannedQuestion('', true)] })}
+                                className="text-xs text-indigo-400 hover:text-indigo-300 font-semibold"
+                            >
+                                + Add question
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={() => onChange({ ...plan, competencies: [...plan.competencies, createPlannedCompetency('')] })}
+                            className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold"
+                        >
+                            + Add competency
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            className="ml-auto bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1 px-3 rounded-md transition duration-300"
+                        >
+                            Save Plan
+                        </button>
+                        {isSaved && (
+                            <button onClick={handleDelete} className="text-sm text-red-400 hover:text-red-300">Delete Saved Plan</button>
+                        )}
+                    </div>
+                    {status && <p className="text-green-400 text-sm">{status}</p>}
+                </>
+            )}
+        </div>
+    );
+};
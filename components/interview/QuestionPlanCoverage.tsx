@@ -0,0 +1,42 @@
+import React from 'react';
+import { QuestionPlan } from '../../types';
+import { askableQuestions, countPlannedQuestions } from '../../services/questionPlan';
+
+interface QuestionPlanCoverageProps {
+    plan: QuestionPlan;
+    coveredIds: Set<string>;
+}
+
+export const QuestionPlanCoverage: React.FC<QuestionPlanCoverageProps> = ({ plan, coveredIds }) => {
+    const total = countPlannedQuestions(plan);
+    const coveredPercent = total > 0 ? Math.round((coveredIds.size / total) * 100) : 0;
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div>
+                <div className="flex h-2 rounded-full overflow-hidden bg-gray-700">
+                    <div className="bg-green-500" style={{ width: `${coveredPercent}%` }}></div>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">{coveredIds.size} of {total} planned questions covered</p>
+            </div>
+            {plan.competencies.map(competency => {
+                const questions = askableQuestions(competency);
+                const coveredCount = questions.filter(question => coveredIds.has(question.id)).length;
+                return (
+                    <div key={competency.id}>
+                        <p className={`font-semibold ${coveredCount === questions.length ? 'text-green-400' : 'text-gray-300'}`}>
+                            {competency.name} <span className="text-xs font-normal text-gray-500">({coveredCount}/{questions.length})</span>
+                        </p>
+                        <ul className="ml-2 space-y-1">
+                            {questions.map(question => (
+                                <li key={question.id} className={coveredIds.has(question.id) ? 'text-gray-500 line-through' : 'text-gray-300'}>
+                                    {coveredIds.has(question.id) ? '✓' : '○'} {question.text}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { InterviewSession } from '../../types';
+import { downloadFile, toFileSlug } from '../../utils';
+import { exportTranscript, TRANSCRIPT_EXPORT_FORMATS, TranscriptExportFormat } from '../../services/transcriptExport';
+
+export const TranscriptExportMenu: React.FC<{ session: InterviewSession }> = ({ session }) => {
+    const handleExport = (format: TranscriptExportFormat) => {
+        const { extension, mimeType } = TRANSCRIPT_EXPORT_FORMATS[format];
+        downloadFile(exportTranscript(session, format), `interview-${toFileSlug(session.jobRole)}.${extension}`, mimeType);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-400">Export transcript:</span>
+            {(Object.keys(TRANSCRIPT_EXPORT_FORMATS) as TranscriptExportFormat[]).map(format => (
+                <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-md transition duration-300"
+                >
+                    {TRANSCRIPT_EXPORT_FORMATS[format].label}
+                </button>
+            ))}
+        </div>
+    );
+};
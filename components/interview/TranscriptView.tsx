@@ -0,0 +1,35 @@
+import React from 'react';
+import { TranscriptEntry } from '../../types';
+
+interface TranscriptViewProps {
+    transcripts: TranscriptEntry[];
+    // When set, entries with a recording offset become clickable.
+    onSelectEntry?: (entry: TranscriptEntry) => void;
+    activeIndex?: number;
+}
+
+const formatOffset = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({ transcripts, onSelectEntry, activeIndex }) => (
+    <div className="text-left bg-gray-900 rounded-md p-4 overflow-y-auto max-h-96 space-y-4">
+        {transcripts.map((entry, index) => {
+            const isSeekable = onSelectEntry && entry.startMs !== undefined;
+            return (
+                <div
+                    key={index}
+                    onClick={isSeekable ? () => onSelectEntry(entry) : undefined}
+                    className={`rounded-md p-1 ${isSeekable ? 'cursor-pointer hover:bg-gray-800' : ''} ${index === activeIndex ? 'bg-gray-800' : ''}`}
+                >
+                    <p className={`font-bold ${entry.speaker === 'user' ? 'text-indigo-400' : 'text-gray-400'}`}>
+                        {entry.speaker === 'user' ? 'You' : 'Interviewer'}:
+                        {entry.startMs !== undefined && <span className="ml-2 text-xs font-normal text-gray-500">{formatOffset(entry.startMs)}</span>}
+                    </p>
+                    <p className="text-gray-200 ml-2">{entry.text}</p>
+                </div>
+            );
+        })}
+    </div>
+);
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ATS_TERM_IMPORTANCE, AtsMatchResult, AtsTermImportance, highlightTerms } from '../../services/atsMatcher';
+
+interface AtsMatchReportProps {
+    match: AtsMatchResult;
+    // The exact texts that were matched, so highlights line up after later edits.
+    resumeText: string;
+    jobDescription: string;
+}
+
+const IMPORTANCE_ORDER: AtsTermImportance[] = ['required', 'standard', 'nice_to_have'];
+
+const HighlightedText: React.FC<{ text: string; match: AtsMatchResult; showMissing: boolean }> = ({ text, match, showMissing }) => (
+    <div className="bg-gray-700 p-3 rounded-md mt-2 text-sm text-gray-200 whitespace-pre-wrap max-h-80 overflow-y-auto">
+        {highlightTerms(text, match.terms).map((segment, i) => {
+            if (!segment.term || (!segment.term.matched && !showMissing)) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+            return (
+                <mark
+                    key={i}
+                    title={`${ATS_TERM_IMPORTANCE[segment.term.importance].label} · ${segment.term.matched ? 'in your resume' : 'missing from your resume'}`}
+                    className={`${segment.term.matched ? 'bg-green-700 text-green-100' : 'bg-red-700 text-red-100'} rounded px-0.5`}
+                >
+                    {segment.text}
+                </mark>
+            );
+        })}
+    </div>
+);
+
+export const AtsMatchReport: React.FC<AtsMatchReportProps> = ({ match, resumeText, jobDescription }) => (
+    <div className="mt-8 bg-gray-800 p-6 rounded-lg">
+        <div className="flex items-baseline justify-between">
+            <h3 className="text-xl font-bold text-indigo-400">Keyword Match</h3>
+            <span className="font-bold text-xl">{match.score}/100</span>
+        </div>
+        <p className="text-sm text-gray-400 mt-1">
+            Calculated on your device from the job description's terms, weighted by how strongly they are required. The same texts always get the same score.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            {IMPORTANCE_ORDER.map(importance => {
+                const terms = match.terms.filter(term => term.importance === importance);
+                if (terms.length === 0) return null;
+                return (
+                    <div key={importance}>
+                        <h4 className="font-semibold text-gray-300">
+                            {ATS_TERM_IMPORTANCE[importance].label}
+                            <span className="text-sm text-gray-500 font-normal"> ({terms.filter(term => term.matched).length}/{terms.length})</span>
+                        </h4>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                            {terms.map(term => (
+                                <span key={term.key} className={`${term.matched ? 'bg-green-700 text-green-100' : 'bg-red-700 text-red-100'} text-xs font-semibold px-2.5 py-0.5 rounded`}>
+                                    {term.label}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div>
+                <h4 className="font-semibold text-lg text-gray-300">Your Resume</h4>
+                <HighlightedText text={resumeText} match={match} showMissing={false} />
+            </div>
+            <div>
+                <h4 className="font-semibold text-lg text-gray-300">Job Description</h4>
+                <HighlightedText text={jobDescription} match={match} showMissing={true} />
+            </div>
+        </div>
+    </div>
+);
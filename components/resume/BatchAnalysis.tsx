@@ -0,0 +1,213 @@
+import React from 'react';
+import { JobTarget, JobTargetResult, KeywordImportance } from '../../types';
+import {
+    analyzeJobTargets,
+    combineMissingKeywords,
+    createJobTarget,
+    jobTargetLabel,
+    ROLE_FITS,
+    RoleFit,
+    roleFit,
+    topMissingKeywords,
+} from '../../services/batchAnalysis';
+import { KEYWORD_IMPORTANCE } from '../../services/resumeAnalysis';
+
+interface BatchAnalysisProps {
+    resumeText: string;
+    targets: JobTarget[];
+    onTargetsChange: (targets: JobTarget[]) => void;
+    results: JobTargetResult[];
+    onResultsChange: React.Dispatch<React.SetStateAction<JobTargetResult[]>>;
+    // The job description from the Resume Analyzer, offered as a quick first target.
+    currentJobDescription: string;
+    onEditResume: () => void;
+}
+
+const inputClassName = "w-full bg-gray-700 text-white placeholder-gray-400 p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm";
+
+const COMBINED_SKILLS_SHOWN = 15;
+
+const FIT_STYLES: Record<RoleFit, string> = {
+    strong: 'bg-green-700 text-green-100',
+    possible: 'bg-yellow-600 text-yellow-100',
+    stretch: 'bg-red-700 text-red-100',
+};
+
+const MISSING_KEYWORD_STYLES: Record<KeywordImportance, string> = {
+    required: 'bg-red-700 text-red-100',
+    preferred: 'bg-yellow-600 text-yellow-100',
+    nice_to_have: 'bg-gray-600 text-gray-100',
+};
+
+// Analyzed roles by AI score, then keyword match; failed and pending roles last.
+const rankResults = (results: JobTargetResult[]): JobTargetResult[] =>
+    [...results].sort((a, b) =>
+        (b.analysis?.score ?? -1) - (a.analysis?.score ?? -1) || (b.keywordScore ?? -1) - (a.keywordScore ?? -1));
+
+export const BatchAnalysis: React.FC<BatchAnalysisProps> = ({
+    resumeText,
+    targets,
+    onTargetsChange,
+    results,
+    onResultsChange,
+    currentJobDescription,
+    onEditResume,
+}) => {
+    const isRunning = results.some(result => result.status === 'pending');
+    const finished = results.filter(result => result.status !== 'pending').length;
+    const runnableTargets = targets.filter(target => target.jobDescription.trim());
+    const hasCurrentJobDescription = currentJobDescription.trim() !== ''
+        && !targets.some(target => target.jobDescription.trim() === currentJobDescription.trim());
+    const combinedMissing = combineMissingKeywords(targets, results);
+
+    const updateTarget = (id: string, changes: Partial<JobTarget>) =>
+        onTargetsChange(targets.map(target => target.id === id ? { ...target, ...changes } : target));
+
+    const handleRun = async () => {
+        onResultsChange(runnableTargets.map(target => ({ targetId: target.id, status: 'pending' })));
+        await analyzeJobTargets(resumeText, runnableTargets, result =>
+            onResultsChange(prev => prev.map(existing => existing.targetId === result.targetId ? result : existing)));
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-gray-800 p-4 rounded-lg space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <p className={resumeText.trim() ? 'text-gray-400' : 'text-yellow-400'}>
+                        {resumeText.trim()
+                            ? 'Compares the resume from the Resume Analyzer against every role below.'
+                            : 'Add your resume in the Resume Analyzer first.'}
+                    </p>
+                    <button onClick={onEditResume} className="text-indigo-400 hover:text-indigo-300 font-semibold">Edit resume</button>
+                </div>
+                {targets.map((target, index) => (
+                    <div key={target.id} className="bg-gray-900 rounded-md p-3 space-y-2">
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={target.label}
+                                onChange={(e) => updateTarget(target.id, { label: e.target.value })}
+                                placeholder={`Role ${index + 1} (e.g. Acme – Senior Backend Engineer)`}
+                                className={`font-semibold ${inputClassName}`}
+                            />
+                            <button
+                                onClick={() => onTargetsChange(targets.filter(t => t.id !== target.id))}
+                                disabled={isRunning}
+                                className="text-gray-400 hover:text-red-400 px-2"
+                                title="Remove role"
+                            >
+                                &times;
+                            </button>
+                        </div>
+                        <textarea
+                            value={target.jobDescription}
+                            onChange={(e) => updateTarget(target.id, { jobDescription: e.target.value })}
+                            placeholder="Paste the job description for this role..."
+                            rows={5}
+                            className={inputClassName}
+                        />
+                    </div>
+                ))}
+                <div className="flex flex-wrap gap-4">
+                    <button onClick={() => onTargetsChange([...targets, createJobTarget()])} className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold">
+                        + Add role
+                    </button>
+                    {hasCurrentJobDescription && (
+                        <button
+                            onClick={() => onTargetsChange([...targets, createJobTarget('', currentJobDescription)])}
+                            className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold"
+                        >
+                            + Add the job description from the Resume Analyzer
+                        </button>
+                    )}
+                </div>
+                <button
+                    onClick={handleRun}
+                    disabled={isRunning || !resumeText.trim() || runnableTargets.length === 0}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900 text-white font-bold py-3 px-4 rounded-md transition duration-300"
+                >
+                    {isRunning
+                        ? `Analyzing... ${finished} of ${results.length} done`
+                        : `Compare Against ${runnableTargets.length} ${runnableTargets.length === 1 ? 'Role' : 'Roles'}`}
+                </button>
+                {isRunning && (
+                    <div className="w-full bg-gray-700 rounded-full h-2">
+                        <div className="bg-indigo-500 h-2 rounded-full transition-all" style={{ width: `${(finished / results.length) * 100}%` }}></div>
+                    </div>
+                )}
+            </div>
+
+            {results.length > 0 && (
+                <div className="bg-gray-800 p-6 rounded-lg">
+                    <h3 className="text-xl font-bold text-indigo-400 mb-4">Role Comparison</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-gray-400 border-b border-gray-700">
+                                <tr>
+                                    <th className="py-2 pr-3">#</th>
+                                    <th className="py-2 pr-3">Role</th>
+                                    <th className="py-2 pr-3">ATS Score</th>
+                                    <th className="py-2 pr-3">Keyword Match</th>
+                                    <th className="py-2 pr-3">Fit</th>
+                                    <th className="py-2">Top Missing Keywords</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rankResults(results).map((result, rank) => {
+                                    const target = targets.find(t => t.id === result.targetId);
+                                    if (!target) return null;
+                                    const fit = result.analysis ? roleFit(result.analysis.score) : null;
+                                    return (
+                                        <tr key={result.targetId} className="border-b border-gray-700 align-top">
+                                            <td className="py-2 pr-3 text-gray-400">{result.analysis ? rank + 1 : '–'}</td>
+                                            <td className="py-2 pr-3 font-semibold text-gray-200">{jobTargetLabel(targets, target)}</td>
+                                            <td className="py-2 pr-3 font-bold">{result.analysis ? `${result.analysis.score}/100` : '–'}</td>
+                                            <td className="py-2 pr-3">{result.keywordScore !== undefined ? `${result.keywordScore}/100` : '–'}</td>
+                                            <td className="py-2 pr-3">
+                                                {fit && <span className={`${FIT_STYLES[fit]} text-xs font-semibold px-2 py-0.5 rounded whitespace-nowrap`}>{ROLE_FITS[fit].label}</span>}
+                                            </td>
+                                            <td className="py-2">
+                                                {result.status === 'pending' && <span className="text-gray-400">Analyzing...</span>}
+                                                {result.status === 'error' && <span className="text-red-400">{result.error}</span>}
+                                                {result.analysis && (
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {topMissingKeywords(result.analysis.missingKeywords).map((kw, i) => (
+                                                            <span key={i} title={KEYWORD_IMPORTANCE[kw.importance]} className={`${MISSING_KEYWORD_STYLES[kw.importance]} text-xs font-semibold px-2 py-0.5 rounded`}>
+                                                                {kw.keyword}
+                                                            </span>
+                                                        ))}
+                                                        {result.analysis.missingKeywords.length === 0 && <span className="text-green-400">None</span>}
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {combinedMissing.length > 0 && (
+                <div className="bg-gray-800 p-6 rounded-lg">
+                    <h3 className="text-xl font-bold text-indigo-400">Most Often Missing Skills</h3>
+                    <p className="text-sm text-gray-400 mt-1 mb-4">Skills missing from your resume across the most roles. Learn or emphasize these first.</p>
+                    <ul className="space-y-2">
+                        {combinedMissing.slice(0, COMBINED_SKILLS_SHOWN).map(skill => (
+                            <li key={skill.keyword} className="flex flex-wrap items-center gap-2">
+                                <span className={`${MISSING_KEYWORD_STYLES[skill.importance]} text-xs font-semibold px-2.5 py-0.5 rounded`} title={KEYWORD_IMPORTANCE[skill.importance]}>
+                                    {skill.keyword}
+                                </span>
+                                <span className="text-sm text-gray-300">
+                                    {skill.roles.length} of {results.filter(result => result.analysis).length} roles
+                                </span>
+                                <span className="text-xs text-gray-500">{skill.roles.join(', ')}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
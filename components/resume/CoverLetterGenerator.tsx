@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { CoverLetter, CoverLetterLength, CoverLetterOptions, CoverLetterTone, ResumeLayout, StructuredResume } from '../../types';
+import { generateCoverLetter, regenerateCoverLetterParagraph } from '../../services/geminiService';
+import {
+    COVER_LETTER_LENGTHS,
+    COVER_LETTER_TONES,
+    createCoverLetter,
+    createCoverLetterParagraph,
+} from '../../services/coverLetter';
+import { COVER_LETTER_EXPORT_FORMATS, CoverLetterExportFormat, exportCoverLetter, RESUME_EXPORT_FORMATS } from '../../services/resumeExport';
+import { downloadFile, toFileSlug } from '../../utils';
+import { Spinner } from '../common/Spinner';
+
+interface CoverLetterGeneratorProps {
+    resumeText: string;
+    jobDescription: string;
+    // The builder resume, when it has a name, supplies the letter's header and signature.
+    header: StructuredResume | null;
+    layout: ResumeLayout;
+    letter: CoverLetter | null;
+    onChange: React.Dispatch<React.SetStateAction<CoverLetter | null>>;
+    options: CoverLetterOptions;
+    onOptionsChange: (options: CoverLetterOptions) => void;
+    onEditInputs: () => void;
+}
+
+const inputClassName = "w-full bg-gray-700 text-white placeholder-gray-400 p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm";
+
+const optionButtonClassName = (selected: boolean) =>
+    `text-sm py-1 px-3 rounded-md transition duration-300 ${selected ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`;
+
+export const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
+    resumeText,
+    jobDescription,
+    header,
+    layout,
+    letter,
+    onChange,
+    options,
+    onOptionsChange,
+    onEditInputs,
+}) => {
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+    const hasInputs = resumeText.trim() !== '' && jobDescription.trim() !== '';
+    const updateOptions = (changes: Partial<CoverLetterOptions>) => onOptionsChange({ ...options, ...changes });
+    const update = (changes: Partial<CoverLetter>) => letter && onChange({ ...letter, ...changes });
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setError('');
+        try {
+            const outcome = await generateCoverLetter(resumeText, jobDescription, options);
+            if (outcome.status === 'ok') {
+                onChange(createCoverLetter(outcome.letter, letter?.signature || header?.contact.name.trim() || ''));
+            } else {
+                setError(outcome.message);
+            }
+        } catch (e) {
+            console.error("Cover letter generation failed:", e);
+            setError("Failed to generate a cover letter. Please try again.");
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleRegenerate = async (index: number) => {
+        if (!letter) return;
+        const { id } = letter.paragraphs[index];
+        setRegeneratingId(id);
+        setError('');
+        try {
+            const outcome = await regenerateCoverLetterParagraph(letter, index, resumeText, jobDescription, options);
+            if (outcome.status === 'ok') {
+                // Applied to the latest letter, since the user may have kept editing meanwhile.
+                const text = outcome.paragraph;
+                onChange(current => current && { ...current, paragraphs: current.paragraphs.map(p => p.id === id ? { ...p, text } : p) });
+            } else {
+                setError(outcome.message);
+            }
+        } catch (e) {
+            console.error("Cover letter paragraph rewrite failed:", e);
+            setError("Failed to rewrite this paragraph. Please try again.");
+        } finally {
+            setRegeneratingId(null);
+        }
+    };
+
+    const handleExport = (format: CoverLetterExportFormat) => {
+        if (!letter) return;
+        const { extension, mimeType } = RESUME_EXPORT_FORMATS[format];
+        const name = letter.signature.trim() || header?.contact.name.trim() || '';
+        const baseName = [name, options.companyName.trim()].filter(Boolean).map(toFileSlug).concat('cover-letter').join('-');
+        downloadFile(exportCoverLetter(letter, header, layout, format), `${baseName}.${extension}`, mimeType);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-gray-800 p-4 rounded-lg space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <p className={hasInputs ? 'text-gray-400' : 'text-yellow-400'}>
+                        {hasInputs
+                            ? 'Using the resume and job description from the Resume Analyzer.'
+                            : 'Add your resume and the job description in the Resume Analyzer first.'}
+                    </p>
+                    <button onClick={onEditInputs} className="text-indigo-400 hover:text-indigo-300 font-semibold">Edit resume and job description</button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-gray-400 w-16">Tone:</span>
+                    {(Object.keys(COVER_LETTER_TONES) as CoverLetterTone[]).map(tone => (
+                        <button key={tone} onClick={() => updateOptions({ tone })} className={optionButtonClassName(options.tone === tone)}>
+                            {COVER_LETTER_TONES[tone].label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-gray-400 w-16">Length:</span>
+                    {(Object.keys(COVER_LETTER_LENGTHS) as CoverLetterLength[]).map(length => (
+                        <button key={length} onClick={() => updateOptions({ length })} className={optionButtonClassName(options.length === length)}>
+                            {COVER_LETTER_LENGTHS[length].label}
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <input
+                        type="text"
+                        value={options.companyName}
+                        onChange={(e) => updateOptions({ companyName: e.target.value })}
+                        placeholder="Company name (optional)"
+                        className={inputClassName}
+                    />
+                    <textarea
+                        value={options.hooks}
+                        onChange={(e) => updateOptions({ hooks: e.target.value })}
+                        placeholder="Optional: why this company? A product you use, recent news, their mission..."
+                        rows={2}
+                        className={`md:col-span-2 ${inputClassName}`}
+                    />
+                </div>
+                <button
+                    onClick={handleGenerate}
+                    disabled={!hasInputs || isGenerating}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900 text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center justify-center"
+                >
+                    {isGenerating ? <Spinner /> : letter ? "Regenerate Cover Letter" : "Generate Cover Letter"}
+                </button>
+                {error && <p className="text-red-400 text-sm">{error}</p>}
+            </div>
+
+            {letter && (
+                <div className="bg-gray-800 p-4 rounded-lg space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-gray-400">Export:</span>
+                        {COVER_LETTER_EXPORT_FORMATS.map(format => (
+                            <button
+                                key={format}
+                                onClick={() => handleExport(format)}
+                                className="text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-md transition duration-300"
+                            >
+                                {RESUME_EXPORT_FORMATS[format].label}
+                            </button>
+                        ))}
+                    </div>
+                    <input type="text" value={letter.date} onChange={(e) => update({ date: e.target.value })} placeholder="Date" className={`md:w-1/3 ${inputClassName}`} />
+                    <input type="text" value={letter.greeting} onChange={(e) => update({ greeting: e.target.value })} placeholder="Greeting" className={inputClassName} />
+                    {letter.paragraphs.map((paragraph, index) => (
+                        <div key={paragraph.id} className="flex gap-2 items-start">
+                            <textarea
+                                value={paragraph.text}
+                                onChange={(e) => update({ paragraphs: letter.paragraphs.map(p => p.id === paragraph.id ? { ...p, text: e.target.value } : p) })}
+                                rows={5}
+                                className={inputClassName}
+                            />
+                            <div className="flex flex-col gap-1">
+                                <button
+                                    onClick={() => handleRegenerate(index)}
+                                    disabled={regeneratingId !== null || isGenerating}
+                                    title="Rewrite this paragraph"
+                                    className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 py-1 px-2 rounded-md whitespace-nowrap"
+                                >
+                                    {regeneratingId === paragraph.id ? 'Rewriting...' : 'Regenerate'}
+                                </button>
+                                <button
+                                    onClick={() => update({ paragraphs: letter.paragraphs.filter(p => p.id !== paragraph.id) })}
+                                    className="text-xs text-gray-400 hover:text-red-400 py-1 px-2"
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => update({ paragraphs: [...letter.paragraphs, createCoverLetterParagraph()] })}
+                        className="text-xs text-indigo-400 hover:text-indigo-300 font-semibold"
+                    >
+                        + Add paragraph
+                    </button>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        <input type="text" value={letter.closing} onChange={(e) => update({ closing: e.target.value })} placeholder="Closing" className={inputClassName} />
+                        <input type="text" value={letter.signature} onChange={(e) => update({ signature: e.target.value })} placeholder="Your name" className={inputClassName} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,161 @@
+import React from 'react';
+import { AnalysisKeyword, AnalysisResult, FormattingSeverity, KeywordImportance } from '../../types';
+import { FORMATTING_SEVERITIES, KEYWORD_IMPORTANCE } from '../../services/resumeAnalysis';
+import { ResumeReference } from '../../services/resumeModel';
+
+interface ResumeAnalysisReportProps {
+    analysis: AnalysisResult;
+    // Labels for the line references of an analyzed builder resume.
+    references: Map<string, ResumeReference>;
+    // The local keyword match score, shown beside the model's score.
+    keywordScore?: number;
+}
+
+const IMPORTANCE_ORDER: KeywordImportance[] = ['required', 'preferred', 'nice_to_have'];
+
+const MISSING_KEYWORD_STYLES: Record<KeywordImportance, string> = {
+    required: 'bg-red-700 text-red-100',
+    preferred: 'bg-yellow-600 text-yellow-100',
+    nice_to_have: 'bg-gray-600 text-gray-100',
+};
+
+const SEVERITY_STYLES: Record<FormattingSeverity, string> = {
+    high: 'bg-red-700 text-red-100',
+    medium: 'bg-yellow-600 text-yellow-100',
+    low: 'bg-gray-600 text-gray-100',
+};
+
+const scoreColor = (score: number) => score >= 75 ? 'bg-green-500' : score >= 50 ? 'bg-yellow-500' : 'bg-red-500';
+
+const sortByImportance = (keywords: AnalysisKeyword[]) =>
+    [...keywords].sort((a, b) => IMPORTANCE_ORDER.indexOf(a.importance) - IMPORTANCE_ORDER.indexOf(b.importance));
+
+export const ResumeAnalysisReport: React.FC<ResumeAnalysisReportProps> = ({ analysis, references, keywordScore }) => {
+    const formattingIssues = [...analysis.formattingIssues]
+        .sort((a, b) => FORMATTING_SEVERITIES.indexOf(a.severity) - FORMATTING_SEVERITIES.indexOf(b.severity));
+
+    return (
+        <div className="mt-8 bg-gray-800 p-6 rounded-lg">
+            <h3 className="text-xl font-bold text-indigo-400 mb-4">Analysis Result</h3>
+            <div className="mb-4">
+                <div className="flex items-baseline justify-between">
+                    <h4 className="font-semibold text-lg text-gray-300">ATS Score</h4>
+                    {keywordScore !== undefined && (
+                        <span className="text-sm text-gray-400" title="Calculated locally from the job description's keywords; see Keyword Match below.">
+                            Keyword match: <span className="font-bold text-gray-200">{keywordScore}/100</span>
+                        </span>
+                    )}
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-4 mt-2">
+                    <div className={`${scoreColor(analysis.score)} h-4 rounded-full`} style={{ width: `${analysis.score}%` }}></div>
+                </div>
+                <p className="text-center font-bold text-xl mt-1">{analysis.score}/100 <span className="text-sm text-gray-400 font-normal">AI estimate</span></p>
+            </div>
+
+            {analysis.sectionScores.length > 0 && (
+                <div className="mb-4">
+                    <h4 className="font-semibold text-lg text-gray-300">Section Scores</h4>
+                    <div className="space-y-3 mt-2">
+                        {analysis.sectionScores.map((section, i) => (
+                            <div key={i}>
+                                <div className="flex justify-between text-sm">
+                                    <span className="font-semibold text-gray-200">{section.section}</span>
+                                    <span className="text-gray-400">{section.score}/100</span>
+                                </div>
+                                <div className="w-full bg-gray-700 rounded-full h-2 mt-1">
+                                    <div className={`${scoreColor(section.score)} h-2 rounded-full`} style={{ width: `${section.score}%` }}></div>
+                                </div>
+                                {section.comment && <p className="text-sm text-gray-400 mt-1">{section.comment}</p>}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                    <h4 className="font-semibold text-lg text-gray-300">Missing Keywords</h4>
+                    {analysis.missingKeywords.length === 0 ? (
+                        <p className="text-sm text-green-400 mt-2">No important keywords are missing.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                            {sortByImportance(analysis.missingKeywords).map((kw, i) => (
+                                <span key={i} title={KEYWORD_IMPORTANCE[kw.importance]} className={`${MISSING_KEYWORD_STYLES[kw.importance]} text-xs font-semibold px-2.5 py-0.5 rounded`}>
+                                    {kw.keyword}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex gap-3 mt-2 text-xs text-gray-400">
+                        {IMPORTANCE_ORDER.map(importance => (
+                            <span key={importance} className="flex items-center gap-1">
+                                <span className={`inline-block w-2 h-2 rounded-full ${MISSING_KEYWORD_STYLES[importance]}`}></span>
+                                {KEYWORD_IMPORTANCE[importance]}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <h4 className="font-semibold text-lg text-gray-300">Matched Keywords</h4>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                        {sortByImportance(analysis.matchedKeywords).map((kw, i) => (
+                            <span key={i} title={KEYWORD_IMPORTANCE[kw.importance]} className="bg-green-700 text-green-100 text-xs font-semibold px-2.5 py-0.5 rounded">
+                                {kw.keyword}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {analysis.summarySuggestion && (
+                <div className="mb-4">
+                    <h4 className="font-semibold text-lg text-gray-300">Summary Suggestion</h4>
+                    <p className="bg-gray-700 p-3 rounded-md mt-2 text-gray-200">{analysis.summarySuggestion}</p>
+                </div>
+            )}
+            {analysis.experienceAdvice && (
+                <div className="mb-4">
+                    <h4 className="font-semibold text-lg text-gray-300">Experience Section Advice</h4>
+                    <p className="bg-gray-700 p-3 rounded-md mt-2 text-gray-200">{analysis.experienceAdvice}</p>
+                </div>
+            )}
+
+            <div className="mb-4">
+                <h4 className="font-semibold text-lg text-gray-300">Formatting Issues</h4>
+                {formattingIssues.length === 0 ? (
+                    <p className="text-sm text-green-400 mt-2">No formatting issues found.</p>
+                ) : (
+                    <ul className="space-y-2 mt-2">
+                        {formattingIssues.map((issue, i) => (
+                            <li key={i} className="bg-gray-700 p-3 rounded-md">
+                                <div className="flex items-start gap-2">
+                                    <span className={`${SEVERITY_STYLES[issue.severity]} text-xs font-semibold uppercase px-2 py-0.5 rounded`}>{issue.severity}</span>
+                                    <p className="text-gray-200">{issue.issue}</p>
+                                </div>
+                                <p className="text-sm text-gray-400 mt-1">Fix: {issue.fix}</p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            {analysis.sectionSuggestions && analysis.sectionSuggestions.length > 0 && (
+                <div>
+                    <h4 className="font-semibold text-lg text-gray-300">Line-by-Line Suggestions</h4>
+                    <ul className="space-y-3 mt-2">
+                        {analysis.sectionSuggestions.map((item, i) => {
+                            const reference = references.get(item.ref);
+                            return (
+                                <li key={i} className="bg-gray-700 p-3 rounded-md">
+                                    <p className="text-sm font-semibold text-indigo-300">{reference?.label ?? item.ref}</p>
+                                    {reference && <p className="text-sm text-gray-400 italic mt-1">{reference.text}</p>}
+                                    <p className="text-gray-200 mt-2">{item.suggestion}</p>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
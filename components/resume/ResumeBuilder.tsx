@@ -0,0 +1,203 @@
+import React from 'react';
+import { ResumeBullet, ResumeContact, ResumeLayout, StructuredResume } from '../../types';
+import {
+    createEducation,
+    createExperience,
+    createProject,
+    createResumeBullet,
+    createSkillGroup,
+    RESUME_LAYOUTS,
+} from '../../services/resumeModel';
+import { ResumeExportMenu } from './ResumeExportMenu';
+import { ResumePreview } from './ResumePreview';
+
+interface ResumeBuilderProps {
+    resume: StructuredResume;
+    onChange: (resume: StructuredResume) => void;
+    layout: ResumeLayout;
+    onLayoutChange: (layout: ResumeLayout) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 text-white placeholder-gray-400 p-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm";
+
+const CONTACT_FIELDS: { field: keyof ResumeContact; placeholder: string }[] = [
+    { field: 'name', placeholder: 'Full name' },
+    { field: 'location', placeholder: 'City, State' },
+    { field: 'phone', placeholder: 'Phone' },
+    { field: 'email', placeholder: 'Email' },
+    { field: 'linkedin', placeholder: 'LinkedIn URL' },
+    { field: 'website', placeholder: 'Website or portfolio' },
+];
+
+const withItem = <T extends { id: string }>(items: T[], id: string, changes: Partial<NoInfer<T>>): T[] =>
+    items.map(item => item.id === id ? { ...item, ...changes } : item);
+
+const Section: React.FC<{ title: string; onAdd?: () => void; addLabel?: string; children: React.ReactNode }> = ({ title, onAdd, addLabel, children }) => (
+    <div className="bg-gray-800 p-4 rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="font-bold text-indigo-400">{title}</h3>
+            {onAdd && (
+                <button onClick={onAdd} className="text-xs text-indigo-400 hover:text-indigo-300 font-semibold">+ {addLabel}</button>
+            )}
+        </div>
+        {children}
+    </div>
+);
+
+const RemoveButton: React.FC<{ onClick: () => void; title: string }> = ({ onClick, title }) => (
+    <button onClick={onClick} className="text-gray-400 hover:text-red-400 px-2" title={title}>&times;</button>
+);
+
+const BulletEditor: React.FC<{ bullets: ResumeBullet[]; onChange: (bullets: ResumeBullet[]) => void }> = ({ bullets, onChange }) => (
+    <div className="space-y-2">
+        {bullets.map(bullet => (
+            <div key={bullet.id} className="flex gap-2 items-start">
+                <span className="text-gray-500 pt-2">•</span>
+                <textarea
+                    value={bullet.text}
+                    onChange={(e) => onChange(withItem<ResumeBullet>(bullets, bullet.id, { text: e.target.value }))}
+                    placeholder="Action verb, what you did, and the measurable result"
+                    rows={2}
+                    className={inputClassName}
+                />
+                <RemoveButton onClick={() => onChange(bullets.filter(b => b.id !== bullet.id))} title="Remove bullet" />
+            </div>
+        ))}
+        <button onClick={() => onChange([...bullets, createResumeBullet()])} className="text-xs text-indigo-400 hover:text-indigo-300 font-semibold">
+            + Add bullet
+        </button>
+    </div>
+);
+
+export const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ resume, onChange, layout, onLayoutChange }) => {
+    const update = (changes: Partial<StructuredResume>) => onChange({ ...resume, ...changes });
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+                <Section title="Contact">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {CONTACT_FIELDS.map(({ field, placeholder }) => (
+                            <input
+                                key={field}
+                                type="text"
+                                value={resume.contact[field]}
+                                onChange={(e) => update({ contact: { ...resume.contact, [field]: e.target.value } })}
+                                placeholder={placeholder}
+                                className={inputClassName}
+                            />
+                        ))}
+                    </div>
+                </Section>
+
+                <Section title="Summary">
+                    <textarea
+                        value={resume.summary}
+                        onChange={(e) => update({ summary: e.target.value })}
+                        placeholder="2-3 sentences on your background, key skills and what you are looking for"
+                        rows={3}
+                        className={inputClassName}
+                    />
+                </Section>
+
+                <Section title="Skills" onAdd={() => update({ skills: [...resume.skills, createSkillGroup()] })} addLabel="Add group">
+                    {resume.skills.map(group => (
+                        <div key={group.id} className="flex gap-2">
+                            <input
+                                type="text"
+                                value={group.label}
+                                onChange={(e) => update({ skills: withItem(resume.skills, group.id, { label: e.target.value }) })}
+                                placeholder="Group"
+                                className={`w-1/3 ${inputClassName}`}
+                            />
+                            <input
+                                type="text"
+                                value={group.items}
+                                onChange={(e) => update({ skills: withItem(resume.skills, group.id, { items: e.target.value }) })}
+                                placeholder="Comma-separated skills"
+                                className={inputClassName}
+                            />
+                            <RemoveButton onClick={() => update({ skills: resume.skills.filter(g => g.id !== group.id) })} title="Remove group" />
+                        </div>
+                    ))}
+                </Section>
+
+                <Section title="Experience" onAdd={() => update({ experience: [...resume.experience, createExperience()] })} addLabel="Add role">
+                    {resume.experience.map(entry => {
+                        const change = (changes: Partial<typeof entry>) => update({ experience: withItem(resume.experience, entry.id, changes) });
+                        return (
+                            <div key={entry.id} className="bg-gray-900 rounded-md p-3 space-y-2">
+                                <div className="flex gap-2">
+                                    <input type="text" value={entry.title} onChange={(e) => change({ title: e.target.value })} placeholder="Job title" className={`font-semibold ${inputClassName}`} />
+                                    <RemoveButton onClick={() => update({ experience: resume.experience.filter(x => x.id !== entry.id) })} title="Remove role" />
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input type="text" value={entry.company} onChange={(e) => change({ company: e.target.value })} placeholder="Company" className={inputClassName} />
+                                    <input type="text" value={entry.location} onChange={(e) => change({ location: e.target.value })} placeholder="City, State" className={inputClassName} />
+                                    <input type="text" value={entry.startDate} onChange={(e) => change({ startDate: e.target.value })} placeholder="Start (e.g. Jan 2021)" className={inputClassName} />
+                                    <input type="text" value={entry.endDate} onChange={(e) => change({ endDate: e.target.value })} placeholder="End (or Present)" className={inputClassName} />
+                                </div>
+                                <BulletEditor bullets={entry.bullets} onChange={(bullets) => change({ bullets })} />
+                            </div>
+                        );
+                    })}
+                </Section>
+
+                <Section title="Education" onAdd={() => update({ education: [...resume.education, createEducation()] })} addLabel="Add education">
+                    {resume.education.map(entry => {
+                        const change = (changes: Partial<typeof entry>) => update({ education: withItem(resume.education, entry.id, changes) });
+                        return (
+                            <div key={entry.id} className="bg-gray-900 rounded-md p-3 space-y-2">
+                                <div className="flex gap-2">
+                                    <input type="text" value={entry.degree} onChange={(e) => change({ degree: e.target.value })} placeholder="Degree" className={`font-semibold ${inputClassName}`} />
+                                    <RemoveButton onClick={() => update({ education: resume.education.filter(x => x.id !== entry.id) })} title="Remove education" />
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input type="text" value={entry.school} onChange={(e) => change({ school: e.target.value })} placeholder="School" className={inputClassName} />
+                                    <input type="text" value={entry.location} onChange={(e) => change({ location: e.target.value })} placeholder="City, State" className={inputClassName} />
+                                    <input type="text" value={entry.graduationDate} onChange={(e) => change({ graduationDate: e.target.value })} placeholder="Graduation year" className={inputClassName} />
+                                </div>
+                                <input type="text" value={entry.details} onChange={(e) => change({ details: e.target.value })} placeholder="Optional: relevant coursework, honors" className={inputClassName} />
+                            </div>
+                        );
+                    })}
+                </Section>
+
+                <Section title="Projects" onAdd={() => update({ projects: [...resume.projects, createProject()] })} addLabel="Add project">
+                    {resume.projects.length === 0 && <p className="text-sm text-gray-500">Optional. Add projects that show skills from the job description.</p>}
+                    {resume.projects.map(project => {
+                        const change = (changes: Partial<typeof project>) => update({ projects: withItem(resume.projects, project.id, changes) });
+                        return (
+                            <div key={project.id} className="bg-gray-900 rounded-md p-3 space-y-2">
+                                <div className="flex gap-2">
+                                    <input type="text" value={project.name} onChange={(e) => change({ name: e.target.value })} placeholder="Project name" className={`font-semibold ${inputClassName}`} />
+                                    <input type="text" value={project.link} onChange={(e) => change({ link: e.target.value })} placeholder="Link (optional)" className={inputClassName} />
+                                    <RemoveButton onClick={() => update({ projects: resume.projects.filter(x => x.id !== project.id) })} title="Remove project" />
+                                </div>
+                                <BulletEditor bullets={project.bullets} onChange={(bullets) => change({ bullets })} />
+                            </div>
+                        );
+                    })}
+                </Section>
+            </div>
+
+            <div className="space-y-3 lg:sticky lg:top-4 self-start">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-gray-400">Layout:</span>
+                    {(Object.keys(RESUME_LAYOUTS) as ResumeLayout[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => onLayoutChange(option)}
+                            title={RESUME_LAYOUTS[option].description}
+                            className={`text-sm py-1 px-3 rounded-md transition duration-300 ${layout === option ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                        >
+                            {RESUME_LAYOUTS[option].label}
+                        </button>
+                    ))}
+                </div>
+                <ResumeExportMenu resume={resume} layout={layout} />
+                <ResumePreview resume={resume} layout={layout} />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { ResumeLayout, StructuredResume } from '../../types';
+import { downloadFile, toFileSlug } from '../../utils';
+import { exportResume, RESUME_EXPORT_FORMATS, ResumeExportFormat } from '../../services/resumeExport';
+
+interface ResumeExportMenuProps {
+    resume: StructuredResume;
+    layout: ResumeLayout;
+}
+
+export const ResumeExportMenu: React.FC<ResumeExportMenuProps> = ({ resume, layout }) => {
+    const handleExport = (format: ResumeExportFormat) => {
+        const { extension, mimeType } = RESUME_EXPORT_FORMATS[format];
+        const baseName = resume.contact.name.trim() ? `${toFileSlug(resume.contact.name)}-resume` : 'resume';
+        downloadFile(exportResume(resume, layout, format), `${baseName}.${extension}`, mimeType);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-400">Export:</span>
+            {(Object.keys(RESUME_EXPORT_FORMATS) as ResumeExportFormat[]).map(format => (
+                <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-md transition duration-300"
+                >
+                    {RESUME_EXPORT_FORMATS[format].label}
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { importResumeFile, RESUME_FILE_ACCEPT, ResumeImportResult } from '../../services/resumeImport';
+import { Spinner } from '../common/Spinner';
+
+interface ResumeFileImportProps {
+    // Called once the candidate has checked the extracted text and accepted it.
+    onUse: (text: string) => void;
+}
+
+export const ResumeFileImport: React.FC<ResumeFileImportProps> = ({ onUse }) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [preview, setPreview] = useState<ResumeImportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setIsImporting(true);
+        setError(null);
+        setPreview(null);
+        try {
+            const result = await importResumeFile(file);
+            if (!result.text && result.warnings.length === 0) {
+                setError(`No text was found in ${file.name}.`);
+            } else {
+                setPreview(result);
+            }
+        } catch (err) {
+            console.error("Resume import failed:", err);
+            setError(err instanceof Error ? err.message : "Failed to read the file.");
+        } finally {
+            setIsImporting(false);
+            if (inputRef.current) inputRef.current.value = '';
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleFile(e.dataTransfer.files[0]);
+    };
+
+    const handleUse = () => {
+        if (!preview) return;
+        onUse(preview.text);
+        setPreview(null);
+    };
+
+    return (
+        <div className="mb-3">
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                onClick={() => inputRef.current?.click()}
+                className={`border-2 border-dashed rounded-md p-4 text-center cursor-pointer transition duration-300 ${isDragging ? 'border-indigo-400 bg-gray-700' : 'border-gray-600 hover:border-gray-500'}`}
+            >
+                {isImporting ? (
+                    <div className="flex items-center justify-center gap-2 text-gray-300"><Spinner /> Reading file...</div>
+                ) : (
+                    <p className="text-gray-400 text-sm">
+                        Drop your resume here or <span className="text-indigo-400 font-semibold">browse</span>
+                        <span className="block text-xs text-gray-500 mt-1">PDF, DOCX, Markdown or TXT. Files are read on your device.</span>
+                    </p>
+                )}
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept={RESUME_FILE_ACCEPT}
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                    className="hidden"
+                />
+            </div>
+            {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+
+            {preview && (
+                <div className="mt-3 bg-gray-800 p-4 rounded-md border border-gray-600">
+                    <h4 className="font-semibold text-gray-300 mb-2">Extracted from {preview.fileName}</h4>
+                    {preview.warnings.map((warning, i) => (
+                        <p key={i} className="bg-yellow-900 text-yellow-100 text-sm p-2 rounded mb-2">{warning}</p>
+                    ))}
+                    {preview.text && (
+                        <pre className="whitespace-pre-wrap bg-gray-900 text-gray-200 p-3 rounded-md text-sm max-h-64 overflow-y-auto">{preview.text}</pre>
+                    )}
+                    <div className="flex gap-2 mt-3">
+                        <button
+                            onClick={handleUse}
+                            disabled={!preview.text}
+                            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900 text-white font-bold py-2 px-4 rounded-md transition duration-300"
+                        >
+                            Use This Text
+                        </button>
+                        <button
+                            onClick={() => setPreview(null)}
+                            className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-bold py-2 px-4 rounded-md transition duration-300"
+                        >
+                            Discard
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ResumeLayout, StructuredResume } from '../../types';
+import { headingText, RESUME_LAYOUTS, resumeToBlocks } from '../../services/resumeModel';
+
+interface ResumePreviewProps {
+    resume: StructuredResume;
+    layout: ResumeLayout;
+}
+
+// Mirrors the PDF and DOCX exports, with sizes in points.
+export const ResumePreview: React.FC<ResumePreviewProps> = ({ resume, layout }) => {
+    const style = RESUME_LAYOUTS[layout];
+    const blocks = resumeToBlocks(resume);
+
+    return (
+        <div
+            className="bg-white text-black rounded-md shadow-lg p-8 min-h-[32rem]"
+            style={{ fontFamily: 'Helvetica, Arial, sans-serif', fontSize: `${style.bodySize}pt`, lineHeight: 1.3 }}
+        >
+            {blocks.length === 0 && <p className="text-gray-400 text-center">Your resume preview will appear here.</p>}
+            {blocks.map((block, index) => {
+                const previous = blocks[index - 1];
+                switch (block.kind) {
+                    case 'name':
+                        return (
+                            <h1 key={index} className={`font-bold ${style.centerHeader ? 'text-center' : ''}`} style={{ fontSize: `${style.nameSize}pt`, color: style.accentColor }}>
+                                {block.text}
+                            </h1>
+                        );
+                    case 'contact':
+                        return <p key={index} className={style.centerHeader ? 'text-center' : ''} style={{ fontSize: `${style.bodySize - 0.5}pt` }}>{block.text}</p>;
+                    case 'heading':
+                        return (
+                            <h2
+                                key={index}
+                                className="font-bold"
+                                style={{
+                                    fontSize: `${style.bodySize + 1.5}pt`,
+                                    color: style.accentColor,
+                                    marginTop: `${style.sectionGap}pt`,
+                                    borderBottom: style.headingRule ? `0.75pt solid ${style.accentColor}` : undefined,
+                                }}
+                            >
+                                {headingText(block.text, style.uppercaseHeadings)}
+                            </h2>
+                        );
+                    case 'entry':
+                        return (
+                            <p key={index} className="font-bold" style={{ marginTop: previous?.kind === 'heading' ? '2pt' : `${style.sectionGap / 2}pt` }}>
+                                {block.text}
+                            </p>
+                        );
+                    case 'bullet':
+                        return (
+                            <p key={index} className="flex gap-2 pl-1">
+                                <span>•</span>
+                                <span>{block.text}</span>
+                            </p>
+                        );
+                    default:
+                        return <p key={index}>{block.text}</p>;
+                }
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { LineRewrite } from '../../types';
+import { ResumeReference } from '../../services/resumeModel';
+import { diffWords } from '../../services/textAnalysis';
+
+type RewriteDecision = 'accepted' | 'rejected';
+
+interface ResumeRewritesProps {
+    rewrites: LineRewrite[];
+    references: Map<string, ResumeReference>;
+    onApply: (accepted: LineRewrite[]) => void;
+    isApplying: boolean;
+}
+
+const DIFF_STYLES = {
+    same: 'text-gray-200',
+    added: 'bg-green-800 text-green-100 rounded',
+    removed: 'bg-red-900 text-red-200 line-through rounded',
+};
+
+export const ResumeRewrites: React.FC<ResumeRewritesProps> = ({ rewrites, references, onApply, isApplying }) => {
+    const [decisions, setDecisions] = useState<Partial<Record<number, RewriteDecision>>>({});
+    const accepted = rewrites.filter((_, i) => decisions[i] === 'accepted');
+
+    const decide = (index: number, decision: RewriteDecision) =>
+        setDecisions(prev => ({ ...prev, [index]: prev[index] === decision ? undefined : decision }));
+
+    return (
+        <div className="mt-8 bg-gray-800 p-6 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-xl font-bold text-indigo-400">Suggested Rewrites</h3>
+                <button
+                    onClick={() => setDecisions(Object.fromEntries(rewrites.map((_, i) => [i, 'accepted' as const])))}
+                    className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold"
+                >
+                    Accept all
+                </button>
+            </div>
+            <ul className="space-y-3 mt-4">
+                {rewrites.map((rewrite, i) => {
+                    const decision = decisions[i];
+                    const label = rewrite.ref ? references.get(rewrite.ref)?.label ?? rewrite.ref : null;
+                    return (
+                        <li key={i} className={`bg-gray-700 p-3 rounded-md border-l-4 ${decision === 'accepted' ? 'border-green-500' : decision === 'rejected' ? 'border-gray-600 opacity-60' : 'border-indigo-500'}`}>
+                            {label && <p className="text-sm font-semibold text-indigo-300 mb-1">{label}</p>}
+                            <p className="leading-relaxed">
+                                {diffWords(rewrite.original, rewrite.rewritten).map((segment, j) => (
+                                    <span key={j} className={DIFF_STYLES[segment.type]}>{segment.text}</span>
+                                ))}
+                            </p>
+                            {rewrite.reason && <p className="text-sm text-gray-400 mt-2">{rewrite.reason}</p>}
+                            <div className="flex gap-2 mt-3">
+                                <button
+                                    onClick={() => decide(i, 'accepted')}
+                                    className={`text-sm py-1 px-3 rounded-md transition duration-300 ${decision === 'accepted' ? 'bg-green-600 text-white' : 'bg-gray-600 hover:bg-gray-500 text-gray-200'}`}
+                                >
+                                    {decision === 'accepted' ? 'Accepted' : 'Accept'}
+                                </button>
+                                <button
+                                    onClick={() => decide(i, 'rejected')}
+                                    className={`text-sm py-1 px-3 rounded-md transition duration-300 ${decision === 'rejected' ? 'bg-red-700 text-white' : 'bg-gray-600 hover:bg-gray-500 text-gray-200'}`}
+                                >
+                                    {decision === 'rejected' ? 'Rejected' : 'Reject'}
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+            <button
+                onClick={() => onApply(accepted)}
+                disabled={accepted.length === 0 || isApplying}
+                className="w-full mt-4 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:text-gray-400 text-white font-bold py-2 px-4 rounded-md transition duration-300"
+            >
+                {accepted.length === 0
+                    ? 'Accept rewrites to apply them'
+                    : `Apply ${accepted.length} ${accepted.length === 1 ? 'Rewrite' : 'Rewrites'} and Re-analyze`}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { ResumeVersion } from '../../types';
+import { deleteResumeVersion, listResumeVersions } from '../../services/storageService';
+import { diffLines } from '../../services/textAnalysis';
+import { Spinner } from '../common/Spinner';
+
+interface ResumeVersionHistoryProps {
+    onRestore: (version: ResumeVersion) => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 28;
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+// The first line of the job description is usually the role title.
+const describeJobDescription = (jobDescription: string) => {
+    const firstLine = jobDescription.split('\n').map(line => line.trim()).find(Boolean) ?? 'Untitled job description';
+    return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+};
+
+const DIFF_STYLES = {
+    same: 'text-gray-400',
+    added: 'bg-green-900 text-green-100',
+    removed: 'bg-red-900 text-red-200 line-through',
+};
+
+// ATS score and missing keyword count across versions, oldest first. Each
+// series has its own scale, shown on the left and right axes.
+const ScoreChart: React.FC<{ versions: ResumeVersion[] }> = ({ versions }) => {
+    const maxMissing = Math.max(1, ...versions.map(version => version.analysis.missingKeywords.length));
+    const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+    const x = (index: number) => CHART_PADDING + (versions.length === 1 ? 0.5 : index / (versions.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+    const y = (value: number, max: number) => CHART_HEIGHT - CHART_PADDING - (value / max) * plotHeight;
+    const series = [
+        { label: 'ATS score', color: '#818cf8', max: 100, value: (version: ResumeVersion) => version.analysis.score },
+        { label: 'Missing keywords', color: '#f87171', max: maxMissing, value: (version: ResumeVersion) => version.analysis.missingKeywords.length },
+    ];
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+                <line x1={CHART_PADDING} y1={CHART_HEIGHT - CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} stroke="#4b5563" />
+                <text x={CHART_PADDING - 6} y={CHART_PADDING + 4} textAnchor="end" fontSize="10" fill="#818cf8">100</text>
+                <text x={CHART_PADDING - 6} y={CHART_HEIGHT - CHART_PADDING + 4} textAnchor="end" fontSize="10" fill="#9ca3af">0</text>
+                <text x={CHART_WIDTH - CHART_PADDING + 6} y={CHART_PADDING + 4} fontSize="10" fill="#f87171">{maxMissing}</text>
+                {series.map(line => (
+                    <g key={line.label}>
+                        <polyline
+                            points={versions.map((version, i) => `${x(i)},${y(line.value(version), line.max)}`).join(' ')}
+                            fill="none"
+                            stroke={line.color}
+                            strokeWidth="2"
+                        />
+                        {versions.map((version, i) => (
+                            <circle key={version.id} cx={x(i)} cy={y(line.value(version), line.max)} r="4" fill={line.color}>
+                                <title>{`${line.label}: ${line.value(version)} · ${formatDate(version.createdAt)}`}</title>
+                            </circle>
+                        ))}
+                    </g>
+                ))}
+                {versions.map((version, i) => (
+                    <text key={version.id} x={x(i)} y={CHART_HEIGHT - CHART_PADDING + 14} textAnchor="middle" fontSize="10" fill="#9ca3af">v{i + 1}</text>
+                ))}
+            </svg>
+            <div className="flex gap-4 text-xs text-gray-400 mt-1">
+                {series.map(line => (
+                    <span key={line.label} className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-0.5" style={{ backgroundColor: line.color }}></span>
+                        {line.label}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const scoreChange = (before: number, after: number, lowerIsBetter = false) => {
+    const change = after - before;
+    const improved = lowerIsBetter ? change < 0 : change > 0;
+    return (
+        <span className={change === 0 ? 'text-gray-400' : improved ? 'text-green-400' : 'text-red-400'}>
+            {before} → {after} ({change > 0 ? '+' : ''}{change})
+        </span>
+    );
+};
+
+const VersionDiff: React.FC<{ older: ResumeVersion; newer: ResumeVersion; numberOf: (version: ResumeVersion) => number }> = ({ older, newer, numberOf }) => (
+    <div className="bg-gray-800 p-6 rounded-lg">
+        <h3 className="text-xl font-bold text-indigo-400">v{numberOf(older)} → v{numberOf(newer)}</h3>
+        <div className="flex flex-wrap gap-x-6 text-sm mt-2">
+            <span>ATS score: {scoreChange(older.analysis.score, newer.analysis.score)}</span>
+            <span>Keyword match: {scoreChange(older.keywordScore, newer.keywordScore)}</span>
+            <span>Missing keywords: {scoreChange(older.analysis.missingKeywords.length, newer.analysis.missingKeywords.length, true)}</span>
+        </div>
+        {older.jobDescription.trim() !== newer.jobDescription.trim() && (
+            <p className="text-sm text-yellow-400 mt-2">These versions were scored against different job descriptions, so their scores are not directly comparable.</p>
+        )}
+        <pre className="bg-gray-900 p-3 rounded-md mt-4 text-sm whitespace-pre-wrap font-sans max-h-[32rem] overflow-y-auto">
+            {diffLines(older.resumeText, newer.resumeText).map((segment, i) => (
+                <span key={i} className={DIFF_STYLES[segment.type]}>{segment.text}</span>
+            ))}
+        </pre>
+    </div>
+);
+
+export const ResumeVersionHistory: React.FC<ResumeVersionHistoryProps> = ({ onRestore }) => {
+    const [versions, setVersions] = useState<ResumeVersion[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+
+    useEffect(() => {
+        listResumeVersions()
+            .then(setVersions)
+            .catch(err => {
+                console.error("Failed to load resume versions:", err);
+                setError("Could not load your resume history.");
+            })
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    // Versions are listed newest first but numbered and charted oldest first.
+    const chronological = [...versions].reverse();
+    const numberOf = (version: ResumeVersion) => chronological.indexOf(version) + 1;
+    const compared = chronological.filter(version => compareIds.includes(version.id));
+
+    const handleDelete = async (id: string) => {
+        if (!window.confirm("Delete this resume version? This cannot be undone.")) return;
+        try {
+            await deleteResumeVersion(id);
+            setVersions(prev => prev.filter(version => version.id !== id));
+            setCompareIds(prev => prev.filter(compareId => compareId !== id));
+        } catch (err) {
+            console.error("Failed to delete resume version:", err);
+            setError("Could not delete the resume version.");
+        }
+    };
+
+    const handleRestore = (version: ResumeVersion) => {
+        if (!window.confirm("Restore this version? It replaces the resume and job description you are editing.")) return;
+        onRestore(version);
+    };
+
+    const toggleCompare = (id: string) => {
+        setCompareIds(prev => {
+            if (prev.includes(id)) return prev.filter(compareId => compareId !== id);
+            // Keep the comparison to the two most recently selected versions.
+            return [...prev, id].slice(-2);
+        });
+    };
+
+    if (isLoading) return <div className="flex justify-center"><Spinner /></div>;
+
+    return (
+        <div className="space-y-6">
+            {error && <p className="text-red-400">{error}</p>}
+            {versions.length === 0 ? (
+                <p className="text-gray-400 text-center">Every resume you analyze is saved here, so you can track your score across revisions.</p>
+            ) : (
+                <>
+                    {versions.length > 1 && (
+                        <div className="bg-gray-800 p-6 rounded-lg">
+                            <h3 className="text-xl font-bold text-indigo-400 mb-4">Score Over Time</h3>
+                            <ScoreChart versions={chronological} />
+                        </div>
+                    )}
+                    <div className="bg-gray-800 p-6 rounded-lg">
+                        <h3 className="text-xl font-bold text-indigo-400">Versions</h3>
+                        <p className="text-sm text-gray-400 mt-1 mb-4">Select two versions to see what changed between them.</p>
+                        <ul className="space-y-2">
+                            {versions.map(version => (
+                                <li key={version.id} className="flex flex-wrap items-center gap-4 bg-gray-900 p-3 rounded-md">
+                                    <input
+                                        type="checkbox"
+                                        checked={compareIds.includes(version.id)}
+                                        onChange={() => toggleCompare(version.id)}
+                                        title="Select to compare"
+                                        className="form-checkbox text-indigo-500"
+                                    />
+                                    <div className="flex-grow min-w-0">
+                                        <p className="font-semibold text-gray-200 truncate">v{numberOf(version)} · {describeJobDescription(version.jobDescription)}</p>
+                                        <p className="text-xs text-gray-400">
+                                            {formatDate(version.createdAt)} &middot; {version.source === 'builder' ? 'Resume Builder' : 'Pasted or imported'} &middot; {version.analysis.missingKeywords.length} missing keywords
+                                        </p>
+                                    </div>
+                                    <span className="text-sm font-bold text-green-400">{version.analysis.score}/100</span>
+                                    <button onClick={() => handleRestore(version)} className="text-sm text-indigo-400 hover:text-indigo-300">Restore</button>
+                                    <button onClick={() => handleDelete(version.id)} className="text-sm text-red-400 hover:text-red-300">Delete</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    {compared.length === 2 && <VersionDiff older={compared[0]} newer={compared[1]} numberOf={numberOf} />}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+import { InterviewType } from "../types";
+import { contentWords, countWords, JD_FILLER_WORDS } from "./textAnalysis";
+
+export type CoachHintTone = 'info' | 'warn';
+
+export interface CoachHint {
+    id: string;
+    tone: CoachHintTone;
+    text: string;
+}
+
+export type StarElement = 'situation' | 'task' | 'action' | 'result';
+
+// Phrases that usually signal each part of a STAR answer.
+const STAR_PATTERNS: Record<StarElement, RegExp> = {
+    situation: /\b(when i was|at my (last|previous|current)|we were|the situation|back in|at the time|our team (was|had))\b/i,
+    task: /\b(my (goal|job|role|task|responsibility) was|i was (responsible|asked|tasked)|i needed to|i had to|we needed to|the goal was)\b/i,
+    action: /\b(i (decided|built|wrote|led|created|designed|implemented|proposed|set up|reached out|worked|started|took|made|changed|organi[sz]ed))\b/i,
+    result: /\b(as a result|resulted in|in the end|the outcome|we (shipped|launched|reduced|increased|improved|saved|cut|grew)|(reduced|increased|improved|saved|cut|grew) (the|our|it|by))\b/i,
+};
+
+const STAR_LABELS: Record<StarElement, string> = {
+    situation: 'Situation',
+    task: 'Task',
+    action: 'Action',
+    result: 'Result',
+};
+
+const BEHAVIORAL_QUESTION = /\b(tell me about a time|describe a (time|situation)|give (me )?an example|walk me through a time|have you ever)\b/i;
+
+// Hints only appear once the answer is long enough to judge.
+const MIN_WORDS_FOR_HINTS = 25;
+const LONG_ANSWER_WARN_MS = 2 * 60_000;
+const LONG_ANSWER_STOP_MS = 3 * 60_000;
+const JD_KEYWORD_COUNT = 15;
+const MAX_KEYWORD_REMINDERS = 3;
+
+export const detectStarElements = (answer: string): Record<StarElement, boolean> => ({
+    situation: STAR_PATTERNS.situation.test(answer),
+    task: STAR_PATTERNS.task.test(answer),
+    action: STAR_PATTERNS.action.test(answer),
+    result: STAR_PATTERNS.result.test(answer),
+});
+
+// The most frequent meaningful words in the job description.
+export const extractJdKeywords = (jobDescription: string, limit = JD_KEYWORD_COUNT): string[] => {
+    const counts = new Map<string, number>();
+    for (const word of contentWords(jobDescription).filter(word => !JD_FILLER_WORDS.has(word))) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, limit)
+        .map(([word]) => word);
+};
+
+export interface CoachInput {
+    question: string;
+    answer: string;
+    // How long the candidate has been answering, when known.
+    elapsedMs?: number;
+    interviewType: InterviewType;
+    jdKeywords: string[];
+}
+
+export const computeCoachHints = ({ question, answer, elapsedMs, interviewType, jdKeywords }: CoachInput): CoachHint[] => {
+    const hints: CoachHint[] = [];
+    if (elapsedMs !== undefined && elapsedMs >= LONG_ANSWER_STOP_MS) {
+        hints.push({ id: 'time', tone: 'warn', text: `You've been talking for ${Math.floor(elapsedMs / 60_000)} minutes. Land your point and stop.` });
+    } else if (elapsedMs !== undefined && elapsedMs >= LONG_ANSWER_WARN_MS) {
+        hints.push({ id: 'time', tone: 'info', text: "You've been talking for 2 minutes. Start heading to the result." });
+    }
+    if (countWords(answer) < MIN_WORDS_FOR_HINTS) {
+        return hints;
+    }
+
+    const star = detectStarElements(answer);
+    if (interviewType === 'behavioral' || BEHAVIORAL_QUESTION.test(question)) {
+        const missing = (Object.keys(star) as StarElement[]).filter(element => !star[element]);
+        if (missing.length > 0) {
+            hints.push({ id: 'star', tone: 'info', text: `STAR: add the ${missing.map(element => STAR_LABELS[element]).join(', ')}.` });
+        }
+    }
+    if (star.result && !/\d/.test(answer)) {
+        hints.push({ id: 'quantify', tone: 'info', text: 'Quantify this result: numbers, percentages or time saved.' });
+    }
+
+    const answerWords = new Set(contentWords(answer));
+    const questionWords = new Set(contentWords(question));
+    const relevant = jdKeywords.filter(keyword => questionWords.has(keyword));
+    const reminders = (relevant.length > 0 ? relevant : jdKeywords)
+        .filter(keyword => !answerWords.has(keyword))
+        .slice(0, MAX_KEYWORD_REMINDERS);
+    if (reminders.length > 0) {
+        hints.push({ id: 'keywords', tone: 'info', text: `Consider mentioning: ${reminders.join(', ')}.` });
+    }
+    return hints;
+};
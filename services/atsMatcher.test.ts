@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { extractJdTerms, highlightTerms, matchResumeToJd, stemWord, termKey } from './atsMatcher';
+
+const importanceOf = (jobDescription: string, phrase: string) =>
+    extractJdTerms(jobDescription).find(term => term.key === termKey(phrase))?.importance;
+
+const isMatched = (resumeText: string, jobDescription: string, phrase: string) =>
+    matchResumeToJd(resumeText, jobDescription).terms.find(term => term.key === termKey(phrase))?.matched;
+
+describe('stemWord', () => {
+    it('lines up inflections of the same word', () => {
+        expect(stemWord('managed')).toBe(stemWord('managing'));
+        expect(stemWord('manages')).toBe(stemWord('manage'));
+        expect(stemWord('deployments')).toBe(stemWord('deploy'));
+    });
+
+    it('keeps words whose "ing" or "ed" is not a suffix', () => {
+        expect(stemWord('spring')).toBe('spring');
+        expect(stemWord('string')).toBe('string');
+        expect(stemWord('strings')).toBe('string');
+    });
+});
+
+describe('extractJdTerms importance', () => {
+    it('lets an explicit requirement win over "plus" on the same line', () => {
+        const jd = 'Must have Java plus Spring';
+        expect(importanceOf(jd, 'java')).toBe('required');
+        expect(importanceOf(jd, 'spring')).toBe('required');
+    });
+
+    it('reads nice-to-have cues on a line', () => {
+        expect(importanceOf('Experience with Rust is a plus', 'rust')).toBe('nice_to_have');
+    });
+
+    it('carries section headings over the lines below them', () => {
+        const jd = 'Requirements:\n- Python\n\nPreferred qualifications:\n- Terraform';
+        expect(importanceOf(jd, 'python')).toBe('required');
+        expect(importanceOf(jd, 'terraform')).toBe('nice_to_have');
+    });
+
+    it('lets parsed requirements override the text', () => {
+        const terms = extractJdTerms('We use Go and Docker.', { required: ['Docker'], niceToHave: ['Go', 'Redis'] });
+        expect(terms.find(term => term.key === termKey('docker'))?.importance).toBe('required');
+        expect(terms.find(term => term.key === termKey('redis'))?.importance).toBe('nice_to_have');
+    });
+});
+
+describe('matchResumeToJd', () => {
+    it('matches acronyms and alternate spellings', () => {
+        const jd = 'Required: JavaScript, Kubernetes and PostgreSQL.';
+        const resume = 'Built JS services on k8s backed by Postgres.';
+        expect(isMatched(resume, jd, 'javascript')).toBe(true);
+        expect(isMatched(resume, jd, 'kubernetes')).toBe(true);
+        expect(isMatched(resume, jd, 'postgresql')).toBe(true);
+    });
+
+    it('does not treat ambiguous abbreviations or related practices as synonyms', () => {
+        expect(isMatched('Standup daily at 5 pm.', 'Product management experience required.', 'product management')).toBe(false);
+        expect(isMatched('Ran Scrum ceremonies.', 'Agile experience.', 'agile')).toBe(false);
+    });
+
+    it('does not match aliases against inflected or everyday words', () => {
+        const jd = 'React, Node.js and REST APIs';
+        const resume = 'Reacted quickly to outages across 200 nodes while the rest of the team slept';
+        expect(isMatched(resume, jd, 'react')).toBe(false);
+        expect(isMatched(resume, jd, 'node.js')).toBe(false);
+        expect(isMatched(resume, jd, 'rest api')).toBe(false);
+        expect(matchResumeToJd(resume, jd).score).toBe(0);
+    });
+
+    it('matches short skills named by parsed requirements', () => {
+        const requirements = { required: ['Go', 'R', 'C#'], niceToHave: [] };
+        const result = matchResumeToJd('Wrote services in Go and models in R.', 'Backend engineer.', requirements);
+        expect(result.terms.filter(term => term.matched).map(term => term.key)).toEqual(['go', 'r']);
+        expect(result.terms.find(term => term.key === termKey('C#'))?.matched).toBe(false);
+    });
+
+    it('gives the same result for the same input', () => {
+        const jd = 'Must have React and TypeScript. GraphQL is a plus.';
+        const resume = 'React developer using GraphQL.';
+        expect(matchResumeToJd(resume, jd)).toEqual(matchResumeToJd(resume, jd));
+    });
+
+    it('weights required terms above nice-to-haves', () => {
+        const jd = 'Must have React.\nNice to have: GraphQL.';
+        expect(matchResumeToJd('React', jd).score).toBeGreaterThan(matchResumeToJd('GraphQL', jd).score);
+    });
+});
+
+describe('highlightTerms', () => {
+    it('splits the text without losing any of it', () => {
+        const text = 'Shipped React apps with Node.js.';
+        const { terms } = matchResumeToJd(text, 'React and Node.js');
+        const segments = highlightTerms(text, terms);
+        expect(segments.map(segment => segment.text).join('')).toBe(text);
+        expect(segments.filter(segment => segment.term).map(segment => segment.text)).toEqual(['React', 'Node.js']);
+    });
+});
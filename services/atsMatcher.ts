@@ -0,0 +1,312 @@
+import { JD_FILLER_WORDS, STOP_WORDS } from "./textAnalysis";
+
+// A local keyword matcher: the same resume and job description always get
+// the same score, so before/after comparisons can be trusted.
+
+export type AtsTermImportance = 'required' | 'standard' | 'nice_to_have';
+
+export const ATS_TERM_IMPORTANCE: Record<AtsTermImportance, { label: string; weight: number }> = {
+    required: { label: 'Required', weight: 3 },
+    standard: { label: 'Mentioned', weight: 2 },
+    nice_to_have: { label: 'Nice to have', weight: 1 },
+};
+
+export interface AtsTerm {
+    // Normalized form shared by every spelling, synonym and acronym of the term.
+    key: string;
+    // How the job description first wrote it.
+    label: string;
+    importance: AtsTermImportance;
+    matched: boolean;
+}
+
+export interface AtsMatchResult {
+    // Weighted share of job description terms found in the resume, 0 to 100.
+    score: number;
+    terms: AtsTerm[];
+}
+
+// Requirements from a parsed job description. Their terms override the
+// importance read from the text and are always kept.
+export interface JdRequirements {
+    required: string[];
+    niceToHave: string[];
+}
+
+export interface TextSegment {
+    text: string;
+    // Set when the segment is one of the job description terms.
+    term?: AtsTerm;
+}
+
+// Canonical names and the other ways resumes and job descriptions write them.
+// Aliases are matched as written, without stemming, so they must not be
+// everyday words: "rest" and "node" would match "the rest" and "nodes".
+const TERM_ALIASES: Record<string, string[]> = {
+    'javascript': ['js', 'ecmascript', 'es6'],
+    'typescript': [],
+    'kubernetes': ['k8s'],
+    'postgresql': ['postgres', 'psql'],
+    'mongodb': ['mongo'],
+    'elasticsearch': ['elastic search'],
+    'aws': ['amazon web services'],
+    'gcp': ['google cloud', 'google cloud platform'],
+    'azure': ['microsoft azure'],
+    'ci/cd': ['cicd', 'ci cd', 'continuous integration', 'continuous delivery', 'continuous deployment'],
+    'react': ['reactjs', 'react.js'],
+    'node.js': ['nodejs'],
+    'vue': ['vuejs', 'vue.js'],
+    'next.js': ['nextjs'],
+    'c#': ['csharp', 'c sharp'],
+    'c++': ['cpp'],
+    'dotnet': ['.net'],
+    'golang': ['go lang'],
+    'machine learning': ['ml'],
+    'artificial intelligence': ['ai'],
+    'large language models': ['llm', 'llms', 'large language model'],
+    'natural language processing': ['nlp'],
+    'user experience': ['ux'],
+    'user interface': ['ui'],
+    'rest api': ['rest apis', 'restful', 'restful api', 'restful apis'],
+    'graphql': ['graph ql'],
+    'object-oriented programming': ['oop', 'object oriented programming'],
+    'test-driven development': ['tdd', 'test driven development'],
+    'site reliability engineering': ['sre'],
+    'infrastructure as code': ['iac'],
+    'product management': [],
+    'key performance indicators': ['key performance indicator', 'kpi', 'kpis'],
+    'search engine optimization': ['seo'],
+    'customer relationship management': ['crm'],
+    'software development life cycle': ['sdlc'],
+};
+
+// Suffix rules applied once, longest first; a light stemmer is enough to line
+// up "managed", "manages" and "managing" without a dictionary. The verb
+// endings are only removed when a vowel is left, so "spring" and "string"
+// stay whole.
+const STEM_RULES: [string, string][] = [
+    ['ational', 'ate'], ['ization', 'ize'], ['isation', 'ize'], ['ations', 'ate'], ['ation', 'ate'],
+    ['ments', ''], ['ment', ''], ['ings', ''], ['ing', ''], ['sses', 'ss'], ['ies', 'y'], ['ied', 'y'],
+    ['ed', ''], ['es', ''],
+];
+const VERB_SUFFIXES = new Set(['ings', 'ing', 'ed']);
+const MIN_STEM_LENGTH = 3;
+const MAX_PHRASE_TOKENS = 4;
+// Terms outside the alias table are single words; only the most frequent are kept.
+const MAX_PLAIN_TERMS = 25;
+
+// An explicit requirement on a line outweighs a nice-to-have cue on the same
+// line; the weaker required cues mostly name sections, as in "Preferred qualifications".
+const EXPLICIT_REQUIRED_CUE = /\b(must|required|minimum|essential|need to have)\b/i;
+const REQUIRED_CUE = /\b(requirements?|you have|what you('ll)? need|qualifications?)\b/i;
+const SECTION_HEADING = /^(about|responsibilities|requirements|qualifications|what you|who you|you have|nice|preferred|bonus|benefits|the role|your role|skills|must|minimum|basic|required|desired)/i;
+const NICE_TO_HAVE_CUE = /\b(nice to have|preferred|bonus|a plus|desired|desirable|ideally|good to have)\b/i;
+
+export const stemWord = (word: string): string => {
+    if (word.length <= MIN_STEM_LENGTH || /[^a-z]/.test(word)) return word;
+    let stem = word;
+    const rule = STEM_RULES.find(([suffix]) => {
+        if (!word.endsWith(suffix) || word.length - suffix.length < MIN_STEM_LENGTH) return false;
+        return !VERB_SUFFIXES.has(suffix) || /[aeiouy]/.test(word.slice(0, -suffix.length));
+    });
+    if (rule) {
+        stem = word.slice(0, -rule[0].length) + rule[1];
+    } else if (word.endsWith('s') && !word.endsWith('ss')) {
+        stem = word.slice(0, -1);
+    }
+    return stem.length > MIN_STEM_LENGTH && stem.endsWith('e') ? stem.slice(0, -1) : stem;
+};
+
+interface Token {
+    word: string;
+    start: number;
+    end: number;
+}
+
+// Keeps symbols that belong to technology names: c++, c#, node.js, ci/cd, .net.
+export const tokenize = (text: string): Token[] =>
+    Array.from(text.matchAll(/\.?[a-z0-9](?:[a-z0-9+#]|[.\-/](?=[a-z0-9]))*[+#]*/gi), match => ({
+        word: match[0].toLowerCase(),
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+    }));
+
+const rawPhrase = (phrase: string): string => tokenize(phrase).map(token => token.word).join(' ');
+
+// Each alias as written, mapped to the key of its canonical name.
+const ALIAS_KEYS: Map<string, string> = (() => {
+    const keys = new Map<string, string>();
+    for (const [canonical, aliases] of Object.entries(TERM_ALIASES)) {
+        const key = rawPhrase(canonical);
+        for (const phrase of [canonical, ...aliases]) {
+            keys.set(rawPhrase(phrase), key);
+        }
+    }
+    return keys;
+})();
+
+const CANONICAL_KEYS = new Set(ALIAS_KEYS.values());
+
+// A plain word is keyed by its stem, unless that stem is a canonical name:
+// "reacted" must not match React.
+const plainKey = (word: string): string => {
+    const stem = stemWord(word);
+    return CANONICAL_KEYS.has(stem) ? word : stem;
+};
+
+interface TermOccurrence {
+    key: string;
+    start: number;
+    end: number;
+    // Whether the term came from the alias table rather than a plain word.
+    isKnown: boolean;
+}
+
+// Words found in running job description text need three letters; short
+// skills such as "Go" or "R" only count when a parsed requirement names them.
+const MIN_TEXT_WORD_LENGTH = 3;
+
+const isPlainWord = (word: string, minLength: number) =>
+    word.length >= minLength && !/^\d+$/.test(word) && !STOP_WORDS.has(word) && !JD_FILLER_WORDS.has(word);
+
+// Every term in the text, preferring the longest known phrase at each position.
+const scanTerms = (text: string, minLength = MIN_TEXT_WORD_LENGTH): TermOccurrence[] => {
+    const tokens = tokenize(text);
+    const occurrences: TermOccurrence[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        let known: TermOccurrence | null = null;
+        for (let length = Math.min(MAX_PHRASE_TOKENS, tokens.length - i); length > 0 && !known; length--) {
+            const key = ALIAS_KEYS.get(tokens.slice(i, i + length).map(token => token.word).join(' '));
+            if (key) {
+                known = { key, start: tokens[i].start, end: tokens[i + length - 1].end, isKnown: true };
+                i += length - 1;
+            }
+        }
+        if (known) {
+            occurrences.push(known);
+        } else if (isPlainWord(tokens[i].word, minLength)) {
+            occurrences.push({ key: plainKey(tokens[i].word), start: tokens[i].start, end: tokens[i].end, isKnown: false });
+        }
+    }
+    return occurrences;
+};
+
+// The importance of each line of the job description, carried over from the
+// last section heading unless the line itself says otherwise.
+const lineImportances = (jobDescription: string): { start: number; importance: AtsTermImportance }[] => {
+    const lines: { start: number; importance: AtsTermImportance }[] = [];
+    let sectionImportance: AtsTermImportance = 'standard';
+    let start = 0;
+    for (const line of jobDescription.split('\n')) {
+        const trimmed = line.trim();
+        const isHeading = trimmed.endsWith(':') || (trimmed.split(/\s+/).length <= 5 && SECTION_HEADING.test(trimmed));
+        const cue: AtsTermImportance | null = EXPLICIT_REQUIRED_CUE.test(line) ? 'required'
+            : NICE_TO_HAVE_CUE.test(line) ? 'nice_to_have'
+            : REQUIRED_CUE.test(line) ? 'required'
+            : null;
+        if (isHeading) {
+            sectionImportance = cue ?? 'standard';
+        }
+        lines.push({ start, importance: cue ?? sectionImportance });
+        start += line.length + 1;
+    }
+    return lines;
+};
+
+const importanceAt = (lines: { start: number; importance: AtsTermImportance }[], offset: number): AtsTermImportance => {
+    let importance: AtsTermImportance = 'standard';
+    for (const line of lines) {
+        if (line.start > offset) break;
+        importance = line.importance;
+    }
+    return importance;
+};
+
+const strongerImportance = (a: AtsTermImportance, b: AtsTermImportance): AtsTermImportance =>
+    ATS_TERM_IMPORTANCE[a].weight >= ATS_TERM_IMPORTANCE[b].weight ? a : b;
+
+export const extractJdTerms = (jobDescription: string, requirements?: JdRequirements): Omit<AtsTerm, 'matched'>[] => {
+    const lines = lineImportances(jobDescription);
+    // Terms that skip the MAX_PLAIN_TERMS cut: alias terms and parsed requirements.
+    const terms = new Map<string, { label: string; importance: AtsTermImportance; count: number; isKept: boolean; order: number }>();
+    for (const occurrence of scanTerms(jobDescription)) {
+        const importance = importanceAt(lines, occurrence.start);
+        const existing = terms.get(occurrence.key);
+        if (existing) {
+            existing.count++;
+            existing.importance = strongerImportance(existing.importance, importance);
+        } else {
+            terms.set(occurrence.key, {
+                label: jobDescription.slice(occurrence.start, occurrence.end),
+                importance,
+                count: 1,
+                isKept: occurrence.isKnown,
+                order: terms.size,
+            });
+        }
+    }
+
+    // Nice-to-haves first, so a term listed under both ends up required.
+    const parsed: [string[], AtsTermImportance][] = requirements
+        ? [[requirements.niceToHave, 'nice_to_have'], [requirements.required, 'required']]
+        : [];
+    for (const [phrases, importance] of parsed) {
+        for (const phrase of phrases) {
+            for (const occurrence of scanTerms(phrase, 1)) {
+                const existing = terms.get(occurrence.key);
+                if (existing) {
+                    existing.importance = importance;
+                    existing.isKept = true;
+                } else {
+                    terms.set(occurrence.key, {
+                        label: phrase.slice(occurrence.start, occurrence.end),
+                        importance,
+                        count: 1,
+                        isKept: true,
+                        order: terms.size,
+                    });
+                }
+            }
+        }
+    }
+
+    const all = [...terms.entries()].map(([key, term]) => ({ key, ...term }));
+    const plain = all
+        .filter(term => !term.isKept)
+        .sort((a, b) => ATS_TERM_IMPORTANCE[b.importance].weight * b.count - ATS_TERM_IMPORTANCE[a.importance].weight * a.count || a.order - b.order)
+        .slice(0, MAX_PLAIN_TERMS);
+    return [...all.filter(term => term.isKept), ...plain]
+        .sort((a, b) => a.order - b.order)
+        .map(({ key, label, importance }) => ({ key, label, importance }));
+};
+
+// The key a keyword maps to, so spellings and acronyms of one term compare equal.
+export const termKey = (phrase: string): string => {
+    const words = tokenize(phrase).map(token => token.word);
+    return ALIAS_KEYS.get(words.join(' ')) ?? words.map(plainKey).join(' ');
+};
+
+export const matchResumeToJd = (resumeText: string, jobDescription: string, requirements?: JdRequirements): AtsMatchResult => {
+    // Short words are scanned too, in case a parsed requirement names one.
+    const resumeKeys = new Set(scanTerms(resumeText, 1).map(occurrence => occurrence.key));
+    const terms = extractJdTerms(jobDescription, requirements).map(term => ({ ...term, matched: resumeKeys.has(term.key) }));
+    const total = terms.reduce((sum, term) => sum + ATS_TERM_IMPORTANCE[term.importance].weight, 0);
+    const matched = terms.filter(term => term.matched).reduce((sum, term) => sum + ATS_TERM_IMPORTANCE[term.importance].weight, 0);
+    return { score: total === 0 ? 0 : Math.round((matched / total) * 100), terms };
+};
+
+// Split text into plain and term segments for inline highlighting.
+export const highlightTerms = (text: string, terms: AtsTerm[]): TextSegment[] => {
+    const byKey = new Map(terms.map(term => [term.key, term]));
+    const segments: TextSegment[] = [];
+    let position = 0;
+    for (const occurrence of scanTerms(text, 1)) {
+        const term = byKey.get(occurrence.key);
+        if (!term) continue;
+        if (occurrence.start > position) segments.push({ text: text.slice(position, occurrence.start) });
+        segments.push({ text: text.slice(occurrence.start, occurrence.end), term });
+        position = occurrence.end;
+    }
+    if (position < text.length) segments.push({ text: text.slice(position) });
+    return segments;
+};
@@ -0,0 +1,58 @@
+import pcmCaptureProcessorUrl from '../worklets/pcmCaptureProcessor.ts?worker&url';
+import type { PcmCaptureProcessorOptions } from '../worklets/pcmCaptureProcessor';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 100ms of audio per frame sent to the live session.
+const CAPTURE_FRAME_SIZE = CAPTURE_SAMPLE_RATE / 10;
+
+export interface PcmCapture {
+    context: AudioContext;
+    stop: () => void;
+}
+
+// Capture a microphone stream as 16 kHz mono Int16 PCM frames. The
+// AudioContext runs at the device's native rate; resampling and encoding
+// happen off the main thread in an AudioWorklet.
+export const startPcmCapture = async (
+    stream: MediaStream,
+    onFrame: (pcm: Int16Array) => void
+): Promise<PcmCapture> => {
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        await context.audioWorklet.addModule(pcmCaptureProcessorUrl);
+    } catch (error) {
+        context.close();
+        throw error;
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    const processorOptions: PcmCaptureProcessorOptions = {
+        targetSampleRate: CAPTURE_SAMPLE_RATE,
+        frameSize: CAPTURE_FRAME_SIZE,
+    };
+    const node = new AudioWorkletNode(context, 'pcm-capture-processor', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions,
+    });
+    node.port.onmessage = (event: MessageEvent<Int16Array>) => onFrame(event.data);
+
+    // The processor writes no output, but it must be connected to the
+    // destination for the graph to keep pulling audio through it.
+    source.connect(node);
+    node.connect(context.destination);
+
+    return {
+        context,
+        stop: () => {
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+            if (context.state !== 'closed') {
+                context.close();
+            }
+        },
+    };
+};
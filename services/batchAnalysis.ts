@@ -0,0 +1,98 @@
+import { AnalysisKeyword, JobTarget, JobTargetResult, KeywordImportance } from "../types";
+import { matchResumeToJd, termKey } from "./atsMatcher";
+import { analyzeResumeWithJd } from "./geminiService";
+
+// Analyses running at once; each is a long model call, so this keeps a large
+// batch from hitting rate limits.
+export const BATCH_CONCURRENCY = 2;
+
+// Top missing keywords shown per role in the comparison table.
+export const TOP_MISSING_PER_ROLE = 4;
+
+const IMPORTANCE_WEIGHTS: Record<KeywordImportance, number> = {
+    required: 3,
+    preferred: 2,
+    nice_to_have: 1,
+};
+
+export type RoleFit = 'strong' | 'possible' | 'stretch';
+
+export const ROLE_FITS: Record<RoleFit, { label: string; minScore: number }> = {
+    strong: { label: 'Strong fit', minScore: 75 },
+    possible: { label: 'Possible fit', minScore: 50 },
+    stretch: { label: 'Stretch', minScore: 0 },
+};
+
+export const roleFit = (score: number): RoleFit =>
+    score >= ROLE_FITS.strong.minScore ? 'strong' : score >= ROLE_FITS.possible.minScore ? 'possible' : 'stretch';
+
+export const createJobTarget = (label = '', jobDescription = ''): JobTarget => ({ id: crypto.randomUUID(), label, jobDescription });
+
+export const jobTargetLabel = (targets: JobTarget[], target: JobTarget): string =>
+    target.label.trim() || `Role ${targets.indexOf(target) + 1}`;
+
+// Run every task, never more than `limit` at a time, in the order given.
+export const runWithConcurrency = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> => {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            await task(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+// Analyze the resume against every target, reporting each result as it lands.
+export const analyzeJobTargets = (
+    resumeText: string,
+    targets: JobTarget[],
+    onResult: (result: JobTargetResult) => void
+): Promise<void> => runWithConcurrency(targets, BATCH_CONCURRENCY, async target => {
+    const keywordScore = matchResumeToJd(resumeText, target.jobDescription).score;
+    try {
+        const outcome = await analyzeResumeWithJd(resumeText, target.jobDescription);
+        onResult(outcome.status === 'ok'
+            ? { targetId: target.id, status: 'done', analysis: outcome.analysis, keywordScore }
+            : { targetId: target.id, status: 'error', error: outcome.message, keywordScore });
+    } catch (error) {
+        console.error(`Analysis failed for ${jobTargetLabel(targets, target)}:`, error);
+        onResult({ targetId: target.id, status: 'error', error: "Failed to analyze resume. Please try again.", keywordScore });
+    }
+});
+
+export const topMissingKeywords = (keywords: AnalysisKeyword[], count = TOP_MISSING_PER_ROLE): AnalysisKeyword[] =>
+    [...keywords].sort((a, b) => IMPORTANCE_WEIGHTS[b.importance] - IMPORTANCE_WEIGHTS[a.importance]).slice(0, count);
+
+export interface CombinedMissingSkill {
+    keyword: string;
+    // Labels of the roles missing this skill.
+    roles: string[];
+    // Highest importance any of those roles gave it.
+    importance: KeywordImportance;
+}
+
+// Skills missing across the batch, most widespread first, so a candidate
+// knows what to learn or emphasize before anything else.
+export const combineMissingKeywords = (targets: JobTarget[], results: JobTargetResult[]): CombinedMissingSkill[] => {
+    const skills = new Map<string, CombinedMissingSkill & { weight: number }>();
+    for (const result of results) {
+        const target = targets.find(t => t.id === result.targetId);
+        if (!target || !result.analysis) continue;
+        const label = jobTargetLabel(targets, target);
+        for (const { keyword, importance } of result.analysis.missingKeywords) {
+            const key = termKey(keyword);
+            if (!key) continue;
+            const skill = skills.get(key);
+            if (!skill) {
+                skills.set(key, { keyword, roles: [label], importance, weight: IMPORTANCE_WEIGHTS[importance] });
+                continue;
+            }
+            if (!skill.roles.includes(label)) skill.roles.push(label);
+            if (IMPORTANCE_WEIGHTS[importance] > IMPORTANCE_WEIGHTS[skill.importance]) skill.importance = importance;
+            skill.weight += IMPORTANCE_WEIGHTS[importance];
+        }
+    }
+    return [...skills.values()]
+        .sort((a, b) => b.roles.length - a.roles.length || b.weight - a.weight)
+        .map(({ keyword, roles, importance }) => ({ keyword, roles, importance }));
+};
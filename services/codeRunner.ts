@@ -0,0 +1,59 @@
+import CodeRunnerWorker from '../workers/codeRunnerWorker.ts?worker';
+import type { CodeRunMessage, CodeRunRequest } from '../workers/codeRunnerWorker';
+import { CodingLanguage, CodingProblem, TestCaseResult } from '../types';
+
+const RUN_TIMEOUT_MS = 5000;
+
+// TypeScript solutions only need their types stripped, not type-checked, so a
+// small transpiler is loaded on first use instead of the compiler.
+const toJavaScript = async (code: string, language: CodingLanguage): Promise<string> => {
+    if (language === 'javascript') return code;
+    const { transform } = await import('sucrase');
+    return transform(code, { transforms: ['typescript'], disableESTransforms: true }).code;
+};
+
+// Run a solution against the problem's test cases in a throwaway Web Worker.
+// Tests that have not finished when the time limit is reached are reported
+// as timed out.
+export const runTestCases = async (
+    code: string,
+    language: CodingLanguage,
+    problem: CodingProblem
+): Promise<TestCaseResult[]> => {
+    let javascript: string;
+    try {
+        javascript = await toJavaScript(code, language);
+    } catch (error) {
+        const message = `Failed to compile: ${error instanceof Error ? error.message : String(error)}`;
+        return problem.testCases.map(() => ({ passed: false, error: message }));
+    }
+
+    return new Promise(resolve => {
+        const results: (TestCaseResult | undefined)[] = problem.testCases.map(() => undefined);
+        const worker = new CodeRunnerWorker();
+        const finish = (fallbackError: string) => {
+            clearTimeout(timer);
+            worker.terminate();
+            resolve(results.map(result => result ?? { passed: false, error: fallbackError }));
+        };
+        const timer = setTimeout(() => finish(`Timed out after ${RUN_TIMEOUT_MS / 1000}s.`), RUN_TIMEOUT_MS);
+
+        worker.onmessage = (event: MessageEvent<CodeRunMessage>) => {
+            const message = event.data;
+            if (message.type === 'result') {
+                results[message.index] = message.result;
+            } else if (message.type === 'error') {
+                finish(message.error);
+            } else {
+                finish('Did not run.');
+            }
+        };
+        worker.onerror = (event) => {
+            event.preventDefault();
+            finish(event.message || 'The test runner crashed.');
+        };
+
+        const request: CodeRunRequest = { code: javascript, functionName: problem.functionName, testCases: problem.testCases };
+        worker.postMessage(request);
+    });
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseCodingProblem } from './codingProblem';
+
+const response = {
+    title: 'Two Sum',
+    description: 'Return the indices of the two numbers that add up to the target.',
+    functionName: 'twoSum',
+    starterCode: 'function twoSum(nums, target) {\n}',
+    testCases: [{ input: '[[2, 7, 11], 9]', expected: '[0, 1]' }],
+};
+
+describe('parseCodingProblem', () => {
+    it('decodes test case arguments and results', () => {
+        expect(parseCodingProblem(JSON.stringify(response))).toEqual({
+            problem: { ...response, testCases: [{ input: [[2, 7, 11], 9], expected: [0, 1] }] },
+        });
+    });
+
+    it('reports test cases the runner cannot use', () => {
+        const parsed = parseCodingProblem(JSON.stringify({ ...response, testCases: [{ input: '9', expected: '[0, 1' }] }));
+        expect(parsed).toEqual({
+            problems: ['problem.testCases[0].input must be a JSON array.', 'problem.testCases[0].expected is not valid JSON.'],
+        });
+    });
+
+    it('reports a function name the starter code does not declare', () => {
+        expect(parseCodingProblem(JSON.stringify({ ...response, functionName: 'solve' }))).toEqual({
+            problems: ['problem.starterCode must declare problem.functionName.'],
+        });
+        expect(parseCodingProblem(JSON.stringify({ ...response, functionName: 'two sum' }))).toEqual({
+            problems: ['problem.functionName must be a valid identifier.'],
+        });
+    });
+});
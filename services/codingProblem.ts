@@ -0,0 +1,75 @@
+import { Schema, Type } from "@google/genai";
+import { CodingProblem, CodingTestCase } from "../types";
+import { parseModelJson, present, Reader, readArray, readObject, readString } from "./jsonValidation";
+
+export type CodingProblemOutcome =
+    | { status: 'ok'; problem: CodingProblem }
+    | { status: 'error'; message: string };
+
+// A response schema cannot describe arbitrary JSON values, so test case
+// arguments and results come back as JSON text and are decoded here.
+export const CODING_PROBLEM_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        description: { type: Type.STRING, description: 'The problem statement with examples.' },
+        functionName: { type: Type.STRING, description: 'A valid JavaScript identifier.' },
+        starterCode: { type: Type.STRING, description: 'JavaScript declaring the function with an empty body.' },
+        testCases: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    input: { type: Type.STRING, description: 'A JSON array of the function arguments, in order, such as "[[1, 2], 3]".' },
+                    expected: { type: Type.STRING, description: 'The expected return value as JSON, such as "true" or "\\"abc\\"".' },
+                },
+                required: ['input', 'expected'],
+            },
+        },
+    },
+    required: ['title', 'description', 'functionName', 'starterCode', 'testCases'],
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const readJson: Reader<unknown> = (value, path, problems) => {
+    if (typeof value !== 'string') {
+        problems.push(`${path} must be a string of JSON.`);
+        return undefined;
+    }
+    try {
+        return JSON.parse(value);
+    } catch {
+        problems.push(`${path} is not valid JSON.`);
+        return undefined;
+    }
+};
+
+const readTestCase = readObject<CodingTestCase>((record, path, problems) => {
+    const input = readJson(record.input, `${path}.input`, problems);
+    if (input !== undefined && !Array.isArray(input)) problems.push(`${path}.input must be a JSON array.`);
+    return {
+        input: Array.isArray(input) ? input : [],
+        expected: readJson(record.expected, `${path}.expected`, problems),
+    };
+});
+
+// Check model output for a problem the test runner can use: a callable
+// function name that the starter code declares, and at least one test.
+export const parseCodingProblem = (text: string | undefined): { problem: CodingProblem } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const problem = readObject<CodingProblem>((record, path, found) => ({
+            title: readString(record.title, `${path}.title`, found),
+            description: readString(record.description, `${path}.description`, found),
+            functionName: readString(record.functionName, `${path}.functionName`, found),
+            starterCode: readString(record.starterCode, `${path}.starterCode`, found),
+            testCases: present(readArray(readTestCase)(record.testCases, `${path}.testCases`, found)),
+        }))(value, 'problem', problems);
+        if (problem && problems.length === 0) {
+            if (!IDENTIFIER.test(problem.functionName)) problems.push('problem.functionName must be a valid identifier.');
+            else if (!problem.starterCode.includes(problem.functionName)) problems.push('problem.starterCode must declare problem.functionName.');
+            if (problem.testCases.length === 0) problems.push('problem.testCases must not be empty.');
+        }
+        return problem && problems.length === 0 ? { problem } : { problems };
+    });
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseCoverLetter, parseCoverLetterParagraph } from './coverLetter';
+
+describe('parseCoverLetter', () => {
+    it('returns the letter with blank paragraphs dropped', () => {
+        const text = JSON.stringify({ greeting: ' Dear team, ', paragraphs: ['First.', '  ', 'Second.'], closing: 'Best,' });
+        expect(parseCoverLetter(text)).toEqual({ letter: { greeting: 'Dear team,', paragraphs: ['First.', 'Second.'], closing: 'Best,' } });
+    });
+
+    it('reports a letter without body paragraphs', () => {
+        expect(parseCoverLetter(JSON.stringify({ greeting: 'Hi,', paragraphs: [''], closing: 'Best,' }))).toEqual({
+            problems: ['letter.paragraphs must not be empty.'],
+        });
+    });
+
+    it('reports wrongly typed fields and invalid JSON', () => {
+        expect(parseCoverLetter(JSON.stringify({ greeting: 'Hi,', paragraphs: 'Body', closing: 'Best,' }))).toEqual({
+            problems: ['letter.paragraphs must be an array.'],
+        });
+        expect('problems' in parseCoverLetter('{"greeting":')).toBe(true);
+    });
+});
+
+describe('parseCoverLetterParagraph', () => {
+    it('returns the trimmed paragraph', () => {
+        expect(parseCoverLetterParagraph('{"paragraph":" New text. "}')).toEqual({ paragraph: 'New text.' });
+    });
+
+    it('reports an empty or missing paragraph', () => {
+        expect(parseCoverLetterParagraph('{"paragraph":""}')).toEqual({ problems: ['response.paragraph must not be empty.'] });
+        expect(parseCoverLetterParagraph('{}')).toEqual({ problems: ['response.paragraph must be a string.'] });
+    });
+});
@@ -0,0 +1,113 @@
+import { Schema, Type } from "@google/genai";
+import { CoverLetter, CoverLetterLength, CoverLetterOptions, CoverLetterParagraph, CoverLetterTone, StructuredResume } from "../types";
+import { parseModelJson, readArray, readObject, readString } from "./jsonValidation";
+import { formatContactLine, ResumeBlock } from "./resumeModel";
+
+// A validated letter from generateCoverLetter, before it gets a date and signature.
+export interface GeneratedCoverLetter {
+    greeting: string;
+    paragraphs: string[];
+    closing: string;
+}
+
+export type CoverLetterOutcome =
+    | { status: 'ok'; letter: GeneratedCoverLetter }
+    | { status: 'error'; message: string };
+
+export type CoverLetterParagraphOutcome =
+    | { status: 'ok'; paragraph: string }
+    | { status: 'error'; message: string };
+
+export const COVER_LETTER_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        greeting: { type: Type.STRING, description: 'For example "Dear Hiring Manager,".' },
+        paragraphs: { type: Type.ARRAY, description: 'The body paragraphs, in order.', items: { type: Type.STRING } },
+        closing: { type: Type.STRING, description: 'For example "Sincerely,".' },
+    },
+    required: ['greeting', 'paragraphs', 'closing'],
+};
+
+export const COVER_LETTER_PARAGRAPH_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        paragraph: { type: Type.STRING },
+    },
+    required: ['paragraph'],
+};
+
+export const COVER_LETTER_TONES: Record<CoverLetterTone, { label: string; instruction: string }> = {
+    professional: { label: 'Professional', instruction: 'formal and polished, without stiff clichés' },
+    enthusiastic: { label: 'Enthusiastic', instruction: 'warm and energetic, showing genuine excitement about the role' },
+    conversational: { label: 'Conversational', instruction: 'friendly and natural, as if written to a person rather than a committee' },
+    confident: { label: 'Confident', instruction: 'direct and assured, leading with results' },
+};
+
+export const COVER_LETTER_LENGTHS: Record<CoverLetterLength, { label: string; paragraphs: number; words: string }> = {
+    short: { label: 'Short', paragraphs: 3, words: '150 to 200' },
+    standard: { label: 'Standard', paragraphs: 4, words: '250 to 350' },
+    detailed: { label: 'Detailed', paragraphs: 5, words: '350 to 450' },
+};
+
+export const DEFAULT_COVER_LETTER_OPTIONS: CoverLetterOptions = {
+    tone: 'professional',
+    length: 'standard',
+    companyName: '',
+    hooks: '',
+};
+
+export const createCoverLetterParagraph = (text = ''): CoverLetterParagraph => ({ id: crypto.randomUUID(), text });
+
+export const createCoverLetter = (generated: GeneratedCoverLetter, signature: string): CoverLetter => ({
+    date: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    greeting: generated.greeting || 'Dear Hiring Manager,',
+    paragraphs: generated.paragraphs.map(text => createCoverLetterParagraph(text)),
+    closing: generated.closing || 'Sincerely,',
+    signature,
+});
+
+// Check model output for a letter with at least one non-empty paragraph.
+export const parseCoverLetter = (text: string | undefined): { letter: GeneratedCoverLetter } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const letter = readObject<GeneratedCoverLetter>((record, path, found) => ({
+            greeting: readString(record.greeting, `${path}.greeting`, found),
+            paragraphs: readArray(readString)(record.paragraphs, `${path}.paragraphs`, found).filter(Boolean),
+            closing: readString(record.closing, `${path}.closing`, found),
+        }))(value, 'letter', problems);
+        if (letter && letter.paragraphs.length === 0 && problems.length === 0) problems.push('letter.paragraphs must not be empty.');
+        return letter && problems.length === 0 ? { letter } : { problems };
+    });
+
+export const parseCoverLetterParagraph = (text: string | undefined): { paragraph: string } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const paragraph = readObject((record, path, found) => readString(record.paragraph, `${path}.paragraph`, found))(value, 'response', problems);
+        if (paragraph === '' && problems.length === 0) problems.push('response.paragraph must not be empty.');
+        return paragraph && problems.length === 0 ? { paragraph } : { problems };
+    });
+
+// The letter in the block shape the resume exporters render. The header
+// repeats the resume's name and contact line so both documents match.
+export const coverLetterToBlocks = (letter: CoverLetter, header: StructuredResume | null): ResumeBlock[] => {
+    const blocks: ResumeBlock[] = [];
+    const name = header?.contact.name.trim();
+    const contact = header ? formatContactLine(header) : '';
+    if (name) blocks.push({ kind: 'name', text: name });
+    if (contact) blocks.push({ kind: 'contact', text: contact });
+    const lines = [letter.date, letter.greeting, ...letter.paragraphs.map(paragraph => paragraph.text), letter.closing, letter.signature];
+    for (const line of lines) {
+        if (line.trim()) blocks.push({ kind: 'paragraph', text: line.trim() });
+    }
+    return blocks;
+};
+
+export const coverLetterToPlainText = (letter: CoverLetter): string =>
+    [letter.date, letter.greeting, ...letter.paragraphs.map(paragraph => paragraph.text), letter.closing, letter.signature]
+        .map(line => line.trim())
+        .filter(Boolean)
+        .join('\n\n');
+
+// The letter as prompt text, with paragraphs numbered so one can be replaced.
+export const coverLetterToPromptText = (letter: CoverLetter): string =>
+    [letter.greeting, ...letter.paragraphs.map((paragraph, index) => `[P${index + 1}] ${paragraph.text}`), letter.closing].join('\n\n');
@@ -0,0 +1,76 @@
+import { DeliveryMetrics, ResponsePause, TranscriptEntry } from "../types";
+import { countWords } from "./textAnalysis";
+
+// "like" is only counted when set off by commas ("it was, like, fine") so that
+// ordinary uses such as "I'd like to" are not reported as fillers.
+const FILLER_PATTERNS: Record<string, RegExp> = {
+    'um': /\b(um+|umm+)\b/g,
+    'uh': /\b(uh+|er+m?)\b/g,
+    'like': /(,\s*like\b|\blike\s*,)/g,
+    'you know': /\byou know\b/g,
+    'I mean': /\bi mean\b/g,
+    'basically': /\bbasically\b/g,
+    'actually': /\bactually\b/g,
+    'literally': /\bliterally\b/g,
+    'sort of': /\bsort of\b/g,
+    'kind of': /\bkind of\b/g,
+};
+
+const LONGEST_PAUSE_COUNT = 3;
+
+const hasTiming = (entry: TranscriptEntry): entry is TranscriptEntry & { startMs: number; endMs: number } =>
+    entry.startMs !== undefined && entry.endMs !== undefined && entry.endMs > entry.startMs;
+
+// Compute speaking metrics for the candidate from the transcript and turn
+// timing alone, without any model calls.
+export const computeDeliveryMetrics = (transcripts: TranscriptEntry[]): DeliveryMetrics => {
+    const answers = transcripts.filter(entry => entry.speaker === 'user');
+    const questions = transcripts.filter(entry => entry.speaker === 'model');
+    const totalWords = answers.reduce((sum, entry) => sum + countWords(entry.text), 0);
+
+    const fillerCounts: Record<string, number> = {};
+    let totalFillers = 0;
+    for (const [filler, pattern] of Object.entries(FILLER_PATTERNS)) {
+        const count = answers.reduce((sum, entry) => sum + (entry.text.toLowerCase().match(pattern)?.length ?? 0), 0);
+        if (count > 0) {
+            fillerCounts[filler] = count;
+            totalFillers += count;
+        }
+    }
+
+    const timedAnswers = answers.filter(hasTiming);
+    const answerMs = timedAnswers.reduce((sum, entry) => sum + (entry.endMs - entry.startMs), 0);
+    const timedWords = timedAnswers.reduce((sum, entry) => sum + countWords(entry.text), 0);
+
+    // Only answers whose start was detected in the audio count; the estimated
+    // start of the others would make up the pause.
+    const pauses: ResponsePause[] = [];
+    for (let i = 1; i < transcripts.length; i++) {
+        const previous = transcripts[i - 1];
+        const current = transcripts[i];
+        if (previous.speaker === 'model' && current.speaker === 'user' && hasTiming(previous) && current.speechStartMs !== undefined) {
+            pauses.push({ afterText: previous.text, durationMs: Math.max(0, current.speechStartMs - previous.endMs) });
+        }
+    }
+    pauses.sort((a, b) => b.durationMs - a.durationMs);
+
+    // Prefer measured speaking time for the talk ratio; fall back to word counts.
+    const questionMs = questions.filter(hasTiming).reduce((sum, entry) => sum + (entry.endMs - entry.startMs), 0);
+    const questionWords = questions.reduce((sum, entry) => sum + countWords(entry.text), 0);
+    const candidateTalkShare = answerMs > 0 && questionMs > 0
+        ? answerMs / (answerMs + questionMs)
+        : totalWords / Math.max(1, totalWords + questionWords);
+
+    return {
+        answerCount: answers.length,
+        totalWords,
+        wordsPerMinute: answerMs > 0 ? Math.round(timedWords / (answerMs / 60000)) : undefined,
+        fillerCounts,
+        totalFillers,
+        fillersPerHundredWords: totalWords > 0 ? (totalFillers / totalWords) * 100 : 0,
+        longestPauses: pauses.slice(0, LONGEST_PAUSE_COUNT),
+        averageAnswerWords: answers.length > 0 ? Math.round(totalWords / answers.length) : 0,
+        averageAnswerSeconds: timedAnswers.length > 0 ? answerMs / timedAnswers.length / 1000 : undefined,
+        candidateTalkShare,
+    };
+};
@@ -1,6 +1,48 @@
 
 import { GoogleGenAI, GenerateContentResponse, Chat, GroundingChunk, GenerateVideosOperation, Modality } from "@google/genai";
-import { fileToBase64 } from "../utils";
+import { fileToBase64, formatTranscriptForPrompt } from "../utils";
+import {
+    CodingSubmission,
+    CompletedLoopRound,
+    CoverLetter,
+    CoverLetterOptions,
+    InterviewConfig,
+    InterviewDifficulty,
+    InterviewerNotes,
+    TranscriptEntry,
+} from "../types";
+import { CODING_PROBLEM_SCHEMA, CodingProblemOutcome, parseCodingProblem } from "./codingProblem";
+import {
+    COVER_LETTER_LENGTHS,
+    COVER_LETTER_PARAGRAPH_SCHEMA,
+    COVER_LETTER_SCHEMA,
+    COVER_LETTER_TONES,
+    CoverLetterOutcome,
+    CoverLetterParagraphOutcome,
+    coverLetterToPromptText,
+    parseCoverLetter,
+    parseCoverLetterParagraph,
+} from "./coverLetter";
+import { INTERVIEW_FEEDBACK_SCHEMA, InterviewFeedbackOutcome, parseInterviewFeedback } from "./interviewFeedback";
+import {
+    LOOP_DEBRIEF_SCHEMA,
+    LoopDebriefOutcome,
+    parseLoopDebrief,
+    parseRoundHandoff,
+    ROUND_HANDOFF_SCHEMA,
+    RoundHandoffOutcome,
+} from "./interviewLoop";
+import { JOB_DESCRIPTION_SCHEMA, JobDescriptionOutcome, parseGeneratedJobDescription } from "./jobDescription";
+import {
+    buildInterviewSystemInstruction,
+    formatTestResults,
+    INTERVIEW_DIFFICULTIES,
+    INTERVIEW_TYPES,
+    InterviewPromptContext,
+} from "./interviewConfig";
+import { parsePresenceFeedback, PRESENCE_FEEDBACK_SCHEMA, PresenceFeedbackOutcome } from "./presenceFeedback";
+import { parseQuestionPlan, QUESTION_PLAN_SCHEMA, QuestionPlanOutcome } from "./questionPlan";
+import { buildResumeAnalysisSchema, parseResumeAnalysis, ResumeAnalysisOutcome } from "./resumeAnalysis";
 
 const getApiKey = () => {
     const key = process.env.API_KEY;
@@ -21,6 +63,20 @@ export const createChatSession = (): Chat => {
     return ai.chats.create({ model: 'gemini-2.5-flash' });
 };
 
+// Typed interview, for users without a microphone.
+export const createInterviewChatSession = (
+    jobRole: string,
+    jobDescription: string,
+    config: InterviewConfig,
+    context?: InterviewPromptContext
+): Chat => {
+    const ai = getAIClient();
+    return ai.chats.create({
+        model: 'gemini-2.5-flash',
+        config: { systemInstruction: buildInterviewSystemInstruction(jobRole, jobDescription, config, context) },
+    });
+};
+
 export const streamChatResponse = async (chat: Chat, message: string, useGrounding: boolean) => {
     const ai = getAIClient();
     if (useGrounding) {
@@ -37,16 +93,64 @@ export const streamChatResponse = async (chat: Chat, message: string, useGroundi
     return chat.sendMessageStream({ message });
 };
 
+// Structured requirements from a job description, shared by every tab
+export const parseJobDescription = async (jdText: string): Promise<JobDescriptionOutcome> => {
+    const ai = getAIClient();
+    const prompt = `Extract the structured details of the job description below:
+    1.  The job title, the company and the seniority level.
+    2.  The must-have skills and the nice-to-have skills, each as a short phrase such as "Kubernetes" or "5+ years of Python". Treat anything listed as preferred, a bonus or a plus as nice-to-have.
+    3.  The main responsibilities.
+    4.  The location, whether the role is on-site, hybrid or remote, and the compensation if stated.
+    Only use what the posting says; leave a field empty rather than guessing.
+
+    --- JOB DESCRIPTION ---
+    ${jdText}
+    `;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: JOB_DESCRIPTION_SCHEMA,
+            },
+        });
+        const parsed = parseGeneratedJobDescription(response.text);
+        if ('details' in parsed) {
+            return { status: 'ok', details: parsed.details };
+        }
+        console.error("Job description failed validation:", parsed.problems);
+        return { status: 'error', message: "The job description came back in an unexpected format. Please try again." };
+    } catch (error) {
+        console.error("Error parsing job description:", error);
+        return { status: 'error', message: "Failed to parse the job description. Please try again." };
+    }
+};
+
 // Resume Analysis (Complex Task)
-export const analyzeResumeWithJd = async (resumeText: string, jdText: string): Promise<string> => {
+// A structured resume is sent with each line tagged by a reference such as
+// [E1.B2], so the model can also return suggestions for specific lines.
+// The response is constrained by a schema and validated; output that still
+// fails validation gets one repair pass before an error is reported.
+export const analyzeResumeWithJd = async (resumeText: string, jdText: string, isStructured = false): Promise<ResumeAnalysisOutcome> => {
     const ai = getAIClient();
+    const responseSchema = buildResumeAnalysisSchema(isStructured);
+    const structuredInstruction = isStructured
+        ? `
+    8.  Targeted suggestions for the specific lines that most need work. Each resume line starts with a reference in square brackets, such as [SUMMARY] or [E1.B2]. Give the reference without brackets and what to change, with an improved version of the line.`
+        : '';
+    const rewriteTarget = isStructured
+        ? 'Only rewrite the summary and bullet lines, and give the reference of each line without brackets.'
+        : 'Only rewrite lines that appear in the resume as a single line.';
     const prompt = `Analyze the following resume against the job description. Provide a detailed analysis including:
-    1.  An overall ATS-friendliness score (out of 100).
-    2.  A list of key skills and keywords missing from the resume that are present in the job description.
-    3.  Suggestions for improving the summary/objective section.
-    4.  Actionable advice on how to better tailor the experience section to the job description.
-    
-    Format the output as a JSON object with keys: "score", "missingKeywords", "summarySuggestion", "experienceAdvice".
+    1.  An overall ATS-friendliness score (0 to 100).
+    2.  A score (0 to 100) and a one-sentence comment for each section present in the resume.
+    3.  The key skills and keywords from the job description that the resume covers, and those it is missing. Mark each as "required", "preferred" or "nice_to_have" based on how the job description treats it.
+    4.  Suggestions for improving the summary/objective section.
+    5.  Actionable advice on how to better tailor the experience section to the job description.
+    6.  Formatting issues that could trip up an ATS or a recruiter (tables, columns, missing dates, inconsistent formatting, overly long bullets), each with a severity and a fix. Return an empty list if there are none.
+    7.  Up to 8 concrete rewrites of individual resume lines that would most improve the match: stronger action verbs, quantified results, and missing job description keywords where the candidate's experience supports them. Copy the original line exactly, without its bullet marker. Keep each rewrite truthful to the original and about the same length. ${rewriteTarget}${structuredInstruction}
 
     --- RESUME ---
     ${resumeText}
@@ -55,22 +159,412 @@ export const analyzeResumeWithJd = async (resumeText: string, jdText: string): P
     ${jdText}
     `;
 
+    let responseText: string | undefined;
     try {
         const response = await ai.models.generateContent({
             model: 'gemini-2.5-pro',
             contents: prompt,
             config: {
                 thinkingConfig: { thinkingBudget: 32768 },
-                responseMimeType: 'application/json'
+                responseMimeType: 'application/json',
+                responseSchema,
             },
         });
-        return response.text;
+        responseText = response.text;
     } catch (error) {
         console.error("Error analyzing resume:", error);
-        return JSON.stringify({ error: "Failed to analyze resume. Please try again." });
+        return { status: 'error', message: "Failed to analyze resume. Please check your connection and try again." };
+    }
+
+    const parsed = parseResumeAnalysis(responseText, isStructured);
+    if ('analysis' in parsed) {
+        return { status: 'ok', analysis: parsed.analysis };
+    }
+
+    console.warn("Resume analysis failed validation, attempting repair:", parsed.problems);
+    try {
+        const repairPrompt = `The JSON below was meant to be a resume analysis, but it failed validation with these problems:
+    ${parsed.problems.map(problem => `- ${problem}`).join('\n    ')}
+
+    Return corrected JSON that fixes every problem and matches the response schema. Keep the original content wherever it is valid; do not invent a new analysis.
+
+    --- JSON ---
+    ${responseText ?? ''}
+    `;
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: repairPrompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema,
+            },
+        });
+        const repaired = parseResumeAnalysis(response.text, isStructured);
+        if ('analysis' in repaired) {
+            return { status: 'ok', analysis: repaired.analysis };
+        }
+        console.error("Repaired resume analysis is still invalid:", repaired.problems);
+    } catch (error) {
+        console.error("Error repairing resume analysis:", error);
+    }
+    return { status: 'error', message: "The analysis came back in an unexpected format and could not be repaired. Please try again." };
+};
+
+// Cover letter tailored to the resume and job description
+const coverLetterStyle = (options: CoverLetterOptions): string => {
+    const company = options.companyName.trim();
+    const hooks = options.hooks.trim();
+    return [
+        `The tone should be ${COVER_LETTER_TONES[options.tone].instruction}.`,
+        company ? `The company is ${company}; address the letter to its hiring team.` : '',
+        hooks ? `Work in these company-specific details naturally, to show why the candidate wants this company in particular: ${hooks}` : '',
+    ].filter(Boolean).join('\n    ');
+};
+
+export const generateCoverLetter = async (
+    resumeText: string,
+    jdText: string,
+    options: CoverLetterOptions
+): Promise<CoverLetterOutcome> => {
+    const ai = getAIClient();
+    const length = COVER_LETTER_LENGTHS[options.length];
+    const prompt = `Write a cover letter for the candidate whose resume is below, applying for the job described below.
+    1.  Open with why the candidate is applying and the strongest reason they fit the role.
+    2.  In the body, connect two or three specific achievements from the resume to the main requirements of the job description, using its keywords where they are true of the candidate.
+    3.  Close with a short call to action.
+    Use ${length.paragraphs} body paragraphs and ${length.words} words in total. Only claim experience the resume supports, and do not use placeholders such as [Company].
+    ${coverLetterStyle(options)}
+
+    --- RESUME ---
+    ${resumeText}
+
+    --- JOB DESCRIPTION ---
+    ${jdText}
+    `;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-pro',
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: COVER_LETTER_SCHEMA,
+            },
+        });
+        const parsed = parseCoverLetter(response.text);
+        if ('letter' in parsed) {
+            return { status: 'ok', letter: parsed.letter };
+        }
+        console.error("Cover letter failed validation:", parsed.problems);
+        return { status: 'error', message: "The cover letter came back in an unexpected format. Please try again." };
+    } catch (error) {
+        console.error("Error generating cover letter:", error);
+        return { status: 'error', message: "Failed to generate a cover letter. Please try again." };
+    }
+};
+
+export const regenerateCoverLetterParagraph = async (
+    letter: CoverLetter,
+    paragraphIndex: number,
+    resumeText: string,
+    jdText: string,
+    options: CoverLetterOptions
+): Promise<CoverLetterParagraphOutcome> => {
+    const ai = getAIClient();
+    const prompt = `Below is a cover letter with its body paragraphs numbered. Rewrite paragraph [P${paragraphIndex + 1}] only, with a fresh angle, so it still flows with the paragraphs around it and does not repeat them. Keep it about the same length and only claim experience the resume supports.
+    ${coverLetterStyle(options)}
+
+    --- COVER LETTER ---
+    ${coverLetterToPromptText(letter)}
+
+    --- RESUME ---
+    ${resumeText}
+
+    --- JOB DESCRIPTION ---
+    ${jdText}
+    `;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: COVER_LETTER_PARAGRAPH_SCHEMA,
+            },
+        });
+        const parsed = parseCoverLetterParagraph(response.text);
+        if ('paragraph' in parsed) {
+            return { status: 'ok', paragraph: parsed.paragraph };
+        }
+        console.error("Cover letter paragraph failed validation:", parsed.problems);
+        return { status: 'error', message: "The new paragraph came back in an unexpected format. Please try again." };
+    } catch (error) {
+        console.error("Error regenerating cover letter paragraph:", error);
+        return { status: 'error', message: "Failed to rewrite this paragraph. Please try again." };
     }
 };
 
+// Interview Feedback (Complex Task)
+export const generateInterviewFeedback = async (
+    transcript: TranscriptEntry[],
+    jobRole: string,
+    jobDescription: string,
+    coding?: CodingSubmission,
+    interviewerNotes?: InterviewerNotes
+): Promise<InterviewFeedbackOutcome> => {
+    const ai = getAIClient();
+    const transcriptText = formatTranscriptForPrompt(transcript);
+    const notesSection = interviewerNotes && interviewerNotes.scores.length > 0 ? `
+    --- INTERVIEWER'S LIVE SCORES ---
+    ${interviewerNotes.scores.map(entry => `- ${entry.question} (${entry.score}/5): ${entry.rationale}`).join('\n    ')}
+    The interviewer scored these answers while the interview ran. Keep your rubric scores consistent with them unless the transcript clearly shows otherwise.
+    ` : '';
+    const codingSection = coding ? `
+    --- CODING EXERCISE ---
+    Problem: ${coding.problem.title}
+    Final ${coding.language} code:
+    ${coding.code}
+    ${coding.results ? formatTestResults(coding.results) : 'The tests were never run.'}
+    Take the correctness, quality and test results of this code into account when scoring.
+    ` : '';
+    const prompt = `You are an experienced hiring manager reviewing a mock interview for a '${jobRole}' position. Evaluate the candidate's performance and provide:
+    1.  An overall score (out of 100).
+    2.  An overall hire signal, one of "strong_hire", "hire", "no_hire", "strong_no_hire".
+    3.  A short summary of the candidate's performance.
+    4.  A list of strengths and a list of gaps.
+    5.  For every question the interviewer asked, the candidate's answer scored from 1 to 5 on each rubric dimension: relevance, depth, structure, communication. Add a short comment and an improved sample answer the candidate could have given.
+
+    --- JOB DESCRIPTION ---
+    ${jobDescription}
+
+    --- TRANSCRIPT ---
+    ${transcriptText}
+    ${codingSection}${notesSection}`;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-pro',
+            contents: prompt,
+            config: {
+                thinkingConfig: { thinkingBudget: 32768 },
+                responseMimeType: 'application/json',
+                responseSchema: INTERVIEW_FEEDBACK_SCHEMA,
+            },
+        });
+        const parsed = parseInterviewFeedback(response.text);
+        if ('feedback' in parsed) {
+            return { status: 'ok', feedback: parsed.feedback };
+        }
+        console.error("Interview feedback failed validation:", parsed.problems);
+        return { status: 'error', message: "The feedback report came back in an unexpected format. Please try again." };
+    } catch (error) {
+        console.error("Error generating interview feedback:", error);
+        return { status: 'error', message: "Failed to generate interview feedback. Please try again." };
+    }
+};
+
+// Handoff notes from one round of an interview loop for the next interviewer
+export const summarizeInterviewRound = async (
+    transcript: TranscriptEntry[],
+    jobRole: string,
+    roundName: string
+): Promise<RoundHandoffOutcome> => {
+    const ai = getAIClient();
+    const prompt = `You ran the ${roundName} round of a hiring loop for a '${jobRole}' position. Write handoff notes for the interviewers of the next rounds:
+    1.  A summary of the candidate's performance in two or three sentences.
+    2.  A list of weak spots or open questions that later rounds should probe.
+
+    --- TRANSCRIPT ---
+    ${formatTranscriptForPrompt(transcript)}
+    `;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: ROUND_HANDOFF_SCHEMA,
+            },
+        });
+        const parsed = parseRoundHandoff(response.text);
+        if ('handoff' in parsed) {
+            return { status: 'ok', handoff: parsed.handoff };
+        }
+        console.error("Round summary failed validation:", parsed.problems);
+        return { status: 'error', message: "The round summary came back in an unexpected format." };
+    } catch (error) {
+        console.error("Error summarizing interview round:", error);
+        return { status: 'error', message: "Failed to summarize this round." };
+    }
+};
+
+// Combined debrief across every round of an interview loop (Complex Task)
+export const generateLoopDebrief = async (
+    rounds: CompletedLoopRound[],
+    jobRole: string,
+    jobDescription: string
+): Promise<LoopDebriefOutcome> => {
+    const ai = getAIClient();
+    const roundsText = rounds.map(round => {
+        const scores = round.interviewerNotes?.scores ?? [];
+        return [
+            `=== ROUND: ${round.roundName} ===`,
+            formatTranscriptForPrompt(round.transcripts),
+            ...(scores.length > 0
+                ? ['Interviewer scores:', ...scores.map(entry => `- ${entry.question} (${entry.score}/5): ${entry.rationale}`)]
+                : []),
+        ].join('\n');
+    }).join('\n\n');
+    const prompt = `You are chairing the hiring debrief for a '${jobRole}' candidate who has completed a loop of ${rounds.length} interview rounds. Weigh the evidence from every round and provide:
+    1.  An overall score (out of 100).
+    2.  An overall hire signal, one of "strong_hire", "hire", "no_hire", "strong_no_hire".
+    3.  A short summary of the decision and how the rounds support it.
+    4.  For each round, its name, its own hire signal and a one-sentence summary.
+    5.  A list of strengths and a list of gaps seen across the loop.
+
+    --- JOB DESCRIPTION ---
+    ${jobDescription}
+
+    --- ROUNDS ---
+    ${roundsText}
+    `;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-pro',
+            contents: prompt,
+            config: {
+                thinkingConfig: { thinkingBudget: 32768 },
+                responseMimeType: 'application/json',
+                responseSchema: LOOP_DEBRIEF_SCHEMA,
+            },
+        });
+        const parsed = parseLoopDebrief(response.text);
+        if ('debrief' in parsed) {
+            return { status: 'ok', debrief: parsed.debrief };
+        }
+        console.error("Loop debrief failed validation:", parsed.problems);
+        return { status: 'error', message: "The loop debrief came back in an unexpected format. Please try again." };
+    } catch (error) {
+        console.error("Error generating loop debrief:", error);
+        return { status: 'error', message: "Failed to generate the loop debrief. Please try again." };
+    }
+};
+
+// On-camera presence feedback from webcam snapshots taken during an interview
+export const analyzeVideoPresence = async (snapshots: string[], jobRole: string): Promise<PresenceFeedbackOutcome> => {
+    const ai = getAIClient();
+    const prompt = `These images are webcam snapshots taken at regular intervals during a mock video interview for a '${jobRole}' position. Evaluate the candidate's on-camera presence and provide:
+    1.  Eye contact: whether they look at the camera rather than away or down.
+    2.  Framing: head and shoulders centred, camera at eye level, appropriate distance.
+    3.  Lighting: face evenly lit, no strong backlight or shadows.
+    4.  Posture: upright, open, steady.
+    Score each from 1 to 5 with a short comment, and give a few concrete tips.`;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: {
+                parts: [
+                    ...snapshots.map(data => ({ inlineData: { data, mimeType: 'image/jpeg' } })),
+                    { text: prompt },
+                ],
+            },
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: PRESENCE_FEEDBACK_SCHEMA,
+            },
+        });
+        const parsed = parsePresenceFeedback(response.text);
+        if ('feedback' in parsed) {
+            return { status: 'ok', feedback: parsed.feedback };
+        }
+        console.error("Presence feedback failed validation:", parsed.problems);
+        return { status: 'error', message: "The presence report came back in an unexpected format. Please try again." };
+    } catch (error) {
+        console.error("Error analyzing video presence:", error);
+        return { status: 'error', message: "Failed to analyze your on-camera presence. Please try again." };
+    }
+};
+
+// Coding problem for a live coding interview
+export const generateCodingProblem = async (
+    jobRole: string,
+    jobDescription: string,
+    difficulty: InterviewDifficulty
+): Promise<CodingProblemOutcome> => {
+    const ai = getAIClient();
+    const prompt = `Create one coding interview problem for a '${jobRole}' candidate at ${INTERVIEW_DIFFICULTIES[difficulty].label} level. Pick a problem that relates to the job description where possible and can be solved in about 30 minutes.
+    Provide:
+    1.  A short title and a problem description with examples.
+    2.  The name of the function the candidate must implement.
+    3.  JavaScript starter code declaring that function with an empty body.
+    4.  Between 4 and 8 test cases, including edge cases. Each test case lists the function arguments in order and the expected return value. Arguments and return values must be plain JSON values.
+
+    --- JOB DESCRIPTION ---
+    ${jobDescription}
+    `;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: CODING_PROBLEM_SCHEMA,
+            },
+        });
+        const parsed = parseCodingProblem(response.text);
+        if ('problem' in parsed) {
+            return { status: 'ok', problem: parsed.problem };
+        }
+        console.error("Coding problem failed validation:", parsed.problems);
+        return { status: 'error', message: "The coding problem came back in an unexpected format. Please try again." };
+    } catch (error) {
+        console.error("Error generating coding problem:", error);
+        return { status: 'error', message: "Failed to generate a coding problem. Please try again." };
+    }
+};
+
+// Question plan for an interview, derived from the job description
+export const generateQuestionPlan = async (
+    jobRole: string,
+    jobDescription: string,
+    config: InterviewConfig
+): Promise<QuestionPlanOutcome> => {
+    const ai = getAIClient();
+    const prompt = `You are preparing a structured ${INTERVIEW_TYPES[config.type].label.toLowerCase()} interview for a '${jobRole}' position at ${INTERVIEW_DIFFICULTIES[config.difficulty].label} level. From the job description, identify the competencies that matter most for the role and plan ${config.questionCount} main questions in total, spread across those competencies.
+    For each competency provide:
+    1.  A short name.
+    2.  The signals a strong answer should demonstrate.
+    3.  The questions to ask, worded as the interviewer would say them.
+
+    --- JOB DESCRIPTION ---
+    ${jobDescription}
+    `;
+
+    try {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: QUESTION_PLAN_SCHEMA,
+            },
+        });
+        const parsed = parseQuestionPlan(response.text);
+        if ('plan' in parsed) {
+            return { status: 'ok', plan: parsed.plan };
+        }
+        console.error("Question plan failed validation:", parsed.problems);
+        return { status: 'error', message: "The question plan came back in an unexpected format. Please try again." };
+    } catch (error) {
+        console.error("Error generating question plan:", error);
+        return { status: 'error', message: "Failed to generate a question plan. Please try again." };
+    }
+};
 
 // Image Generation
 export const generateImage = async (prompt: string, aspectRatio: string): Promise<string> => {
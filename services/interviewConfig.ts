@@ -0,0 +1,195 @@
+import {
+    CodingProblem,
+    InterviewConfig,
+    InterviewDifficulty,
+    InterviewerPersona,
+    InterviewMode,
+    InterviewRealism,
+    InterviewType,
+    InterviewVoice,
+    QuestionPlan,
+    TestCaseResult,
+    TranscriptEntry,
+} from "../types";
+import { formatTranscriptForPrompt } from "../utils";
+import { ActiveRound, formatPriorRounds } from "./interviewLoop";
+import { askableQuestions } from "./questionPlan";
+
+export const DEFAULT_INTERVIEW_CONFIG: InterviewConfig = {
+    mode: 'voice',
+    type: 'behavioral',
+    difficulty: 'mid',
+    questionCount: 5,
+    persona: 'neutral',
+    voice: 'Zephyr',
+    useCamera: false,
+    pushToTalk: false,
+    realism: 'practice',
+};
+
+export const INTERVIEW_MODES: Record<InterviewMode, { label: string }> = {
+    voice: { label: 'Voice' },
+    text: { label: 'Text Chat' },
+};
+
+export const INTERVIEW_REALISM: Record<InterviewRealism, { label: string }> = {
+    practice: { label: 'Practice (live coaching hints)' },
+    realistic: { label: 'Realistic (no hints)' },
+};
+
+// Sessions saved before a setting existed fall back to its default.
+export const withConfigDefaults = (config?: Partial<InterviewConfig>): InterviewConfig => ({
+    ...DEFAULT_INTERVIEW_CONFIG,
+    ...config,
+});
+
+export const INTERVIEW_TYPES: Record<InterviewType, { label: string; instruction: string }> = {
+    behavioral: {
+        label: 'Behavioral',
+        instruction: 'Focus on behavioral questions about past experiences. Probe for the situation, the task, the actions the candidate personally took and the measurable result.',
+    },
+    technical: {
+        label: 'Technical Deep-Dive',
+        instruction: 'Focus on technical depth in the skills listed in the job description. Start from fundamentals and drill into trade-offs, edge cases and real-world debugging.',
+    },
+    coding: {
+        label: 'Live Coding',
+        instruction: 'Run a live coding interview around the problem below. Present it, clarify requirements, discuss the approach and its complexity, and comment on the code as it evolves. The candidate types in an editor you cannot see directly; you receive snapshots of their code and test results as messages. Give hints when they are stuck, but never write the solution for them.',
+    },
+    system_design: {
+        label: 'System Design',
+        instruction: 'Run a system design interview. Pose one open-ended design problem relevant to the role, then guide the candidate through requirements, high-level architecture, data modelling, scaling and failure modes.',
+    },
+    hr_screen: {
+        label: 'HR Screen',
+        instruction: 'Run a recruiter phone screen. Cover motivation for the role, career history, availability, salary expectations and culture fit. Keep questions light and conversational.',
+    },
+    case: {
+        label: 'Case Interview',
+        instruction: 'Run a case interview. Present a business problem relevant to the role and ask the candidate to structure it, make assumptions explicit, estimate numbers and give a recommendation.',
+    },
+};
+
+export const INTERVIEW_DIFFICULTIES: Record<InterviewDifficulty, { label: string; instruction: string }> = {
+    junior: {
+        label: 'Junior',
+        instruction: 'Calibrate questions for an entry-level candidate. Accept textbook answers and offer hints when the candidate gets stuck.',
+    },
+    mid: {
+        label: 'Mid-Level',
+        instruction: 'Calibrate questions for a mid-level candidate with a few years of experience who works independently on well-defined problems.',
+    },
+    senior: {
+        label: 'Senior',
+        instruction: 'Calibrate questions for a senior candidate. Expect ownership of ambiguous problems, sound trade-off reasoning and influence beyond their own work.',
+    },
+    staff: {
+        label: 'Staff / Principal',
+        instruction: 'Calibrate questions for a staff-level candidate. Expect organisation-wide impact, long-term technical strategy and the ability to defend decisions under scrutiny.',
+    },
+};
+
+export const INTERVIEWER_PERSONAS: Record<InterviewerPersona, { label: string; instruction: string }> = {
+    friendly: {
+        label: 'Friendly',
+        instruction: 'Be warm and encouraging. Acknowledge good points and help the candidate relax.',
+    },
+    neutral: {
+        label: 'Neutral',
+        instruction: 'Be professional and neutral. Do not signal whether answers are good or bad.',
+    },
+    bar_raiser: {
+        label: 'Adversarial Bar-Raiser',
+        instruction: 'Act as a demanding bar-raiser. Challenge vague claims, interrupt rambling answers, ask pointed follow-ups and push back on weak reasoning, while staying respectful.',
+    },
+};
+
+export const INTERVIEW_VOICES: InterviewVoice[] = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus'];
+
+export const QUESTION_COUNT_OPTIONS = [3, 5, 8, 10];
+
+// Optional material prepared before the interview starts.
+export interface InterviewPromptContext {
+    codingProblem?: CodingProblem | null;
+    questionPlan?: QuestionPlan | null;
+    round?: ActiveRound | null;
+}
+
+// Build the live session system prompt from the job details and interview setup.
+export const buildInterviewSystemInstruction = (
+    jobRole: string,
+    jobDescription: string,
+    config: InterviewConfig,
+    { codingProblem, questionPlan, round }: InterviewPromptContext = {}
+): string => [
+    `You are a professional interviewer conducting a ${INTERVIEW_TYPES[config.type].label.toLowerCase()} interview for a '${jobRole}' position.`,
+    `The job description is: '${jobDescription}'.`,
+    INTERVIEW_TYPES[config.type].instruction,
+    INTERVIEW_DIFFICULTIES[config.difficulty].instruction,
+    INTERVIEWER_PERSONAS[config.persona].instruction,
+    questionPlan
+        ? 'Work through the question plan below, one question at a time, with follow-ups where useful. Ask each planned question close to its written wording. After the last planned question, thank the candidate and close the interview.'
+        : `Ask ${config.questionCount} main questions in total, one at a time, with follow-ups where useful. After the last question, thank the candidate and close the interview.`,
+    'Keep your responses concise and conversational. Start by introducing yourself and then ask the first question.',
+    ...(config.mode === 'voice'
+        ? ['You have tools for taking notes. Before each main question, call next_question with its topic. After each main answer, call record_answer_score. Never mention these tools or your scores to the candidate. Once you have closed the interview, call end_interview.']
+        : []),
+    ...(config.mode === 'voice' && config.useCamera
+        ? ['You will periodically receive webcam frames of the candidate. You may react naturally to what you see, such as a distracted look or a visible whiteboard sketch, but do not comment on their appearance constantly.']
+        : []),
+    ...(config.mode === 'text'
+        ? ['This interview takes place over text chat. Ask exactly one question per message and wait for the written answer before continuing. Do not use markdown headings.']
+        : []),
+    ...(codingProblem ? [buildCodingInstruction(codingProblem)] : []),
+    ...(questionPlan ? [buildQuestionPlanInstruction(questionPlan)] : []),
+    ...(round ? [buildRoundInstruction(round)] : []),
+].join('\n');
+
+// Extra instructions for a live session that replaces one that dropped mid-interview.
+export const buildResumeInstruction = (transcripts: TranscriptEntry[]): string => {
+    const transcriptText = formatTranscriptForPrompt(transcripts);
+    return [
+        'This interview is already in progress; the previous connection dropped. Do not introduce yourself again and do not repeat questions that were already answered.',
+        'Briefly acknowledge the interruption, then continue from where the conversation left off.',
+        `Transcript so far:\n${transcriptText || '(no answers yet)'}`,
+    ].join('\n');
+};
+
+// The coding problem the interviewer should pose.
+export const buildCodingInstruction = (problem: CodingProblem): string => [
+    `Coding problem: ${problem.title}`,
+    problem.description,
+    `The candidate implements a function named \`${problem.functionName}\`, which is checked against ${problem.testCases.length} test cases.`,
+].join('\n');
+
+// Where this round sits in a multi-round loop and what earlier rounds found.
+export const buildRoundInstruction = ({ round, index, count, completed }: ActiveRound): string => [
+    `This is round ${index + 1} of ${count} in a hiring loop: the ${round.name} round. You are a different interviewer from earlier rounds.`,
+    ...(round.focus.trim() ? [`Focus this round on: ${round.focus}`] : []),
+    `The round is limited to ${round.timeLimitMinutes} minutes. Pace your questions to fit, and wrap up when told that time is nearly up.`,
+    ...(completed.length > 0
+        ? [`Notes from earlier rounds:\n${formatPriorRounds(completed)}\nWhere it fits this round, follow up on the weak spots they found. Do not repeat questions already asked.`]
+        : []),
+].join('\n');
+
+// The competencies and questions the interviewer should cover, in order.
+export const buildQuestionPlanInstruction = (plan: QuestionPlan): string => [
+    'Question plan:',
+    ...plan.competencies.map(competency => [
+        `Competency: ${competency.name}`,
+        ...(competency.signals.some(signal => signal.trim()) ? [`Listen for: ${competency.signals.filter(signal => signal.trim()).join('; ')}`] : []),
+        ...askableQuestions(competency).map(question => `- ${question.text}`),
+    ].join('\n')),
+].join('\n');
+
+export const formatCodeSnapshot = (code: string, language: string): string =>
+    `[Candidate's current code]\n\`\`\`${language}\n${code}\n\`\`\``;
+
+export const formatTestResults = (results: TestCaseResult[]): string => {
+    const passed = results.filter(result => result.passed).length;
+    const failures = results
+        .map((result, i) => ({ result, i }))
+        .filter(({ result }) => !result.passed)
+        .map(({ result, i }) => `- Test ${i + 1}: ${result.error ?? `returned ${JSON.stringify(result.actual)}`}`);
+    return [`[Test run: ${passed}/${results.length} passed]`, ...failures].join('\n');
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseInterviewFeedback } from './interviewFeedback';
+
+const answer = {
+    question: 'Tell me about a hard bug.',
+    answer: 'A race in the cache.',
+    scores: { relevance: 4, depth: 3, structure: 4, communication: 5 },
+    comment: 'Clear.',
+    improvedAnswer: 'Start with the impact.',
+};
+
+const response = {
+    overallScore: 72,
+    hireSignal: 'hire',
+    summary: 'Solid.',
+    strengths: ['Debugging', ''],
+    gaps: [],
+    answers: [answer],
+};
+
+describe('parseInterviewFeedback', () => {
+    it('returns the feedback with blank list items dropped', () => {
+        expect(parseInterviewFeedback(JSON.stringify(response))).toEqual({ feedback: { ...response, strengths: ['Debugging'] } });
+    });
+
+    it('reports out-of-range scores, unknown signals and missing rubric scores', () => {
+        const parsed = parseInterviewFeedback(JSON.stringify({
+            ...response,
+            overallScore: 140,
+            hireSignal: 'maybe',
+            answers: [{ ...answer, scores: undefined }, { ...answer, scores: { ...answer.scores, depth: 0 } }],
+        }));
+        expect(parsed).toEqual({
+            problems: [
+                'feedback.overallScore must be a number from 0 to 100.',
+                'feedback.hireSignal must be one of: strong_hire, hire, no_hire, strong_no_hire.',
+                'feedback.answers[0].scores must be an object.',
+                'feedback.answers[1].scores.depth must be a number from 1 to 5.',
+            ],
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import { Schema, Type } from "@google/genai";
+import { AnswerFeedback, HireSignal, InterviewFeedback, RubricScores } from "../types";
+import { parseModelJson, present, readArray, readEnum, readInteger, readObject, readString } from "./jsonValidation";
+
+export type InterviewFeedbackOutcome =
+    | { status: 'ok'; feedback: InterviewFeedback }
+    | { status: 'error'; message: string };
+
+export const HIRE_SIGNALS: HireSignal[] = ['strong_hire', 'hire', 'no_hire', 'strong_no_hire'];
+
+const RUBRIC_DIMENSIONS: (keyof RubricScores)[] = ['relevance', 'depth', 'structure', 'communication'];
+
+const rubricScore: Schema = { type: Type.INTEGER, description: 'From 1 to 5.' };
+
+export const INTERVIEW_FEEDBACK_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        overallScore: { type: Type.INTEGER, description: 'From 0 to 100.' },
+        hireSignal: { type: Type.STRING, enum: HIRE_SIGNALS },
+        summary: { type: Type.STRING },
+        strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+        gaps: { type: Type.ARRAY, items: { type: Type.STRING } },
+        answers: {
+            type: Type.ARRAY,
+            description: 'One item for every question the interviewer asked, in order.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    question: { type: Type.STRING },
+                    answer: { type: Type.STRING },
+                    scores: {
+                        type: Type.OBJECT,
+                        properties: Object.fromEntries(RUBRIC_DIMENSIONS.map(dimension => [dimension, rubricScore])),
+                        required: RUBRIC_DIMENSIONS,
+                    },
+                    comment: { type: Type.STRING },
+                    improvedAnswer: { type: Type.STRING },
+                },
+                required: ['question', 'answer', 'scores', 'comment', 'improvedAnswer'],
+            },
+        },
+    },
+    required: ['overallScore', 'hireSignal', 'summary', 'strengths', 'gaps', 'answers'],
+};
+
+const readStringList = readArray(readString);
+const readRubricScore = readInteger(1, 5);
+
+const readRubricScores = readObject<RubricScores>((record, path, problems) => ({
+    relevance: readRubricScore(record.relevance, `${path}.relevance`, problems),
+    depth: readRubricScore(record.depth, `${path}.depth`, problems),
+    structure: readRubricScore(record.structure, `${path}.structure`, problems),
+    communication: readRubricScore(record.communication, `${path}.communication`, problems),
+}));
+
+const readAnswerFeedback = readObject<AnswerFeedback | null>((record, path, problems) => {
+    const scores = readRubricScores(record.scores, `${path}.scores`, problems);
+    const answer = {
+        question: readString(record.question, `${path}.question`, problems),
+        answer: readString(record.answer, `${path}.answer`, problems),
+        comment: readString(record.comment, `${path}.comment`, problems),
+        improvedAnswer: readString(record.improvedAnswer, `${path}.improvedAnswer`, problems),
+    };
+    return scores && { ...answer, scores };
+});
+
+// Check model output against InterviewFeedback.
+export const parseInterviewFeedback = (text: string | undefined): { feedback: InterviewFeedback } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const feedback = readObject<InterviewFeedback>((record, path, found) => ({
+            overallScore: readInteger(0, 100)(record.overallScore, `${path}.overallScore`, found),
+            hireSignal: readEnum(HIRE_SIGNALS)(record.hireSignal, `${path}.hireSignal`, found),
+            summary: readString(record.summary, `${path}.summary`, found),
+            strengths: readStringList(record.strengths, `${path}.strengths`, found).filter(Boolean),
+            gaps: readStringList(record.gaps, `${path}.gaps`, found).filter(Boolean),
+            answers: present(readArray(readAnswerFeedback)(record.answers, `${path}.answers`, found)),
+        }))(value, 'feedback', problems);
+        return feedback && problems.length === 0 ? { feedback } : { problems };
+    });
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseLoopDebrief, parseRoundHandoff } from './interviewLoop';
+
+describe('parseRoundHandoff', () => {
+    it('returns the handoff with blank weak spots dropped', () => {
+        expect(parseRoundHandoff('{"summary":"Strong on basics.","weakSpots":["System design",""]}')).toEqual({
+            handoff: { summary: 'Strong on basics.', weakSpots: ['System design'] },
+        });
+    });
+
+    it('reports a missing summary', () => {
+        expect(parseRoundHandoff('{"weakSpots":[]}')).toEqual({ problems: ['handoff.summary must be a string.'] });
+    });
+});
+
+describe('parseLoopDebrief', () => {
+    const response = {
+        overallScore: 81,
+        hireSignal: 'strong_hire',
+        summary: 'Consistent across rounds.',
+        rounds: [{ roundName: 'Technical', hireSignal: 'hire', summary: 'Solid coding.' }],
+        strengths: ['Coding'],
+        gaps: [],
+    };
+
+    it('returns the debrief', () => {
+        expect(parseLoopDebrief(JSON.stringify(response))).toEqual({ debrief: response });
+    });
+
+    it('reports rounds with an unknown hire signal', () => {
+        const parsed = parseLoopDebrief(JSON.stringify({ ...response, rounds: [{ ...response.rounds[0], hireSignal: 'lean_hire' }] }));
+        expect(parsed).toEqual({ problems: ['debrief.rounds[0].hireSignal must be one of: strong_hire, hire, no_hire, strong_no_hire.'] });
+    });
+});
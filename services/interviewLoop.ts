@@ -0,0 +1,145 @@
+import { Schema, Type } from "@google/genai";
+import { CompletedLoopRound, InterviewConfig, InterviewRound, LoopDebrief, LoopRoundDebrief, RoundHandoff } from "../types";
+import { HIRE_SIGNALS } from "./interviewFeedback";
+import { parseModelJson, present, readArray, readEnum, readInteger, readObject, readString } from "./jsonValidation";
+
+export type RoundHandoffOutcome =
+    | { status: 'ok'; handoff: RoundHandoff }
+    | { status: 'error'; message: string };
+
+export type LoopDebriefOutcome =
+    | { status: 'ok'; debrief: LoopDebrief }
+    | { status: 'error'; message: string };
+
+export const ROUND_TIME_LIMIT_OPTIONS = [10, 15, 20, 30, 45, 60];
+
+// Warn the interviewer this long before a round's time runs out.
+export const ROUND_WRAP_UP_WARNING_MS = 60_000;
+
+// The round currently being run and what earlier rounds found.
+export interface ActiveRound {
+    loopId: string;
+    round: InterviewRound;
+    index: number;
+    count: number;
+    completed: CompletedLoopRound[];
+}
+
+export const createInterviewRound = (round: Omit<InterviewRound, 'id'>): InterviewRound => ({
+    id: crypto.randomUUID(),
+    ...round,
+});
+
+// A typical loop: recruiter screen, technical round, hiring manager.
+export const createDefaultLoop = (): InterviewRound[] => [
+    createInterviewRound({
+        name: 'Recruiter Screen',
+        type: 'hr_screen',
+        persona: 'friendly',
+        voice: 'Aoede',
+        focus: 'Motivation, career story and logistics.',
+        timeLimitMinutes: 15,
+    }),
+    createInterviewRound({
+        name: 'Technical',
+        type: 'technical',
+        persona: 'neutral',
+        voice: 'Charon',
+        focus: 'Depth in the core skills from the job description.',
+        timeLimitMinutes: 30,
+    }),
+    createInterviewRound({
+        name: 'Hiring Manager',
+        type: 'behavioral',
+        persona: 'bar_raiser',
+        voice: 'Puck',
+        focus: 'Ownership, collaboration and fit with the team.',
+        timeLimitMinutes: 30,
+    }),
+];
+
+// The session setup for a round: the form's settings with the round's own interviewer.
+export const buildRoundConfig = (base: InterviewConfig, round: InterviewRound): InterviewConfig => ({
+    ...base,
+    type: round.type,
+    persona: round.persona,
+    voice: round.voice,
+});
+
+// Handoff notes from earlier rounds, for the next interviewer's prompt.
+export const formatPriorRounds = (completed: CompletedLoopRound[]): string => completed
+    .map(({ roundName, handoff }) => [
+        `${roundName}: ${handoff?.summary || '(no summary available)'}`,
+        ...(handoff?.weakSpots ?? []).map(spot => `- Weak spot: ${spot}`),
+    ].join('\n'))
+    .join('\n');
+
+// --- Model output ---
+
+const stringList = (description: string): Schema => ({ type: Type.ARRAY, description, items: { type: Type.STRING } });
+
+export const ROUND_HANDOFF_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: "The candidate's performance in two or three sentences." },
+        weakSpots: stringList('Weak spots or open questions that later rounds should probe.'),
+    },
+    required: ['summary', 'weakSpots'],
+};
+
+export const LOOP_DEBRIEF_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        overallScore: { type: Type.INTEGER, description: 'From 0 to 100.' },
+        hireSignal: { type: Type.STRING, enum: HIRE_SIGNALS },
+        summary: { type: Type.STRING },
+        rounds: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    roundName: { type: Type.STRING },
+                    hireSignal: { type: Type.STRING, enum: HIRE_SIGNALS },
+                    summary: { type: Type.STRING, description: 'One sentence.' },
+                },
+                required: ['roundName', 'hireSignal', 'summary'],
+            },
+        },
+        strengths: stringList('Strengths seen across the loop.'),
+        gaps: stringList('Gaps seen across the loop.'),
+    },
+    required: ['overallScore', 'hireSignal', 'summary', 'rounds', 'strengths', 'gaps'],
+};
+
+const readStringList = readArray(readString);
+const readHireSignal = readEnum(HIRE_SIGNALS);
+
+export const parseRoundHandoff = (text: string | undefined): { handoff: RoundHandoff } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const handoff = readObject<RoundHandoff>((record, path, found) => ({
+            summary: readString(record.summary, `${path}.summary`, found),
+            weakSpots: readStringList(record.weakSpots, `${path}.weakSpots`, found).filter(Boolean),
+        }))(value, 'handoff', problems);
+        return handoff && problems.length === 0 ? { handoff } : { problems };
+    });
+
+const readRoundDebrief = readObject<LoopRoundDebrief>((record, path, problems) => ({
+    roundName: readString(record.roundName, `${path}.roundName`, problems),
+    hireSignal: readHireSignal(record.hireSignal, `${path}.hireSignal`, problems),
+    summary: readString(record.summary, `${path}.summary`, problems),
+}));
+
+export const parseLoopDebrief = (text: string | undefined): { debrief: LoopDebrief } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const debrief = readObject<LoopDebrief>((record, path, found) => ({
+            overallScore: readInteger(0, 100)(record.overallScore, `${path}.overallScore`, found),
+            hireSignal: readHireSignal(record.hireSignal, `${path}.hireSignal`, found),
+            summary: readString(record.summary, `${path}.summary`, found),
+            rounds: present(readArray(readRoundDebrief)(record.rounds, `${path}.rounds`, found)),
+            strengths: readStringList(record.strengths, `${path}.strengths`, found).filter(Boolean),
+            gaps: readStringList(record.gaps, `${path}.gaps`, found).filter(Boolean),
+        }))(value, 'debrief', problems);
+        return debrief && problems.length === 0 ? { debrief } : { problems };
+    });
@@ -0,0 +1,77 @@
+import { createWavBlob, floatTo16BitPCM, StreamingResampler } from '../utils';
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+
+// The recording shares the microphone's rate so input frames need no resampling.
+export const RECORDING_SAMPLE_RATE = CAPTURE_SAMPLE_RATE;
+const BLOCK_SIZE = RECORDING_SAMPLE_RATE * 60;
+
+interface OutputSegment {
+    startSample: number;
+    samples: Int16Array;
+}
+
+const msToSamples = (ms: number) => Math.max(0, Math.round((ms / 1000) * RECORDING_SAMPLE_RATE));
+
+// Records both sides of a live interview onto a single timeline that starts
+// when the recorder is created. Microphone frames are stored as they arrive;
+// interviewer audio is kept as separate segments so that speech cut off by an
+// interruption can be trimmed before everything is mixed down on export.
+export class InterviewRecorder {
+    private readonly startedAt = performance.now();
+    private readonly inputBlocks: Int16Array[] = [];
+    private inputPosition: number | null = null;
+    private outputSegments: OutputSegment[] = [];
+
+    elapsedMs(): number {
+        return performance.now() - this.startedAt;
+    }
+
+    addInput(pcm: Int16Array) {
+        if (this.inputPosition === null) {
+            // Anchor the first frame to the moment its audio was captured.
+            this.inputPosition = Math.max(0, msToSamples(this.elapsedMs()) - pcm.length);
+        }
+        for (let i = 0; i < pcm.length; i++) {
+            const position = this.inputPosition + i;
+            const blockIndex = Math.floor(position / BLOCK_SIZE);
+            while (this.inputBlocks.length <= blockIndex) {
+                this.inputBlocks.push(new Int16Array(BLOCK_SIZE));
+            }
+            this.inputBlocks[blockIndex][position % BLOCK_SIZE] = pcm[i];
+        }
+        this.inputPosition += pcm.length;
+    }
+
+    addOutput(samples: Float32Array, sampleRate: number, startMs: number) {
+        const resampled = new StreamingResampler(sampleRate, RECORDING_SAMPLE_RATE).process(samples);
+        this.outputSegments.push({ startSample: msToSamples(startMs), samples: floatTo16BitPCM(resampled) });
+    }
+
+    // Drop interviewer audio that was scheduled but never played.
+    truncateOutput(atMs: number) {
+        const cutoff = msToSamples(atMs);
+        this.outputSegments = this.outputSegments
+            .filter(segment => segment.startSample < cutoff)
+            .map(segment => segment.startSample + segment.samples.length <= cutoff
+                ? segment
+                : { ...segment, samples: segment.samples.slice(0, cutoff - segment.startSample) });
+    }
+
+    toWav(): Blob {
+        const inputLength = this.inputPosition ?? 0;
+        const outputLength = this.outputSegments.reduce(
+            (max, segment) => Math.max(max, segment.startSample + segment.samples.length), 0);
+        const mix = new Int16Array(Math.max(inputLength, outputLength));
+
+        for (let i = 0; i < inputLength; i++) {
+            mix[i] = this.inputBlocks[Math.floor(i / BLOCK_SIZE)][i % BLOCK_SIZE];
+        }
+        for (const segment of this.outputSegments) {
+            for (let i = 0; i < segment.samples.length; i++) {
+                const position = segment.startSample + i;
+                mix[position] = Math.max(-32768, Math.min(32767, mix[position] + segment.samples[i]));
+            }
+        }
+        return createWavBlob(mix, RECORDING_SAMPLE_RATE);
+    }
+}
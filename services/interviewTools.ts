@@ -0,0 +1,92 @@
+import { FunctionCall, FunctionDeclaration, Type } from "@google/genai";
+import { InterviewerNotes } from "../types";
+
+export const EMPTY_INTERVIEWER_NOTES: InterviewerNotes = { scores: [], topics: [] };
+
+// Functions the live interviewer calls to report on and steer the interview.
+export const INTERVIEW_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+    {
+        name: 'record_answer_score',
+        description: "Record your assessment of the candidate's answer to a main question. Call this silently after each main answer, before moving on.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                question: { type: Type.STRING, description: 'The question the candidate answered.' },
+                score: { type: Type.INTEGER, description: 'Score from 1 (poor) to 5 (excellent).' },
+                rationale: { type: Type.STRING, description: 'One or two sentences explaining the score.' },
+            },
+            required: ['question', 'score', 'rationale'],
+        },
+    },
+    {
+        name: 'next_question',
+        description: 'Record that you are moving on to a new topic. Call this silently right before asking each main question.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                topic: { type: Type.STRING, description: 'A short name for the topic of the next question.' },
+            },
+            required: ['topic'],
+        },
+    },
+    {
+        name: 'end_interview',
+        description: 'End the interview. Call this only after you have thanked the candidate and said goodbye.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                summary: { type: Type.STRING, description: "A brief summary of the candidate's overall performance." },
+            },
+            required: ['summary'],
+        },
+    },
+];
+
+export const hasInterviewerNotes = (notes?: InterviewerNotes): notes is InterviewerNotes =>
+    !!notes && (notes.scores.length > 0 || notes.topics.length > 0 || !!notes.summary);
+
+export interface InterviewToolOutcome {
+    notes: InterviewerNotes;
+    response: Record<string, unknown>;
+    shouldEnd: boolean;
+}
+
+const clampScore = (value: unknown): number => {
+    const score = Math.round(Number(value));
+    return Number.isFinite(score) ? Math.min(5, Math.max(1, score)) : 1;
+};
+
+// Apply one function call from the interviewer to the notes taken so far.
+export const applyInterviewToolCall = (notes: InterviewerNotes, call: FunctionCall, atMs?: number): InterviewToolOutcome => {
+    const args = call.args ?? {};
+    switch (call.name) {
+        case 'record_answer_score':
+            return {
+                notes: {
+                    ...notes,
+                    scores: [...notes.scores, {
+                        question: String(args.question ?? ''),
+                        score: clampScore(args.score),
+                        rationale: String(args.rationale ?? ''),
+                        atMs,
+                    }],
+                },
+                response: { result: 'recorded' },
+                shouldEnd: false,
+            };
+        case 'next_question':
+            return {
+                notes: { ...notes, topics: [...notes.topics, { topic: String(args.topic ?? ''), atMs }] },
+                response: { result: 'ok' },
+                shouldEnd: false,
+            };
+        case 'end_interview':
+            return {
+                notes: { ...notes, summary: String(args.summary ?? '') },
+                response: { result: 'ending' },
+                shouldEnd: true,
+            };
+        default:
+            return { notes, response: { error: `Unknown function: ${call.name}` }, shouldEnd: false };
+    }
+};
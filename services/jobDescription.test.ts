@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeneratedJobDescription } from './jobDescription';
+
+const response = {
+    title: ' Backend Engineer ',
+    company: 'Acme',
+    seniority: 'Senior',
+    mustHaveSkills: ['Go', ' ', 'PostgreSQL'],
+    niceToHaveSkills: [],
+    responsibilities: ['Own the billing service.'],
+    location: 'Berlin',
+    workplace: 'hybrid',
+    compensation: '',
+};
+
+describe('parseGeneratedJobDescription', () => {
+    it('returns trimmed details with blank list items dropped', () => {
+        const parsed = parseGeneratedJobDescription(JSON.stringify(response));
+        expect(parsed).toEqual({ details: { ...response, title: 'Backend Engineer', mustHaveSkills: ['Go', 'PostgreSQL'] } });
+    });
+
+    it('reports fields that do not match the schema instead of trimming them', () => {
+        const parsed = parseGeneratedJobDescription(JSON.stringify({ ...response, title: 42, mustHaveSkills: 'Go', workplace: 'office' }));
+        expect(parsed).toEqual({
+            problems: [
+                'jobDescription.title must be a string.',
+                'jobDescription.mustHaveSkills must be an array.',
+                'jobDescription.workplace must be one of: onsite, hybrid, remote, unspecified.',
+            ],
+        });
+    });
+
+    it('reports an empty response', () => {
+        expect(parseGeneratedJobDescription('')).toEqual({ problems: ['The response was empty.'] });
+    });
+});
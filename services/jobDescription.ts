@@ -0,0 +1,89 @@
+import { Schema, Type } from "@google/genai";
+import { JobDescription, JobWorkplace } from "../types";
+import { JdRequirements } from "./atsMatcher";
+import { parseModelJson, readArray, readEnum, readObject, readString } from "./jsonValidation";
+
+// The validated details from parseJobDescription, before an id is assigned.
+export type GeneratedJobDescription = Omit<JobDescription, 'id' | 'rawText' | 'createdAt'>;
+
+export type JobDescriptionOutcome =
+    | { status: 'ok'; details: GeneratedJobDescription }
+    | { status: 'error'; message: string };
+
+export const JOB_WORKPLACES: Record<JobWorkplace, string> = {
+    onsite: 'On-site',
+    hybrid: 'Hybrid',
+    remote: 'Remote',
+    unspecified: 'Not specified',
+};
+
+const stringList = (description: string): Schema => ({ type: Type.ARRAY, description, items: { type: Type.STRING } });
+
+export const JOB_DESCRIPTION_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        company: { type: Type.STRING, description: 'Empty if the posting does not name it.' },
+        seniority: { type: Type.STRING, description: 'Such as "Junior", "Mid-level", "Senior", "Staff" or "Manager"; empty if unclear.' },
+        mustHaveSkills: stringList('Skills, tools and qualifications the posting requires, each a short phrase.'),
+        niceToHaveSkills: stringList('Skills the posting lists as preferred, a bonus or a plus, each a short phrase.'),
+        responsibilities: stringList('The main duties of the role, each one sentence.'),
+        location: { type: Type.STRING, description: 'Empty if not stated.' },
+        workplace: { type: Type.STRING, enum: Object.keys(JOB_WORKPLACES) },
+        compensation: { type: Type.STRING, description: 'Salary or pay range as written; empty if not stated.' },
+    },
+    required: ['title', 'company', 'seniority', 'mustHaveSkills', 'niceToHaveSkills', 'responsibilities', 'location', 'workplace', 'compensation'],
+};
+
+const readStringList = readArray(readString);
+
+// Check model output against the schema; blank list items are dropped.
+export const parseGeneratedJobDescription = (text: string | undefined): { details: GeneratedJobDescription } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const details = readObject<GeneratedJobDescription>((record, path, found) => ({
+            title: readString(record.title, `${path}.title`, found),
+            company: readString(record.company, `${path}.company`, found),
+            seniority: readString(record.seniority, `${path}.seniority`, found),
+            mustHaveSkills: readStringList(record.mustHaveSkills, `${path}.mustHaveSkills`, found).filter(Boolean),
+            niceToHaveSkills: readStringList(record.niceToHaveSkills, `${path}.niceToHaveSkills`, found).filter(Boolean),
+            responsibilities: readStringList(record.responsibilities, `${path}.responsibilities`, found).filter(Boolean),
+            location: readString(record.location, `${path}.location`, found),
+            workplace: readEnum(Object.keys(JOB_WORKPLACES) as JobWorkplace[])(record.workplace, `${path}.workplace`, found),
+            compensation: readString(record.compensation, `${path}.compensation`, found),
+        }))(value, 'jobDescription', problems);
+        return details && problems.length === 0 ? { details } : { problems };
+    });
+
+export const createJobDescription = (details: GeneratedJobDescription, rawText: string): JobDescription => ({
+    id: crypto.randomUUID(),
+    ...details,
+    rawText: rawText.trim(),
+    createdAt: Date.now(),
+});
+
+export const jobDescriptionLabel = (jd: JobDescription): string =>
+    [jd.title || 'Untitled role', jd.company].filter(Boolean).join(' at ');
+
+// Whether a parsed record still describes the text being edited.
+export const matchesJobDescriptionText = (jd: JobDescription | null, text: string): jd is JobDescription =>
+    jd !== null && jd.rawText === text.trim();
+
+export const jobDescriptionRequirements = (jd: JobDescription): JdRequirements => ({
+    required: jd.mustHaveSkills,
+    niceToHave: jd.niceToHaveSkills,
+});
+
+// The parsed requirements ahead of the original text, so prompts weigh the
+// same must-haves that the keyword checks do.
+export const jobDescriptionToPromptText = (jd: JobDescription): string => {
+    const lines = [
+        jd.title && `Title: ${jd.title}`,
+        jd.company && `Company: ${jd.company}`,
+        jd.seniority && `Seniority: ${jd.seniority}`,
+        jd.mustHaveSkills.length > 0 && `Must-have skills: ${jd.mustHaveSkills.join('; ')}`,
+        jd.niceToHaveSkills.length > 0 && `Nice-to-have skills: ${jd.niceToHaveSkills.join('; ')}`,
+        jd.responsibilities.length > 0 && `Responsibilities:\n${jd.responsibilities.map(item => `- ${item}`).join('\n')}`,
+    ].filter(Boolean);
+    return `${lines.join('\n')}\n\nFull job description:\n${jd.rawText}`;
+};
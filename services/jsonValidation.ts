@@ -0,0 +1,64 @@
+// Readers for untrusted JSON returned by the model.
+
+// Reads one field of untrusted JSON, recording a problem instead of throwing
+// so every problem can be reported at once.
+export type Reader<T> = (value: unknown, path: string, problems: string[]) => T;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const readString: Reader<string> = (value, path, problems) => {
+    if (typeof value !== 'string') {
+        problems.push(`${path} must be a string.`);
+        return '';
+    }
+    return value.trim();
+};
+
+export const readInteger = (min: number, max: number): Reader<number> => (value, path, problems) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        problems.push(`${path} must be a number from ${min} to ${max}.`);
+        return min;
+    }
+    return Math.round(value);
+};
+
+export const readEnum = <T extends string>(allowed: readonly T[]): Reader<T> => (value, path, problems) => {
+    if (!allowed.includes(value as T)) {
+        problems.push(`${path} must be one of: ${allowed.join(', ')}.`);
+        return allowed[0];
+    }
+    return value as T;
+};
+
+export const readArray = <T>(readItem: Reader<T>): Reader<T[]> => (value, path, problems) => {
+    if (!Array.isArray(value)) {
+        problems.push(`${path} must be an array.`);
+        return [];
+    }
+    return value.map((item, index) => readItem(item, `${path}[${index}]`, problems));
+};
+
+export const readObject = <T>(read: (record: Record<string, unknown>, path: string, problems: string[]) => T): Reader<T | null> =>
+    (value, path, problems) => {
+        if (!isRecord(value)) {
+            problems.push(`${path} must be an object.`);
+            return null;
+        }
+        return read(value, path, problems);
+    };
+
+export const present = <T>(items: (T | null)[]): T[] => items.filter((item): item is T => item !== null);
+
+// Parse raw model output and validate it in one step.
+export const parseModelJson = <T>(
+    text: string | undefined,
+    validate: (value: unknown) => T | { problems: string[] }
+): T | { problems: string[] } => {
+    if (!text?.trim()) return { problems: ['The response was empty.'] };
+    try {
+        return validate(JSON.parse(text));
+    } catch (error) {
+        return { problems: [`The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parsePresenceFeedback } from './presenceFeedback';
+
+const aspect = { score: 4, comment: 'Good.' };
+const response = { eyeContact: aspect, framing: aspect, lighting: aspect, posture: aspect, tips: ['Raise the camera.'] };
+
+describe('parsePresenceFeedback', () => {
+    it('returns the feedback', () => {
+        expect(parsePresenceFeedback(JSON.stringify(response))).toEqual({ feedback: response });
+    });
+
+    it('reports a missing aspect and an out-of-range score', () => {
+        const parsed = parsePresenceFeedback(JSON.stringify({ ...response, lighting: undefined, posture: { score: 9, comment: 'Slouched.' } }));
+        expect(parsed).toEqual({
+            problems: ['presence.lighting must be an object.', 'presence.posture.score must be a number from 1 to 5.'],
+        });
+    });
+});
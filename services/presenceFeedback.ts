@@ -0,0 +1,49 @@
+import { Schema, Type } from "@google/genai";
+import { PresenceAspect, PresenceFeedback } from "../types";
+import { parseModelJson, readArray, readInteger, readObject, readString } from "./jsonValidation";
+
+export type PresenceFeedbackOutcome =
+    | { status: 'ok'; feedback: PresenceFeedback }
+    | { status: 'error'; message: string };
+
+const aspectSchema = (description: string): Schema => ({
+    type: Type.OBJECT,
+    description,
+    properties: {
+        score: { type: Type.INTEGER, description: 'From 1 to 5.' },
+        comment: { type: Type.STRING },
+    },
+    required: ['score', 'comment'],
+});
+
+export const PRESENCE_FEEDBACK_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        eyeContact: aspectSchema('Whether the candidate looks at the camera rather than away or down.'),
+        framing: aspectSchema('Head and shoulders centred, camera at eye level, appropriate distance.'),
+        lighting: aspectSchema('Face evenly lit, no strong backlight or shadows.'),
+        posture: aspectSchema('Upright, open, steady.'),
+        tips: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['eyeContact', 'framing', 'lighting', 'posture', 'tips'],
+};
+
+const readAspect = readObject<PresenceAspect>((record, path, problems) => ({
+    score: readInteger(1, 5)(record.score, `${path}.score`, problems),
+    comment: readString(record.comment, `${path}.comment`, problems),
+}));
+
+// Check model output against PresenceFeedback. A missing aspect is a problem
+// rather than a gap in the report.
+export const parsePresenceFeedback = (text: string | undefined): { feedback: PresenceFeedback } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const feedback = readObject<PresenceFeedback>((record, path, found) => ({
+            eyeContact: readAspect(record.eyeContact, `${path}.eyeContact`, found) ?? undefined,
+            framing: readAspect(record.framing, `${path}.framing`, found) ?? undefined,
+            lighting: readAspect(record.lighting, `${path}.lighting`, found) ?? undefined,
+            posture: readAspect(record.posture, `${path}.posture`, found) ?? undefined,
+            tips: readArray(readString)(record.tips, `${path}.tips`, found).filter(Boolean),
+        }))(value, 'presence', problems);
+        return feedback && problems.length === 0 ? { feedback } : { problems };
+    });
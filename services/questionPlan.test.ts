@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuestionPlan } from './questionPlan';
+
+describe('parseQuestionPlan', () => {
+    it('returns the plan with blank signals and questions dropped', () => {
+        const text = JSON.stringify({ competencies: [{ name: 'Debugging', signals: ['Root cause', ''], questions: [' Tell me about a hard bug. ', ' '] }] });
+        expect(parseQuestionPlan(text)).toEqual({
+            plan: { competencies: [{ name: 'Debugging', signals: ['Root cause'], questions: ['Tell me about a hard bug.'] }] },
+        });
+    });
+
+    it('reports a plan without any question to ask', () => {
+        expect(parseQuestionPlan(JSON.stringify({ competencies: [{ name: 'Debugging', signals: [], questions: [''] }] }))).toEqual({
+            problems: ['plan.competencies must include at least one question.'],
+        });
+        expect(parseQuestionPlan(JSON.stringify({ competencies: [{ name: 'Debugging', signals: [] }] }))).toEqual({
+            problems: ['plan.competencies[0].questions must be an array.'],
+        });
+    });
+});
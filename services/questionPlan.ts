@@ -0,0 +1,114 @@
+import { Schema, Type } from "@google/genai";
+import { PlannedCompetency, PlannedQuestion, QuestionPlan, TranscriptEntry } from "../types";
+import { parseModelJson, present, readArray, readObject, readString } from "./jsonValidation";
+import { contentWords } from "./textAnalysis";
+
+// A validated plan from generateQuestionPlan, before ids are assigned.
+export interface GeneratedQuestionPlan {
+    competencies: { name: string; signals: string[]; questions: string[] }[];
+}
+
+export type QuestionPlanOutcome =
+    | { status: 'ok'; plan: GeneratedQuestionPlan }
+    | { status: 'error'; message: string };
+
+export const QUESTION_PLAN_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        competencies: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING, description: 'A short name.' },
+                    signals: { type: Type.ARRAY, description: 'What a strong answer should demonstrate.', items: { type: Type.STRING } },
+                    questions: { type: Type.ARRAY, description: 'Worded as the interviewer would say them.', items: { type: Type.STRING } },
+                },
+                required: ['name', 'signals', 'questions'],
+            },
+        },
+    },
+    required: ['competencies'],
+};
+
+// Share of a planned question's key words an interviewer turn must contain
+// for the question to count as asked.
+const COVERAGE_THRESHOLD = 0.5;
+
+export const createPlannedQuestion = (text: string, custom = false): PlannedQuestion => ({
+    id: crypto.randomUUID(),
+    text,
+    ...(custom ? { custom } : {}),
+});
+
+export const createPlannedCompetency = (name: string, signals: string[] = [], questions: PlannedQuestion[] = []): PlannedCompetency => ({
+    id: crypto.randomUUID(),
+    name,
+    signals,
+    questions,
+});
+
+export const createQuestionPlan = (generated: GeneratedQuestionPlan, jobRole: string): QuestionPlan => {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        name: `${jobRole} plan`,
+        jobRole,
+        competencies: generated.competencies.map(competency => createPlannedCompetency(
+            competency.name || 'Untitled competency',
+            competency.signals,
+            competency.questions.map(text => createPlannedQuestion(text)),
+        )),
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+const readStringList = readArray(readString);
+
+const readCompetency = readObject((record, path, problems) => ({
+    name: readString(record.name, `${path}.name`, problems),
+    signals: readStringList(record.signals, `${path}.signals`, problems).filter(Boolean),
+    questions: readStringList(record.questions, `${path}.questions`, problems).filter(Boolean),
+}));
+
+// Check model output for a plan with at least one question to ask.
+export const parseQuestionPlan = (text: string | undefined): { plan: GeneratedQuestionPlan } | { problems: string[] } =>
+    parseModelJson(text, value => {
+        const problems: string[] = [];
+        const plan = readObject<GeneratedQuestionPlan>((record, path, found) => ({
+            competencies: present(readArray(readCompetency)(record.competencies, `${path}.competencies`, found)),
+        }))(value, 'plan', problems);
+        if (plan && problems.length === 0 && plan.competencies.every(competency => competency.questions.length === 0)) {
+            problems.push('plan.competencies must include at least one question.');
+        }
+        return plan && problems.length === 0 ? { plan } : { problems };
+    });
+
+// Questions left blank in the editor are not sent to the interviewer, so they
+// can never be covered and do not count.
+export const askableQuestions = (competency: PlannedCompetency): PlannedQuestion[] =>
+    competency.questions.filter(question => question.text.trim());
+
+export const countPlannedQuestions = (plan: QuestionPlan): number =>
+    plan.competencies.reduce((total, competency) => total + askableQuestions(competency).length, 0);
+
+const keyWords = (text: string): Set<string> => new Set(contentWords(text));
+
+// Ids of planned questions the interviewer has asked so far, judged by how
+// many of each question's key words appear in a single interviewer turn.
+export const computePlanCoverage = (plan: QuestionPlan, transcripts: TranscriptEntry[]): Set<string> => {
+    const interviewerTurns = transcripts.filter(entry => entry.speaker === 'model').map(entry => keyWords(entry.text));
+    const covered = new Set<string>();
+    for (const competency of plan.competencies) {
+        for (const question of competency.questions) {
+            const questionWords = [...keyWords(question.text)];
+            if (questionWords.length === 0) continue;
+            const isAsked = interviewerTurns.some(turnWords =>
+                questionWords.filter(word => turnWords.has(word)).length / questionWords.length >= COVERAGE_THRESHOLD
+            );
+            if (isAsked) covered.add(question.id);
+        }
+    }
+    return covered;
+};
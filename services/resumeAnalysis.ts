@@ -0,0 +1,172 @@
+import { Schema, Type } from "@google/genai";
+import {
+    AnalysisKeyword,
+    AnalysisResult,
+    FormattingIssue,
+    FormattingSeverity,
+    KeywordImportance,
+    LineRewrite,
+    SectionScore,
+    SectionSuggestion,
+} from "../types";
+import { parseModelJson, present, readArray, readEnum, Reader, readObject, readString } from "./jsonValidation";
+
+export type ResumeAnalysisOutcome =
+    | { status: 'ok'; analysis: AnalysisResult }
+    | { status: 'error'; message: string };
+
+export const KEYWORD_IMPORTANCE: Record<KeywordImportance, string> = {
+    required: 'Required',
+    preferred: 'Preferred',
+    nice_to_have: 'Nice to have',
+};
+
+export const FORMATTING_SEVERITIES: FormattingSeverity[] = ['high', 'medium', 'low'];
+
+const keywordListSchema = (description: string): Schema => ({
+    type: Type.ARRAY,
+    description,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            keyword: { type: Type.STRING },
+            importance: { type: Type.STRING, enum: Object.keys(KEYWORD_IMPORTANCE) },
+        },
+        required: ['keyword', 'importance'],
+    },
+});
+
+export const buildResumeAnalysisSchema = (isStructured: boolean): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        score: { type: Type.INTEGER, description: 'Overall ATS-friendliness score from 0 to 100.' },
+        sectionScores: {
+            type: Type.ARRAY,
+            description: 'A score for each section present in the resume.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    section: { type: Type.STRING },
+                    score: { type: Type.INTEGER, description: 'From 0 to 100.' },
+                    comment: { type: Type.STRING },
+                },
+                required: ['section', 'score', 'comment'],
+            },
+        },
+        matchedKeywords: keywordListSchema('Job description keywords the resume already covers.'),
+        missingKeywords: keywordListSchema('Job description keywords missing from the resume.'),
+        summarySuggestion: { type: Type.STRING },
+        experienceAdvice: { type: Type.STRING },
+        formattingIssues: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    issue: { type: Type.STRING },
+                    severity: { type: Type.STRING, enum: FORMATTING_SEVERITIES },
+                    fix: { type: Type.STRING },
+                },
+                required: ['issue', 'severity', 'fix'],
+            },
+        },
+        lineRewrites: {
+            type: Type.ARRAY,
+            description: 'Rewrites of individual resume lines, most valuable first.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    ...(isStructured ? { ref: { type: Type.STRING, description: 'The line reference, without brackets.' } } : {}),
+                    original: { type: Type.STRING, description: 'The line exactly as written in the resume, without its reference or bullet marker.' },
+                    rewritten: { type: Type.STRING },
+                    reason: { type: Type.STRING, description: 'One short sentence on what the rewrite improves.' },
+                },
+                required: [...(isStructured ? ['ref'] : []), 'original', 'rewritten', 'reason'],
+            },
+        },
+        ...(isStructured ? {
+            sectionSuggestions: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        ref: { type: Type.STRING, description: 'The line reference, without brackets.' },
+                        suggestion: { type: Type.STRING },
+                    },
+                    required: ['ref', 'suggestion'],
+                },
+            },
+        } : {}),
+    },
+    required: [
+        'score', 'sectionScores', 'matchedKeywords', 'missingKeywords', 'summarySuggestion', 'experienceAdvice', 'formattingIssues', 'lineRewrites',
+        ...(isStructured ? ['sectionSuggestions'] : []),
+    ],
+});
+
+// --- Validation ---
+
+const readScore: Reader<number> = (value, path, problems) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+        problems.push(`${path} must be a number from 0 to 100.`);
+        return 0;
+    }
+    return Math.round(value);
+};
+
+const readKeyword = readObject<AnalysisKeyword>((record, path, problems) => ({
+    keyword: readString(record.keyword, `${path}.keyword`, problems),
+    importance: readEnum(Object.keys(KEYWORD_IMPORTANCE) as KeywordImportance[])(record.importance, `${path}.importance`, problems),
+}));
+
+const readSectionScore = readObject<SectionScore>((record, path, problems) => ({
+    section: readString(record.section, `${path}.section`, problems),
+    score: readScore(record.score, `${path}.score`, problems),
+    comment: readString(record.comment, `${path}.comment`, problems),
+}));
+
+const readFormattingIssue = readObject<FormattingIssue>((record, path, problems) => ({
+    issue: readString(record.issue, `${path}.issue`, problems),
+    severity: readEnum(FORMATTING_SEVERITIES)(record.severity, `${path}.severity`, problems),
+    fix: readString(record.fix, `${path}.fix`, problems),
+}));
+
+const stripRef = (ref: string) => ref.replace(/^\[|\]$/g, '');
+
+const readSectionSuggestion = readObject<SectionSuggestion>((record, path, problems) => ({
+    ref: stripRef(readString(record.ref, `${path}.ref`, problems)),
+    suggestion: readString(record.suggestion, `${path}.suggestion`, problems),
+}));
+
+const readLineRewrite = (isStructured: boolean) => readObject<LineRewrite>((record, path, problems) => ({
+    ...(isStructured ? { ref: stripRef(readString(record.ref, `${path}.ref`, problems)) } : {}),
+    original: readString(record.original, `${path}.original`, problems),
+    rewritten: readString(record.rewritten, `${path}.rewritten`, problems),
+    reason: readString(record.reason, `${path}.reason`, problems),
+}));
+
+// Check model output against AnalysisResult. Returns the typed result, or
+// every problem found so that a repair request can fix them in one pass.
+export const validateResumeAnalysis = (
+    value: unknown,
+    isStructured: boolean
+): { analysis: AnalysisResult } | { problems: string[] } => {
+    const problems: string[] = [];
+    const analysis = readObject<AnalysisResult>((record, _path, found) => ({
+        score: readScore(record.score, 'score', found),
+        sectionScores: present(readArray(readSectionScore)(record.sectionScores, 'sectionScores', found)),
+        matchedKeywords: present(readArray(readKeyword)(record.matchedKeywords, 'matchedKeywords', found)),
+        missingKeywords: present(readArray(readKeyword)(record.missingKeywords, 'missingKeywords', found)),
+        summarySuggestion: readString(record.summarySuggestion, 'summarySuggestion', found),
+        experienceAdvice: readString(record.experienceAdvice, 'experienceAdvice', found),
+        formattingIssues: present(readArray(readFormattingIssue)(record.formattingIssues, 'formattingIssues', found)),
+        lineRewrites: present(readArray(readLineRewrite(isStructured))(record.lineRewrites, 'lineRewrites', found)),
+        ...(isStructured
+            ? { sectionSuggestions: present(readArray(readSectionSuggestion)(record.sectionSuggestions, 'sectionSuggestions', found)) }
+            : {}),
+    }))(value, 'analysis', problems);
+    return analysis && problems.length === 0 ? { analysis } : { problems };
+};
+
+// Parse and validate raw model output in one step.
+export const parseResumeAnalysis = (text: string | undefined, isStructured: boolean): { analysis: AnalysisResult } | { problems: string[] } =>
+    parseModelJson(text, value => validateResumeAnalysis(value, isStructured));
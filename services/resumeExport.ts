@@ -0,0 +1,295 @@
+import { CoverLetter, ResumeLayout, StructuredResume } from "../types";
+import { coverLetterToBlocks, coverLetterToPlainText } from "./coverLetter";
+import { headingText, RESUME_LAYOUTS, ResumeBlock, ResumeLayoutStyle, resumeToBlocks, resumeToMarkdown, resumeToPlainText } from "./resumeModel";
+import { createZip } from "./zip";
+
+export type ResumeExportFormat = 'pdf' | 'docx' | 'markdown' | 'text';
+
+export const RESUME_EXPORT_FORMATS: Record<ResumeExportFormat, { label: string; extension: string; mimeType: string }> = {
+    pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+    docx: { label: 'DOCX', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+    markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+    text: { label: 'Plain Text', extension: 'txt', mimeType: 'text/plain' },
+};
+
+export type CoverLetterExportFormat = Exclude<ResumeExportFormat, 'markdown'>;
+
+export const COVER_LETTER_EXPORT_FORMATS: CoverLetterExportFormat[] = ['pdf', 'docx', 'text'];
+
+// --- PDF ---
+
+// US Letter, in points.
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const LINE_HEIGHT = 1.3;
+const BULLET_INDENT = 14;
+
+// Advance widths of the standard Helvetica fonts for ASCII 32-126, in
+// thousandths of the font size. The standard fonts need no embedding, so the
+// exported text stays selectable for ATS parsers.
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+const WIN_ANSI_WIDTHS: Record<number, number> = {
+    0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000,
+};
+
+const toWinAnsi = (text: string): string => Array.from(text).map(char => {
+    const code = char.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    return (code >= 32 && code < 127) || (code >= 0xa0 && code <= 0xff) ? char : '?';
+}).join('');
+
+const textWidth = (encoded: string, size: number, bold: boolean): number => {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (let i = 0; i < encoded.length; i++) {
+        const code = encoded.charCodeAt(i);
+        total += code >= 32 && code < 127 ? widths[code - 32] : WIN_ANSI_WIDTHS[code] ?? 556;
+    }
+    return (total * size) / 1000;
+};
+
+const wrapText = (encoded: string, maxWidth: number, size: number, bold: boolean): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of encoded.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textWidth(candidate, size, bold) > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+const escapePdfText = (text: string): string => text.replace(/[\\()]/g, match => `\\${match}`);
+
+const pdfColor = (hex: string): string => {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(channel => (channel / 255).toFixed(3)).join(' ');
+};
+
+interface PdfBlockStyle {
+    size: number;
+    bold: boolean;
+    center: boolean;
+    accent: boolean;
+    spaceBefore: number;
+}
+
+const pdfBlockStyle = (block: ResumeBlock, previous: ResumeBlock | null, layout: ResumeLayoutStyle): PdfBlockStyle => {
+    const body = layout.bodySize;
+    switch (block.kind) {
+        case 'name': return { size: layout.nameSize, bold: true, center: layout.centerHeader, accent: true, spaceBefore: 0 };
+        case 'contact': return { size: body - 0.5, bold: false, center: layout.centerHeader, accent: false, spaceBefore: 2 };
+        case 'heading': return { size: body + 1.5, bold: true, center: false, accent: true, spaceBefore: layout.sectionGap };
+        case 'entry': return { size: body, bold: true, center: false, accent: false, spaceBefore: previous?.kind === 'heading' ? 2 : layout.sectionGap / 2 };
+        // Consecutive paragraphs only occur in cover letters, which separate them with a blank line.
+        case 'paragraph': return { size: body, bold: false, center: false, accent: false, spaceBefore: previous?.kind === 'heading' ? 2 : previous ? layout.sectionGap : 0 };
+        default: return { size: body, bold: false, center: false, accent: false, spaceBefore: previous?.kind === 'heading' ? 2 : 1 };
+    }
+};
+
+const buildPdf = (blocks: ResumeBlock[], layoutName: ResumeLayout): Uint8Array => {
+    const layout = RESUME_LAYOUTS[layoutName];
+    const margin = layoutName === 'compact' ? 40 : 54;
+    const contentWidth = PAGE_WIDTH - margin * 2;
+    const accent = pdfColor(layout.accentColor);
+    const pages: string[][] = [[]];
+    let y = PAGE_HEIGHT - margin;
+
+    const drawLine = (text: string, x: number, size: number, bold: boolean, color: string) => {
+        pages[pages.length - 1].push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${color} rg 1 0 0 1 ${x.toFixed(2)} ${y.toFixed(2)} Tm (${escapePdfText(text)}) Tj ET`);
+    };
+    const advance = (height: number) => {
+        if (y - height < margin) {
+            pages.push([]);
+            y = PAGE_HEIGHT - margin;
+        }
+        y -= height;
+    };
+
+    let previous: ResumeBlock | null = null;
+    for (const block of blocks) {
+        const style = pdfBlockStyle(block, previous, layout);
+        const color = style.accent ? accent : '0 0 0';
+        const text = toWinAnsi(block.kind === 'heading' ? headingText(block.text, layout.uppercaseHeadings) : block.text);
+        const indent = block.kind === 'bullet' ? BULLET_INDENT : 0;
+        const lineHeight = style.size * LINE_HEIGHT;
+        y -= style.spaceBefore;
+        wrapText(text, contentWidth - indent, style.size, style.bold).forEach((line, index) => {
+            advance(lineHeight);
+            if (block.kind === 'bullet' && index === 0) {
+                drawLine(String.fromCharCode(WIN_ANSI_EXTRAS['•']), margin + 3, style.size, false, color);
+            }
+            const x = style.center
+                ? margin + (contentWidth - textWidth(line, style.size, style.bold)) / 2
+                : margin + indent;
+            drawLine(line, x, style.size, style.bold, color);
+        });
+        if (block.kind === 'heading' && layout.headingRule) {
+            y -= 3;
+            pages[pages.length - 1].push(`${accent} RG 0.75 w ${margin} ${y.toFixed(2)} m ${PAGE_WIDTH - margin} ${y.toFixed(2)} l S`);
+            y -= 1;
+        }
+        previous = block;
+    }
+
+    // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page.
+    const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    pages.forEach((commands, index) => {
+        const stream = commands.join('\n');
+        objects.push(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+            `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+        );
+    });
+
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+        const offset = pdf.length;
+        pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    // Every character is a single WinAnsi byte, so string offsets are byte offsets.
+    return Uint8Array.from(pdf, char => char.charCodeAt(0));
+};
+
+// --- DOCX ---
+
+const escapeXml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const WORD_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const docxParagraph = (block: ResumeBlock, previous: ResumeBlock | null, layout: ResumeLayoutStyle): string => {
+    const color = layout.accentColor.slice(1);
+    // Word measures font sizes in half-points and spacing in twentieths of a point.
+    const halfPoints = (points: number) => Math.round(points * 2);
+    const isHeader = block.kind === 'name' || block.kind === 'contact';
+    const spaceBefore = block.kind === 'heading'
+        ? layout.sectionGap
+        : block.kind === 'entry' ? (previous?.kind === 'heading' ? 2 : layout.sectionGap / 2)
+        : block.kind === 'paragraph' && previous && previous.kind !== 'heading' ? layout.sectionGap
+        : 0;
+
+    // Word rejects paragraph and run properties that are out of schema order.
+    const properties = [
+        block.kind === 'heading' || block.kind === 'entry' ? '<w:keepNext/>' : '',
+        block.kind === 'bullet' ? '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>' : '',
+        block.kind === 'heading' && layout.headingRule
+            ? `<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${color}"/></w:pBdr>`
+            : '',
+        `<w:spacing w:before="${Math.round(spaceBefore * 20)}" w:after="0"/>`,
+        isHeader && layout.centerHeader ? '<w:jc w:val="center"/>' : '',
+        block.kind === 'heading' ? '<w:outlineLvl w:val="0"/>' : '',
+    ];
+    const size = block.kind === 'name' ? layout.nameSize
+        : block.kind === 'heading' ? layout.bodySize + 1.5
+        : block.kind === 'contact' ? layout.bodySize - 0.5
+        : null;
+    const runProperties = [
+        block.kind === 'name' || block.kind === 'heading' || block.kind === 'entry' ? '<w:b/>' : '',
+        block.kind === 'name' || block.kind === 'heading' ? `<w:color w:val="${color}"/>` : '',
+        size !== null ? `<w:sz w:val="${halfPoints(size)}"/>` : '',
+    ];
+    const text = block.kind === 'heading' ? headingText(block.text, layout.uppercaseHeadings) : block.text;
+    return `<w:p><w:pPr>${properties.join('')}</w:pPr><w:r><w:rPr>${runProperties.join('')}</w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+};
+
+const buildDocx = (blocks: ResumeBlock[], layoutName: ResumeLayout): Uint8Array => {
+    const layout = RESUME_LAYOUTS[layoutName];
+    const margin = layoutName === 'compact' ? 800 : 1080;
+    let previous: ResumeBlock | null = null;
+    const paragraphs = blocks.map(block => {
+        const xml = docxParagraph(block, previous, layout);
+        previous = block;
+        return xml;
+    });
+
+    const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${WORD_NAMESPACE}><w:body>${paragraphs.join('')}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+    const styles = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${WORD_NAMESPACE}><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/><w:sz w:val="${Math.round(layout.bodySize * 2)}"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults></w:styles>`;
+    const numbering = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering ${WORD_NAMESPACE}><w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="240"/></w:pPr></w:lvl></w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+    return createZip([
+        {
+            name: '[Content_Types].xml',
+            content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/></Types>`,
+        },
+        {
+            name: '_rels/.rels',
+            content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`,
+        },
+        {
+            name: 'word/_rels/document.xml.rels',
+            content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/></Relationships>`,
+        },
+        { name: 'word/document.xml', content: document },
+        { name: 'word/styles.xml', content: styles },
+        { name: 'word/numbering.xml', content: numbering },
+    ]);
+};
+
+export const exportResume = (resume: StructuredResume, layout: ResumeLayout, format: ResumeExportFormat): BlobPart => {
+    switch (format) {
+        case 'pdf': return buildPdf(resumeToBlocks(resume), layout);
+        case 'docx': return buildDocx(resumeToBlocks(resume), layout);
+        case 'markdown': return resumeToMarkdown(resume);
+        case 'text': return resumeToPlainText(resume);
+    }
+};
+
+// Cover letters use the same layouts as resumes, with the resume's contact
+// header when one is given.
+export const exportCoverLetter = (
+    letter: CoverLetter,
+    header: StructuredResume | null,
+    layout: ResumeLayout,
+    format: CoverLetterExportFormat
+): BlobPart => {
+    switch (format) {
+        case 'pdf': return buildPdf(coverLetterToBlocks(letter, header), layout);
+        case 'docx': return buildDocx(coverLetterToBlocks(letter, header), layout);
+        case 'text': return coverLetterToPlainText(letter);
+    }
+};
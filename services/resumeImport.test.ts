@@ -0,0 +1,30 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { importResumeFile } from './resumeImport';
+import { createZip } from './zip';
+
+const NAMESPACES = [
+    'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+    'xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006"',
+    'xmlns:wps="http://schemas.microsoft.com/office/word/2010/wordprocessingShape"',
+    'xmlns:v="urn:schemas-microsoft-com:vml"',
+].join(' ');
+
+const paragraph = (text: string, properties = '') => `<w:p>${properties}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+const docxFile = (body: string) => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?><w:document ${NAMESPACES}><w:body>${body}</w:body></w:document>`;
+    return new File([createZip([{ name: 'word/document.xml', content: xml }])], 'resume.docx');
+};
+
+describe('importResumeFile DOCX', () => {
+    it('reads a text box once and keeps the anchoring paragraph\'s own style', async () => {
+        const textBox = paragraph('Skills', '<w:pPr><w:pStyle w:val="ListParagraph"/><w:numPr><w:numId w:val="1"/></w:numPr></w:pPr>');
+        const anchor = `<w:p><w:pPr><w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs></w:pPr><w:r><w:t>Jane Doe</w:t></w:r><w:r><mc:AlternateContent>`
+            + `<mc:Choice Requires="wps"><w:drawing><wps:txbx><w:txbxContent>${textBox}</w:txbxContent></wps:txbx></w:drawing></mc:Choice>`
+            + `<mc:Fallback><w:pict><v:shape><v:textbox><w:txbxContent>${textBox}</w:txbxContent></v:textbox></v:shape></w:pict></mc:Fallback>`
+            + `</mc:AlternateContent></w:r></w:p>`;
+        const result = await importResumeFile(docxFile(anchor + paragraph('Experience', '<w:pPr><w:pStyle w:val="Heading1"/></w:pPr>')));
+        expect(result.text.split('\n').filter(Boolean)).toEqual(['Jane Doe', '- Skills', '## Experience']);
+    });
+});
@@ -0,0 +1,289 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { BULLET_PREFIX } from './textAnalysis';
+import { readZipEntry } from './zip';
+
+export type ResumeFileKind = 'pdf' | 'docx' | 'markdown' | 'text';
+
+export interface ResumeImportResult {
+    fileName: string;
+    kind: ResumeFileKind;
+    // Plain text with Markdown-style "## " headings and "- " bullets.
+    text: string;
+    // Layout problems that are likely to trip up an ATS as well.
+    warnings: string[];
+}
+
+export const RESUME_FILE_ACCEPT = '.pdf,.docx,.md,.markdown,.txt';
+
+const MAX_RESUME_FILE_BYTES = 10 * 1024 * 1024;
+// Below this many characters per page a PDF is treated as mostly images.
+const MIN_PDF_CHARS_PER_PAGE = 200;
+// Runs whose baselines are this close (relative to text height) share a line.
+const LINE_Y_TOLERANCE = 0.5;
+// A vertical gap this many line heights tall starts a new paragraph.
+const PARAGRAPH_GAP = 1.8;
+// Lines this much taller than the body text are treated as headings.
+const HEADING_SCALE = 1.2;
+// A column gutter may be crossed by at most this share of lines, and each side
+// must hold at least this share of them.
+const GUTTER_MAX_CROSSING = 0.1;
+const GUTTER_MIN_SIDE_SHARE = 0.25;
+const MIN_COLUMN_LINES = 8;
+
+const IMAGE_ONLY_WARNING = 'No selectable text was found. This PDF looks like a scanned image, which most ATS systems cannot read.';
+const LOW_TEXT_WARNING = 'Very little selectable text was found. Parts of this PDF may be images, which ATS systems cannot read.';
+const MULTI_COLUMN_WARNING = 'This resume appears to use a multi-column layout. Many ATS systems read straight across columns and scramble the content; a single-column layout is safer.';
+const TEXT_BOX_WARNING = 'This document places text in columns or text boxes. Many ATS systems skip or scramble that content; a single-column layout is safer.';
+
+const normalizeBullet = (line: string): string => line.replace(BULLET_PREFIX, '- ');
+
+const tidyText = (text: string): string => text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const fileKind = (file: File): ResumeFileKind | null => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+    if (extension === 'docx') return 'docx';
+    if (extension === 'md' || extension === 'markdown') return 'markdown';
+    if (extension === 'txt' || file.type === 'text/plain') return 'text';
+    return null;
+};
+
+// --- PDF ---
+
+interface PdfTextRun {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface PdfLine {
+    y: number;
+    height: number;
+    runs: PdfTextRun[];
+}
+
+const groupIntoLines = (runs: PdfTextRun[]): PdfLine[] => {
+    const lines: PdfLine[] = [];
+    // PDF coordinates grow upwards, so the top of the page has the largest y.
+    for (const run of [...runs].sort((a, b) => b.y - a.y || a.x - b.x)) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(line.y - run.y) <= Math.max(line.height, run.height) * LINE_Y_TOLERANCE) {
+            line.runs.push(run);
+            line.height = Math.max(line.height, run.height);
+        } else {
+            lines.push({ y: run.y, height: run.height, runs: [run] });
+        }
+    }
+    lines.forEach(line => line.runs.sort((a, b) => a.x - b.x));
+    return lines;
+};
+
+// The x position of a gap that splits the page into two columns, if there is one.
+const findColumnGutter = (lines: PdfLine[], pageWidth: number): number | null => {
+    if (lines.length < MIN_COLUMN_LINES) return null;
+    let gutter: number | null = null;
+    let bestSide = 0;
+    for (let x = pageWidth * 0.2; x <= pageWidth * 0.8; x += pageWidth * 0.02) {
+        let crossing = 0;
+        let left = 0;
+        let right = 0;
+        for (const line of lines) {
+            if (line.runs.some(run => run.x < x && run.x + run.width > x)) {
+                crossing++;
+                continue;
+            }
+            if (line.runs.some(run => run.x + run.width <= x)) left++;
+            if (line.runs.some(run => run.x >= x)) right++;
+        }
+        const smallerSide = Math.min(left, right);
+        if (crossing / lines.length <= GUTTER_MAX_CROSSING
+            && smallerSide / lines.length >= GUTTER_MIN_SIDE_SHARE
+            && smallerSide > bestSide) {
+            gutter = x;
+            bestSide = smallerSide;
+        }
+    }
+    return gutter;
+};
+
+const lineText = (runs: PdfTextRun[], height: number): string => {
+    let text = '';
+    let end = -Infinity;
+    for (const run of runs) {
+        if (text && !/\s$/.test(text) && run.x - end > height * 0.2) text += ' ';
+        text += run.text;
+        end = run.x + run.width;
+    }
+    return text.trim();
+};
+
+const linesToText = (lines: PdfLine[], bodyHeight: number): string => {
+    const output: string[] = [];
+    let previous: PdfLine | null = null;
+    for (const line of lines) {
+        const text = lineText(line.runs, line.height);
+        if (!text) continue;
+        if (previous && previous.y - line.y > Math.max(previous.height, line.height) * PARAGRAPH_GAP) {
+            output.push('');
+        }
+        const isHeading = line.height > bodyHeight * HEADING_SCALE && !BULLET_PREFIX.test(text);
+        output.push(isHeading ? `## ${text}` : normalizeBullet(text));
+        previous = line;
+    }
+    return output.join('\n');
+};
+
+const median = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+const extractPdf = async (file: File): Promise<{ text: string; warnings: string[] }> => {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        const pages: { runs: PdfTextRun[]; lines: PdfLine[]; width: number }[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            const runs = content.items
+                .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+                .map(item => ({
+                    text: item.str,
+                    x: item.transform[4],
+                    y: item.transform[5],
+                    width: item.width,
+                    height: item.height || Math.abs(item.transform[3]),
+                }));
+            pages.push({ runs, lines: groupIntoLines(runs), width: page.getViewport({ scale: 1 }).width });
+        }
+
+        const bodyHeight = median(pages.flatMap(page => page.lines.map(line => line.height)));
+        let hasColumns = false;
+        const pageTexts = pages.map(({ runs, lines, width }) => {
+            const gutter = findColumnGutter(lines, width);
+            if (gutter === null) return linesToText(lines, bodyHeight);
+            // Read the left column top to bottom, then the right one.
+            hasColumns = true;
+            const column = (isLeft: boolean) =>
+                groupIntoLines(runs.filter(run => (run.x + run.width / 2 < gutter) === isLeft));
+            return `${linesToText(column(true), bodyHeight)}\n\n${linesToText(column(false), bodyHeight)}`;
+        });
+
+        const text = tidyText(pageTexts.join('\n\n'));
+        const warnings: string[] = [];
+        const characterCount = text.replace(/\s/g, '').length;
+        if (characterCount === 0) {
+            warnings.push(IMAGE_ONLY_WARNING);
+        } else if (characterCount < pdf.numPages * MIN_PDF_CHARS_PER_PAGE) {
+            warnings.push(LOW_TEXT_WARNING);
+        }
+        if (hasColumns) warnings.push(MULTI_COLUMN_WARNING);
+        return { text, warnings };
+    } finally {
+        await pdf.destroy();
+    }
+};
+
+// --- DOCX ---
+
+// Paragraph properties hold tab stop definitions rather than text, and text
+// box paragraphs are read on their own, so neither is part of the paragraph.
+// mc:Fallback repeats the mc:Choice content for older readers.
+const SKIPPED_PARAGRAPH_ELEMENTS = new Set(['w:pPr', 'w:txbxContent', 'mc:Fallback']);
+
+const childElement = (element: Element, tagName: string): Element | undefined =>
+    Array.from(element.children).find(child => child.tagName === tagName);
+
+const isInFallback = (element: Element): boolean => {
+    for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+        if (parent.tagName === 'mc:Fallback') return true;
+    }
+    return false;
+};
+
+const paragraphText = (paragraph: Element): string => {
+    let text = '';
+    // Runs can be nested in hyperlinks, tracked insertions and content controls.
+    const visit = (element: Element) => {
+        for (const node of Array.from(element.children)) {
+            if (SKIPPED_PARAGRAPH_ELEMENTS.has(node.tagName)) continue;
+            if (node.tagName === 'w:t') text += node.textContent ?? '';
+            else if (node.tagName === 'w:tab') text += '\t';
+            else if (node.tagName === 'w:br') text += '\n';
+            else visit(node);
+        }
+    };
+    visit(paragraph);
+    return text.trim();
+};
+
+const extractDocx = async (file: File): Promise<{ text: string; warnings: string[] }> => {
+    let xml: string | null = null;
+    try {
+        xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+    } catch (error) {
+        console.error("Failed to read DOCX archive:", error);
+    }
+    if (xml === null) throw new Error('This file is not a valid DOCX document.');
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+
+    const output: string[] = [];
+    for (const paragraph of Array.from(document.getElementsByTagName('w:p'))) {
+        if (isInFallback(paragraph)) continue;
+        const text = paragraphText(paragraph);
+        if (!text) {
+            output.push('');
+            continue;
+        }
+        // Only the paragraph's own properties; a text box inside it has its own.
+        const properties = childElement(paragraph, 'w:pPr');
+        const style = (properties && childElement(properties, 'w:pStyle')?.getAttribute('w:val')) ?? '';
+        if (/^(heading|title)/i.test(style)) {
+            output.push('', `## ${text}`);
+        } else if ((properties && childElement(properties, 'w:numPr')) || /list/i.test(style)) {
+            output.push(`- ${text.replace(BULLET_PREFIX, '')}`);
+        } else {
+            output.push(normalizeBullet(text));
+        }
+    }
+
+    const warnings: string[] = [];
+    const hasColumns = Array.from(document.getElementsByTagName('w:cols'))
+        .some(cols => Number(cols.getAttribute('w:num') ?? '1') > 1);
+    if (hasColumns || document.getElementsByTagName('w:txbxContent').length > 0) {
+        warnings.push(TEXT_BOX_WARNING);
+    }
+    return { text: tidyText(output.join('\n')), warnings };
+};
+
+// Extract resume text in the browser, so nothing leaves the device before
+// the candidate chooses to analyze it.
+export const importResumeFile = async (file: File): Promise<ResumeImportResult> => {
+    const kind = fileKind(file);
+    if (!kind) {
+        throw new Error('Unsupported file type. Please upload a PDF, DOCX, Markdown or TXT file.');
+    }
+    if (file.size > MAX_RESUME_FILE_BYTES) {
+        throw new Error('This file is larger than 10 MB. Please upload a smaller resume.');
+    }
+
+    if (kind === 'pdf') {
+        return { fileName: file.name, kind, ...await extractPdf(file) };
+    }
+    if (kind === 'docx') {
+        return { fileName: file.name, kind, ...await extractDocx(file) };
+    }
+    return { fileName: file.name, kind, text: tidyText(await file.text()), warnings: [] };
+};
@@ -0,0 +1,255 @@
+import {
+    ResumeBullet,
+    ResumeEducation,
+    ResumeExperience,
+    ResumeLayout,
+    ResumeProject,
+    ResumeSkillGroup,
+    StructuredResume,
+} from "../types";
+
+export const createResumeBullet = (text = ''): ResumeBullet => ({ id: crypto.randomUUID(), text });
+
+export const createSkillGroup = (label = '', items = ''): ResumeSkillGroup => ({ id: crypto.randomUUID(), label, items });
+
+export const createExperience = (): ResumeExperience => ({
+    id: crypto.randomUUID(),
+    title: '',
+    company: '',
+    location: '',
+    startDate: '',
+    endDate: '',
+    bullets: [createResumeBullet()],
+});
+
+export const createEducation = (): ResumeEducation => ({
+    id: crypto.randomUUID(),
+    degree: '',
+    school: '',
+    location: '',
+    graduationDate: '',
+    details: '',
+});
+
+export const createProject = (): ResumeProject => ({
+    id: crypto.randomUUID(),
+    name: '',
+    link: '',
+    bullets: [createResumeBullet()],
+});
+
+// Starts with the same sections as the ATS template.
+export const createEmptyResume = (): StructuredResume => ({
+    contact: { name: '', location: '', phone: '', email: '', linkedin: '', website: '' },
+    summary: '',
+    skills: [createSkillGroup('Technical Skills'), createSkillGroup('Soft Skills'), createSkillGroup('Certifications')],
+    experience: [createExperience()],
+    education: [createEducation()],
+    projects: [],
+});
+
+export interface ResumeLayoutStyle {
+    label: string;
+    description: string;
+    centerHeader: boolean;
+    uppercaseHeadings: boolean;
+    // Draw a line under each section heading.
+    headingRule: boolean;
+    accentColor: string;
+    // Font sizes and section spacing, in points.
+    nameSize: number;
+    bodySize: number;
+    sectionGap: number;
+}
+
+// Every layout is a single column of real text, so all of them parse cleanly.
+export const RESUME_LAYOUTS: Record<ResumeLayout, ResumeLayoutStyle> = {
+    classic: {
+        label: 'Classic',
+        description: 'Centered header, ruled uppercase headings.',
+        centerHeader: true,
+        uppercaseHeadings: true,
+        headingRule: true,
+        accentColor: '#111827',
+        nameSize: 20,
+        bodySize: 10.5,
+        sectionGap: 10,
+    },
+    modern: {
+        label: 'Modern',
+        description: 'Left-aligned header with accent-colored headings.',
+        centerHeader: false,
+        uppercaseHeadings: false,
+        headingRule: false,
+        accentColor: '#1e3a8a',
+        nameSize: 22,
+        bodySize: 10.5,
+        sectionGap: 12,
+    },
+    compact: {
+        label: 'Compact',
+        description: 'Smaller type and tighter spacing to fit one page.',
+        centerHeader: false,
+        uppercaseHeadings: true,
+        headingRule: true,
+        accentColor: '#111827',
+        nameSize: 16,
+        bodySize: 9.5,
+        sectionGap: 6,
+    },
+};
+
+export type ResumeBlockKind = 'name' | 'contact' | 'heading' | 'entry' | 'paragraph' | 'bullet';
+
+// A resume flattened into the lines every renderer and exporter works from.
+export interface ResumeBlock {
+    kind: ResumeBlockKind;
+    text: string;
+    // Short reference such as "E1.B2", used to point analysis suggestions at a bullet.
+    ref?: string;
+}
+
+export interface ResumeReference {
+    ref: string;
+    label: string;
+    text: string;
+}
+
+const joinParts = (parts: string[], separator = ' | '): string =>
+    parts.map(part => part.trim()).filter(Boolean).join(separator);
+
+export const formatDateRange = (start: string, end: string): string => joinParts([start, end], ' – ');
+
+export const formatContactLine = (resume: StructuredResume): string => {
+    const { location, phone, email, linkedin, website } = resume.contact;
+    return joinParts([location, phone, email, linkedin, website]);
+};
+
+const experienceLine = (entry: ResumeExperience) =>
+    joinParts([entry.title, joinParts([entry.company, entry.location], ', '), formatDateRange(entry.startDate, entry.endDate)]);
+
+const educationLine = (entry: ResumeEducation) =>
+    joinParts([entry.degree, joinParts([entry.school, entry.location], ', '), entry.graduationDate]);
+
+const projectLine = (project: ResumeProject) => joinParts([project.name, project.link]);
+
+const bulletBlocks = (bullets: ResumeBullet[], entryRef: string): ResumeBlock[] => bullets
+    .map((bullet, index) => ({ kind: 'bullet' as const, text: bullet.text.trim(), ref: `${entryRef}.B${index + 1}` }))
+    .filter(block => block.text);
+
+export const resumeToBlocks = (resume: StructuredResume): ResumeBlock[] => {
+    const blocks: ResumeBlock[] = [];
+    const name = resume.contact.name.trim();
+    const contact = formatContactLine(resume);
+    if (name) blocks.push({ kind: 'name', text: name });
+    if (contact) blocks.push({ kind: 'contact', text: contact, ref: 'CONTACT' });
+
+    if (resume.summary.trim()) {
+        blocks.push({ kind: 'heading', text: 'Summary' }, { kind: 'paragraph', text: resume.summary.trim(), ref: 'SUMMARY' });
+    }
+
+    const skills = resume.skills
+        .map((group, index) => ({ kind: 'bullet' as const, text: joinParts([group.label, group.items], ': '), ref: `S${index + 1}`, items: group.items.trim() }))
+        .filter(block => block.items);
+    if (skills.length > 0) {
+        blocks.push({ kind: 'heading', text: 'Skills' }, ...skills.map(({ kind, text, ref }) => ({ kind, text, ref })));
+    }
+
+    const experience = resume.experience.flatMap((entry, index): ResumeBlock[] => {
+        const line = experienceLine(entry);
+        const bullets = bulletBlocks(entry.bullets, `E${index + 1}`);
+        return line || bullets.length > 0 ? [{ kind: 'entry', text: line, ref: `E${index + 1}` }, ...bullets] : [];
+    });
+    if (experience.length > 0) blocks.push({ kind: 'heading', text: 'Experience' }, ...experience);
+
+    const education = resume.education.flatMap((entry, index): ResumeBlock[] => {
+        const line = educationLine(entry);
+        if (!line) return [];
+        const details = entry.details.trim();
+        return [
+            { kind: 'entry', text: line, ref: `ED${index + 1}` },
+            ...(details ? [{ kind: 'bullet' as const, text: details, ref: `ED${index + 1}.B1` }] : []),
+        ];
+    });
+    if (education.length > 0) blocks.push({ kind: 'heading', text: 'Education' }, ...education);
+
+    const projects = resume.projects.flatMap((project, index): ResumeBlock[] => {
+        const line = projectLine(project);
+        const bullets = bulletBlocks(project.bullets, `P${index + 1}`);
+        return line || bullets.length > 0 ? [{ kind: 'entry', text: line, ref: `P${index + 1}` }, ...bullets] : [];
+    });
+    if (projects.length > 0) blocks.push({ kind: 'heading', text: 'Projects' }, ...projects);
+
+    return blocks;
+};
+
+export const headingText = (text: string, uppercase: boolean): string => uppercase ? text.toUpperCase() : text;
+
+// Plain text in the same shape as the ATS template.
+export const resumeToPlainText = (resume: StructuredResume): string => {
+    const lines: string[] = [];
+    let previous: ResumeBlockKind | null = null;
+    for (const block of resumeToBlocks(resume)) {
+        if (block.kind === 'heading' || (block.kind === 'entry' && previous !== 'heading')) lines.push('');
+        if (block.kind === 'heading') lines.push(block.text.toUpperCase());
+        else if (block.kind === 'bullet') lines.push(`- ${block.text}`);
+        else lines.push(block.text);
+        previous = block.kind;
+    }
+    return lines.join('\n').trim();
+};
+
+export const resumeToMarkdown = (resume: StructuredResume): string => {
+    const lines: string[] = [];
+    let previous: ResumeBlockKind | null = null;
+    for (const block of resumeToBlocks(resume)) {
+        if (block.kind === 'name') lines.push(`# ${block.text}`, '');
+        else if (block.kind === 'heading') lines.push('', `## ${block.text}`, '');
+        else if (block.kind === 'entry') lines.push(...(previous === 'heading' ? [] : ['']), `**${block.text}**`, '');
+        else if (block.kind === 'bullet') lines.push(`- ${block.text}`);
+        else lines.push(block.text);
+        previous = block.kind;
+    }
+    return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+};
+
+const sectionNames: Record<string, string> = {
+    CONTACT: 'Contact line',
+    SUMMARY: 'Summary',
+    S: 'Skills',
+    E: 'Experience',
+    ED: 'Education',
+    P: 'Projects',
+};
+
+// Human-readable labels for every referenced block, keyed by ref.
+export const listResumeReferences = (resume: StructuredResume): Map<string, ResumeReference> => {
+    const references = new Map<string, ResumeReference>();
+    const entries = new Map<string, string>();
+    for (const block of resumeToBlocks(resume)) {
+        if (!block.ref) continue;
+        const [entryRef, bulletRef] = block.ref.split('.');
+        const section = sectionNames[entryRef] ?? sectionNames[entryRef.replace(/\d+$/, '')] ?? entryRef;
+        let label = section;
+        if (block.kind === 'entry') {
+            // Title and company are enough to tell entries apart.
+            const entryName = block.text.split(' | ').slice(0, 2).join(', ');
+            entries.set(entryRef, entryName);
+            label = `${section}: ${entryName}`;
+        } else if (bulletRef) {
+            label = `${section}: ${entries.get(entryRef) ?? entryRef}, bullet ${bulletRef.slice(1)}`;
+        }
+        references.set(block.ref, { ref: block.ref, label, text: block.text });
+    }
+    return references;
+};
+
+// The resume as prompt text, with every line tagged by its reference so the
+// model can point its suggestions at specific sections and bullets.
+export const resumeToAnalysisText = (resume: StructuredResume): string =>
+    resumeToBlocks(resume)
+        .map(block => {
+            const text = block.kind === 'heading' ? block.text.toUpperCase() : block.kind === 'bullet' ? `- ${block.text}` : block.text;
+            return block.ref ? `[${block.ref}] ${text}` : text;
+        })
+        .join('\n');
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { applyRewritesToText } from './resumeRewrites';
+
+const rewrite = (original: string, rewritten: string) => ({ original, rewritten, reason: '' });
+
+describe('applyRewritesToText', () => {
+    it('keeps "$" patterns in the rewrite literally', () => {
+        const { updated } = applyRewritesToText('- Cut costs', [rewrite('Cut costs', 'Cut costs by $$40k ($&)')]);
+        expect(updated).toBe('- Cut costs by $$40k ($&)');
+    });
+
+    it('prefers the line that matches exactly over one that only contains the text', () => {
+        const text = '- Led migration to AWS and trained the team\n  • Led migration to AWS';
+        const { updated } = applyRewritesToText(text, [rewrite('- Led migration to AWS', 'Led a 6-month migration to AWS')]);
+        expect(updated).toBe('- Led migration to AWS and trained the team\n  • Led a 6-month migration to AWS');
+    });
+
+    it('falls back to replacing part of a line', () => {
+        const { updated, skipped } = applyRewritesToText('Skills: Java, helped with APIs', [rewrite('helped with APIs', 'designed REST APIs')]);
+        expect(updated).toBe('Skills: Java, designed REST APIs');
+        expect(skipped).toEqual([]);
+    });
+
+    it('skips rewrites whose line is gone', () => {
+        const missing = rewrite('Managed a team', 'Managed a team of 8');
+        expect(applyRewritesToText('- Wrote tests', [missing])).toEqual({ updated: '- Wrote tests', skipped: [missing] });
+    });
+});
@@ -0,0 +1,91 @@
+import { LineRewrite, ResumeBullet, StructuredResume } from "../types";
+import { BULLET_PREFIX } from "./textAnalysis";
+
+export interface RewriteResult<T> {
+    updated: T;
+    // Rewrites whose original line is no longer in the resume.
+    skipped: LineRewrite[];
+}
+
+const sameLine = (a: string, b: string) => a.trim() === b.trim();
+
+// A line without its indentation and bullet marker.
+const lineBody = (line: string) => line.trim().replace(BULLET_PREFIX, '').trim();
+
+// The indentation and bullet marker a rewritten line keeps.
+const linePrefix = (line: string) => {
+    const indent = line.slice(0, line.length - line.trimStart().length);
+    return indent + (line.trimStart().match(BULLET_PREFIX)?.[0] ?? '');
+};
+
+// Replace the line whose text is each rewrite's original, keeping the line's
+// bullet marker and indentation. When no line matches exactly, the first line
+// containing the original text has just that part replaced.
+export const applyRewritesToText = (text: string, rewrites: LineRewrite[]): RewriteResult<string> => {
+    const lines = text.split('\n');
+    const skipped: LineRewrite[] = [];
+    for (const rewrite of rewrites) {
+        const original = lineBody(rewrite.original);
+        const rewritten = lineBody(rewrite.rewritten);
+        if (!original) {
+            skipped.push(rewrite);
+            continue;
+        }
+        const exact = lines.findIndex(line => lineBody(line) === original);
+        if (exact !== -1) {
+            lines[exact] = linePrefix(lines[exact]) + rewritten;
+            continue;
+        }
+        const index = lines.findIndex(line => line.includes(original));
+        if (index === -1) {
+            skipped.push(rewrite);
+            continue;
+        }
+        // A replacer function, so "$&" or "$$" in the rewrite stay as written.
+        lines[index] = lines[index].replace(original, () => rewritten);
+    }
+    return { updated: lines.join('\n'), skipped };
+};
+
+const rewriteBullets = (bullets: ResumeBullet[], bulletRef: string, rewrite: LineRewrite): ResumeBullet[] | null => {
+    const index = Number(bulletRef.slice(1)) - 1;
+    const bullet = bullets[index];
+    if (!bullet || !sameLine(bullet.text, rewrite.original)) return null;
+    return bullets.map((b, i) => i === index ? { ...b, text: rewrite.rewritten.trim() } : b);
+};
+
+// Apply one rewrite by its reference, or return null when the line has
+// changed since it was analyzed.
+const applyRewriteToResume = (resume: StructuredResume, rewrite: LineRewrite): StructuredResume | null => {
+    const [entryRef, bulletRef] = (rewrite.ref ?? '').split('.');
+    if (entryRef === 'SUMMARY') {
+        return sameLine(resume.summary, rewrite.original) ? { ...resume, summary: rewrite.rewritten.trim() } : null;
+    }
+    const match = entryRef.match(/^(E|ED|P)(\d+)$/);
+    if (!match || !bulletRef?.match(/^B\d+$/)) return null;
+    const index = Number(match[2]) - 1;
+    if (match[1] === 'E') {
+        const entry = resume.experience[index];
+        const bullets = entry && rewriteBullets(entry.bullets, bulletRef, rewrite);
+        return bullets ? { ...resume, experience: resume.experience.map((e, i) => i === index ? { ...e, bullets } : e) } : null;
+    }
+    if (match[1] === 'P') {
+        const project = resume.projects[index];
+        const bullets = project && rewriteBullets(project.bullets, bulletRef, rewrite);
+        return bullets ? { ...resume, projects: resume.projects.map((p, i) => i === index ? { ...p, bullets } : p) } : null;
+    }
+    const entry = resume.education[index];
+    if (!entry || bulletRef !== 'B1' || !sameLine(entry.details, rewrite.original)) return null;
+    return { ...resume, education: resume.education.map((e, i) => i === index ? { ...e, details: rewrite.rewritten.trim() } : e) };
+};
+
+export const applyRewritesToResume = (resume: StructuredResume, rewrites: LineRewrite[]): RewriteResult<StructuredResume> => {
+    const skipped: LineRewrite[] = [];
+    let updated = resume;
+    for (const rewrite of rewrites) {
+        const next = applyRewriteToResume(updated, rewrite);
+        if (next) updated = next;
+        else skipped.push(rewrite);
+    }
+    return { updated, skipped };
+};
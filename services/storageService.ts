@@ -0,0 +1,139 @@
+import { InterviewSession, JobDescription, QuestionPlan, ResumeVersion } from "../types";
+
+const DB_NAME = 'ai-interviewer-pro';
+const DB_VERSION = 5;
+const INTERVIEW_SESSIONS_STORE = 'interviewSessions';
+// Recordings are kept apart from sessions so listing history does not load audio.
+const INTERVIEW_RECORDINGS_STORE = 'interviewRecordings';
+const QUESTION_PLANS_STORE = 'questionPlans';
+const RESUME_VERSIONS_STORE = 'resumeVersions';
+const JOB_DESCRIPTIONS_STORE = 'jobDescriptions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and lazily upgrade) the local IndexedDB database. The connection is
+// shared by every caller for the lifetime of the page.
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) {
+        return dbPromise;
+    }
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(INTERVIEW_SESSIONS_STORE)) {
+                const store = db.createObjectStore(INTERVIEW_SESSIONS_STORE, { keyPath: 'id' });
+                store.createIndex('startedAt', 'startedAt');
+            }
+            if (!db.objectStoreNames.contains(INTERVIEW_RECORDINGS_STORE)) {
+                db.createObjectStore(INTERVIEW_RECORDINGS_STORE);
+            }
+            if (!db.objectStoreNames.contains(QUESTION_PLANS_STORE)) {
+                const store = db.createObjectStore(QUESTION_PLANS_STORE, { keyPath: 'id' });
+                store.createIndex('updatedAt', 'updatedAt');
+            }
+            if (!db.objectStoreNames.contains(RESUME_VERSIONS_STORE)) {
+                const store = db.createObjectStore(RESUME_VERSIONS_STORE, { keyPath: 'id' });
+                store.createIndex('createdAt', 'createdAt');
+            }
+            if (!db.objectStoreNames.contains(JOB_DESCRIPTIONS_STORE)) {
+                const store = db.createObjectStore(JOB_DESCRIPTIONS_STORE, { keyPath: 'id' });
+                store.createIndex('createdAt', 'createdAt');
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+// Run a single request against an object store and resolve with its result.
+const runRequest = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = makeRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+// Interview sessions
+export const saveInterviewSession = async (session: InterviewSession): Promise<void> => {
+    await runRequest(INTERVIEW_SESSIONS_STORE, 'readwrite', store => store.put(session));
+};
+
+export const getInterviewSession = (id: string): Promise<InterviewSession | undefined> =>
+    runRequest(INTERVIEW_SESSIONS_STORE, 'readonly', store => store.get(id));
+
+// Newest sessions first.
+export const listInterviewSessions = async (): Promise<InterviewSession[]> => {
+    const sessions = await runRequest<InterviewSession[]>(INTERVIEW_SESSIONS_STORE, 'readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteInterviewSession = async (id: string): Promise<void> => {
+    await runRequest(INTERVIEW_SESSIONS_STORE, 'readwrite', store => store.delete(id));
+    await runRequest(INTERVIEW_RECORDINGS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Interview recordings, keyed by session id
+export const saveInterviewRecording = async (sessionId: string, recording: Blob): Promise<void> => {
+    await runRequest(INTERVIEW_RECORDINGS_STORE, 'readwrite', store => store.put(recording, sessionId));
+};
+
+export const getInterviewRecording = (sessionId: string): Promise<Blob | undefined> =>
+    runRequest(INTERVIEW_RECORDINGS_STORE, 'readonly', store => store.get(sessionId));
+
+// Question plans, reusable across candidates
+export const saveQuestionPlan = async (plan: QuestionPlan): Promise<void> => {
+    await runRequest(QUESTION_PLANS_STORE, 'readwrite', store => store.put(plan));
+};
+
+// Most recently edited plans first.
+export const listQuestionPlans = async (): Promise<QuestionPlan[]> => {
+    const plans = await runRequest<QuestionPlan[]>(QUESTION_PLANS_STORE, 'readonly', store => store.getAll());
+    return plans.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteQuestionPlan = async (id: string): Promise<void> => {
+    await runRequest(QUESTION_PLANS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Analyzed resume versions
+export const saveResumeVersion = async (version: ResumeVersion): Promise<void> => {
+    await runRequest(RESUME_VERSIONS_STORE, 'readwrite', store => store.put(version));
+};
+
+// Newest versions first.
+export const listResumeVersions = async (): Promise<ResumeVersion[]> => {
+    const versions = await runRequest<ResumeVersion[]>(RESUME_VERSIONS_STORE, 'readonly', store => store.getAll());
+    return versions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteResumeVersion = async (id: string): Promise<void> => {
+    await runRequest(RESUME_VERSIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Parsed job descriptions, shared by the Interview and Resume tabs
+export const saveJobDescription = async (jd: JobDescription): Promise<void> => {
+    await runRequest(JOB_DESCRIPTIONS_STORE, 'readwrite', store => store.put(jd));
+};
+
+// Newest first.
+export const listJobDescriptions = async (): Promise<JobDescription[]> => {
+    const jds = await runRequest<JobDescription[]>(JOB_DESCRIPTIONS_STORE, 'readonly', store => store.getAll());
+    return jds.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteJobDescription = async (id: string): Promise<void> => {
+    await runRequest(JOB_DESCRIPTIONS_STORE, 'readwrite', store => store.delete(id));
+};
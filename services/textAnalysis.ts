@@ -0,0 +1,70 @@
+// Common English words that carry no meaning for keyword matching.
+export const STOP_WORDS = new Set([
+    'about', 'also', 'and', 'are', 'but', 'can', 'could', 'did', 'does', 'each', 'for', 'from', 'has', 'have',
+    'how', 'into', 'its', 'just', 'like', 'more', 'most', 'not', 'our', 'over', 'should', 'some', 'such',
+    'tell', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'very',
+    'was', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Words that appear in most job descriptions without saying anything about the role.
+export const JD_FILLER_WORDS = new Set([
+    'ability', 'able', 'across', 'all', 'any', 'bonus', 'candidate', 'company', 'desired', 'etc', 'experience',
+    'ideal', 'ideally', 'including', 'join', 'looking', 'minimum', 'must', 'need', 'nice', 'plus', 'preferred',
+    'required', 'requirements', 'responsibilities', 'role', 'skills', 'strong', 'team', 'using', 'well', 'within',
+    'work', 'working', 'year', 'years',
+]);
+
+// Lower-cased words of three or more characters, without stop words.
+export const contentWords = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.'-]*[a-z0-9+#]|[a-z0-9]/g) ?? [])
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+export const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+// A list marker at the start of a line: a bullet symbol, or a dash or asterisk followed by a space.
+export const BULLET_PREFIX = /^(?:[•●▪■◦‣⁃∙·➢]\s*|[-*–]\s+)/;
+
+export interface DiffSegment {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Diff of two token lists from their longest common subsequence. Tokens keep
+// their trailing whitespace so the segments read back as the original texts.
+const diffTokens = (a: string[], b: string[]): DiffSegment[] => {
+    const same = (x: string, y: string) => x.trimEnd() === y.trimEnd();
+    // lengths[i][j] is the common subsequence length of a[i..] and b[j..].
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) last.text += text;
+        else segments.push({ type, text });
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && same(a[i], b[j])) {
+            push('same', b[j]);
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    return segments;
+};
+
+export const diffWords = (before: string, after: string): DiffSegment[] =>
+    diffTokens(before.match(/\S+\s*/g) ?? [], after.match(/\S+\s*/g) ?? []);
+
+export const diffLines = (before: string, after: string): DiffSegment[] =>
+    diffTokens(before.match(/[^\n]*\n|[^\n]+/g) ?? [], after.match(/[^\n]*\n|[^\n]+/g) ?? []);
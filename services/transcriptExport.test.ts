@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewSession } from '../types';
+import { exportTranscript } from './transcriptExport';
+
+const session = (text: string): InterviewSession => ({
+    id: 'session',
+    jobRole: 'Engineer',
+    jobDescription: '',
+    startedAt: 0,
+    endedAt: 60000,
+    transcripts: [
+        { speaker: 'user', text, startMs: 0, endMs: 4000 },
+        { speaker: 'model', text: 'Thanks.', startMs: 5000, endMs: 6000 },
+    ],
+});
+
+// Cues are separated by exactly one blank line.
+const cueBlocks = (file: string) => file.trim().split('\n\n');
+
+describe('exportTranscript captions', () => {
+    const text = 'First point.\n\n\nSecond point --> with <b>tags</b> & more';
+
+    it('keeps each WebVTT cue intact and escapes markup', () => {
+        const blocks = cueBlocks(exportTranscript(session(text), 'vtt'));
+        expect(blocks).toHaveLength(3);
+        expect(blocks[1]).toBe('1\n00:00:00.000 --> 00:00:04.000\n<v Candidate>First point.\nSecond point -&gt; with &lt;b&gt;tags&lt;/b&gt; &amp; more');
+    });
+
+    it('keeps each SRT cue intact', () => {
+        const blocks = cueBlocks(exportTranscript(session(text), 'srt'));
+        expect(blocks).toHaveLength(2);
+        expect(blocks[0]).toBe('1\n00:00:00,000 --> 00:00:04,000\nCandidate: First point.\nSecond point -> with <b>tags</b> & more');
+    });
+});
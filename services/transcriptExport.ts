@@ -0,0 +1,106 @@
+import { InterviewSession, TranscriptEntry } from "../types";
+
+export type TranscriptExportFormat = 'markdown' | 'json' | 'vtt' | 'srt';
+
+export const TRANSCRIPT_EXPORT_FORMATS: Record<TranscriptExportFormat, { label: string; extension: string; mimeType: string }> = {
+    markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+    json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+    vtt: { label: 'WebVTT Captions', extension: 'vtt', mimeType: 'text/vtt' },
+    srt: { label: 'SRT Captions', extension: 'srt', mimeType: 'application/x-subrip' },
+};
+
+// Used to estimate cue lengths for entries recorded without timing.
+const ESTIMATED_WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1000;
+
+interface Cue {
+    speaker: string;
+    text: string;
+    startMs: number;
+    endMs: number;
+}
+
+const speakerLabel = (entry: TranscriptEntry) => entry.speaker === 'user' ? 'Candidate' : 'Interviewer';
+
+const toCues = (transcripts: TranscriptEntry[]): Cue[] => {
+    let previousEndMs = 0;
+    return transcripts.map(entry => {
+        const wordCount = entry.text.split(/\s+/).filter(Boolean).length;
+        const startMs = entry.startMs ?? previousEndMs;
+        const endMs = Math.max(entry.endMs ?? startMs + (wordCount / ESTIMATED_WORDS_PER_SECOND) * 1000, startMs + MIN_CUE_MS);
+        previousEndMs = endMs;
+        return { speaker: speakerLabel(entry), text: entry.text, startMs, endMs };
+    });
+};
+
+const formatTimestamp = (ms: number, fractionSeparator: '.' | ',') => {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor((total % 3600000) / 60000);
+    const seconds = Math.floor((total % 60000) / 1000);
+    const millis = total % 1000;
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(millis, 3)}`;
+};
+
+// A blank line ends a caption cue and "-->" starts a timing line, so neither
+// may appear inside cue text.
+const toCueText = (text: string) =>
+    text.replace(/\n\s*\n/g, '\n').replace(/-->/g, '->').trim();
+
+const escapeVttText = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toMarkdown = (session: InterviewSession): string => {
+    const lines = [
+        `# Interview Transcript: ${session.jobRole}`,
+        '',
+        `- **Date:** ${new Date(session.startedAt).toLocaleString()}`,
+        `- **Duration:** ${Math.round((session.endedAt - session.startedAt) / 60000)} min`,
+    ];
+    if (session.feedback?.overallScore !== undefined) {
+        lines.push(`- **Overall Score:** ${session.feedback.overallScore}/100`);
+    }
+    lines.push('', '## Transcript', '');
+    for (const cue of toCues(session.transcripts)) {
+        lines.push(`**${cue.speaker}** _(${formatTimestamp(cue.startMs, '.').slice(0, 8)})_: ${cue.text}`, '');
+    }
+    lines.push('## Job Description', '', session.jobDescription, '');
+    return lines.join('\n');
+};
+
+const toJson = (session: InterviewSession): string => JSON.stringify({
+    jobRole: session.jobRole,
+    jobDescription: session.jobDescription,
+    config: session.config,
+    startedAt: new Date(session.startedAt).toISOString(),
+    endedAt: new Date(session.endedAt).toISOString(),
+    transcript: session.transcripts.map(entry => ({
+        speaker: speakerLabel(entry),
+        text: entry.text,
+        startMs: entry.startMs,
+        endMs: entry.endMs,
+    })),
+    feedback: session.feedback,
+}, null, 2);
+
+const toWebVtt = (session: InterviewSession): string => [
+    'WEBVTT',
+    '',
+    ...toCues(session.transcripts).map((cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}\n<v ${cue.speaker}>${escapeVttText(toCueText(cue.text))}\n`),
+].join('\n');
+
+const toSrt = (session: InterviewSession): string =>
+    toCues(session.transcripts).map((cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${cue.speaker}: ${toCueText(cue.text)}\n`,
+    ).join('\n');
+
+export const exportTranscript = (session: InterviewSession, format: TranscriptExportFormat): string => {
+    switch (format) {
+        case 'markdown': return toMarkdown(session);
+        case 'json': return toJson(session);
+        case 'vtt': return toWebVtt(session);
+        case 'srt': return toSrt(session);
+    }
+};
@@ -0,0 +1,35 @@
+const FRAME_WIDTH = 640;
+const JPEG_QUALITY = 0.6;
+
+// Periodically grab a JPEG frame from the stream's video track and hand it
+// over as base64 (without the data URL prefix). Returns a function that stops
+// sampling.
+export const startFrameSampling = (
+    stream: MediaStream,
+    intervalMs: number,
+    onFrame: (base64Jpeg: string) => void
+): (() => void) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    video.play().catch(err => console.error("Failed to play camera stream:", err));
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+
+    const timer = window.setInterval(() => {
+        if (!context || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return;
+        const scale = Math.min(1, FRAME_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        onFrame(canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1]);
+    }, intervalMs);
+
+    return () => {
+        window.clearInterval(timer);
+        video.pause();
+        video.srcObject = null;
+    };
+};
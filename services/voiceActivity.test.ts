@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceActivityDetector } from './voiceActivity';
+
+// A 100ms frame of a sine wave with the given RMS level.
+const frame = (rms: number) =>
+    Int16Array.from({ length: 1600 }, (_, i) => Math.round(Math.SQRT2 * rms * 0x7fff * Math.sin(i / 5)));
+
+describe('VoiceActivityDetector', () => {
+    it('keeps detecting a long answer', () => {
+        const detector = new VoiceActivityDetector();
+        for (let i = 0; i < 20; i++) detector.process(frame(0.005));
+        // Two minutes of speech, with a short pause every two seconds.
+        const results = Array.from({ length: 1200 }, (_, i) => detector.process(frame(i % 20 < 18 ? 0.05 : 0.005)));
+        expect(results.every(result => result.isSpeaking)).toBe(true);
+    });
+
+    it('catches up with background noise that steps up above the threshold', () => {
+        const detector = new VoiceActivityDetector();
+        for (let i = 0; i < 20; i++) detector.process(frame(0.002));
+        // A fan turns on: fifteen seconds of steady noise well above the old threshold.
+        const results = Array.from({ length: 150 }, () => detector.process(frame(0.05)).isSpeaking);
+        expect(results[0]).toBe(true);
+        expect(results.slice(-30).some(Boolean)).toBe(false);
+        expect(detector.process(frame(0.3)).isSpeaking).toBe(true);
+    });
+
+    it('adapts to louder background noise between utterances', () => {
+        const detector = new VoiceActivityDetector();
+        for (let i = 0; i < 20; i++) detector.process(frame(0.002));
+        // Noise just under the speech threshold raises the floor over time.
+        for (let i = 0; i < 300; i++) detector.process(frame(0.015));
+        expect(detector.process(frame(0.03)).isSpeaking).toBe(false);
+        expect(detector.process(frame(0.1)).isSpeaking).toBe(true);
+    });
+
+    it('stops reporting speech once the hangover has passed', () => {
+        const detector = new VoiceActivityDetector();
+        detector.process(frame(0.1));
+        const after = Array.from({ length: 6 }, () => detector.process(frame(0.001)).isSpeaking);
+        expect(after).toEqual([true, true, true, true, false, false]);
+    });
+});
@@ -0,0 +1,64 @@
+// Speech must be this many times louder than the background noise.
+const SPEECH_TO_NOISE_RATIO = 3;
+// Never treat audio quieter than this RMS level as speech, even in a silent room.
+const MIN_SPEECH_LEVEL = 0.02;
+// How quickly the noise floor rises towards louder background noise (per frame).
+const NOISE_FLOOR_RISE = 0.02;
+// Frames (100ms each) in the window whose quietest level stands in for the
+// noise during speech. Speech pauses within five seconds; steady noise does not.
+const NOISE_WINDOW_FRAMES = 50;
+// Keep reporting speech for this many frames after the level drops, so short
+// gaps between words do not flicker the indicator.
+const HANGOVER_FRAMES = 4;
+// RMS level that fills the level meter; normal speech sits well below full scale.
+const METER_FULL_SCALE_LEVEL = 0.25;
+
+export interface VoiceActivity {
+    // Input loudness from 0 to 1, scaled for display.
+    level: number;
+    isSpeaking: boolean;
+}
+
+// Root mean square of an Int16 PCM frame, from 0 to 1.
+export const pcmRms = (pcm: Int16Array): number => {
+    if (pcm.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < pcm.length; i++) {
+        const sample = pcm[i] / 0x8000;
+        sum += sample * sample;
+    }
+    return Math.sqrt(sum / pcm.length);
+};
+
+// Energy-based voice activity detection over captured PCM frames, with a
+// noise floor that adapts to the room between utterances.
+export class VoiceActivityDetector {
+    private noiseFloor = MIN_SPEECH_LEVEL / SPEECH_TO_NOISE_RATIO;
+    private framesSinceSpeech = Infinity;
+    private recentLevels: number[] = [];
+
+    process(pcm: Int16Array): VoiceActivity {
+        const rms = pcmRms(pcm);
+        const threshold = Math.max(MIN_SPEECH_LEVEL, this.noiseFloor * SPEECH_TO_NOISE_RATIO);
+        const isSpeechFrame = rms >= threshold;
+        this.framesSinceSpeech = isSpeechFrame ? 0 : this.framesSinceSpeech + 1;
+        this.recentLevels.push(rms);
+        if (this.recentLevels.length > NOISE_WINDOW_FRAMES) this.recentLevels.shift();
+        // The floor drops to quieter noise immediately but only creeps up
+        // towards louder noise. During speech it creeps towards the quietest
+        // recent frame instead: pauses keep that low in a long answer, while
+        // noise that steps up above the threshold is caught up with.
+        if (!isSpeechFrame) {
+            this.noiseFloor = rms < this.noiseFloor
+                ? rms
+                : this.noiseFloor + (rms - this.noiseFloor) * NOISE_FLOOR_RISE;
+        } else if (this.recentLevels.length === NOISE_WINDOW_FRAMES) {
+            const quietest = Math.min(...this.recentLevels);
+            if (quietest > this.noiseFloor) this.noiseFloor += (quietest - this.noiseFloor) * NOISE_FLOOR_RISE;
+        }
+        return {
+            level: Math.min(1, rms / METER_FULL_SCALE_LEVEL),
+            isSpeaking: this.framesSinceSpeech <= HANGOVER_FRAMES,
+        };
+    }
+}
@@ -0,0 +1,114 @@
+// Just enough of the zip format for DOCX files: reading stored and deflated
+// entries, and writing stored ones.
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+export interface ZipEntry {
+    name: string;
+    content: string;
+}
+
+// Read one file out of a zip archive. Deflated entries are inflated by the
+// browser, so no library is needed.
+export const readZipEntry = async (data: ArrayBuffer, name: string): Promise<string | null> => {
+    const view = new DataView(data);
+    const decoder = new TextDecoder();
+    let end = -1;
+    for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) throw new Error('This file is not a valid zip archive.');
+
+    const entryCount = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    for (let i = 0; i < entryCount && view.getUint32(offset, true) === DIRECTORY_ENTRY; i++) {
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const headerOffset = view.getUint32(offset + 42, true);
+        if (decoder.decode(new Uint8Array(data, offset + 46, nameLength)) === name) {
+            const dataStart = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+            const bytes = new Uint8Array(data, dataStart, compressedSize);
+            if (method === 0) return decoder.decode(bytes);
+            if (method === 8) {
+                return new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+            }
+            throw new Error('This archive uses an unsupported compression method.');
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return null;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Build a zip archive with every entry stored uncompressed.
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const files = entries.map(entry => {
+        const name = encoder.encode(entry.name);
+        const content = encoder.encode(entry.content);
+        return { name, content, crc: crc32(content) };
+    });
+    const localSize = files.reduce((total, file) => total + 30 + file.name.length + file.content.length, 0);
+    const directorySize = files.reduce((total, file) => total + 46 + file.name.length, 0);
+    const output = new Uint8Array(localSize + directorySize + 22);
+    const view = new DataView(output.buffer);
+
+    let offset = 0;
+    const headerOffsets: number[] = [];
+    for (const file of files) {
+        headerOffsets.push(offset);
+        view.setUint32(offset, LOCAL_HEADER, true);
+        view.setUint16(offset + 4, 20, true);
+        view.setUint32(offset + 14, file.crc, true);
+        view.setUint32(offset + 18, file.content.length, true);
+        view.setUint32(offset + 22, file.content.length, true);
+        view.setUint16(offset + 26, file.name.length, true);
+        output.set(file.name, offset + 30);
+        output.set(file.content, offset + 30 + file.name.length);
+        offset += 30 + file.name.length + file.content.length;
+    }
+
+    const directoryOffset = offset;
+    files.forEach((file, index) => {
+        view.setUint32(offset, DIRECTORY_ENTRY, true);
+        view.setUint16(offset + 4, 20, true);
+        view.setUint16(offset + 6, 20, true);
+        view.setUint32(offset + 16, file.crc, true);
+        view.setUint32(offset + 20, file.content.length, true);
+        view.setUint32(offset + 24, file.content.length, true);
+        view.setUint16(offset + 28, file.name.length, true);
+        view.setUint32(offset + 42, headerOffsets[index], true);
+        output.set(file.name, offset + 46);
+        offset += 46 + file.name.length;
+    });
+
+    view.setUint32(offset, END_OF_DIRECTORY, true);
+    view.setUint16(offset + 8, files.length, true);
+    view.setUint16(offset + 10, files.length, true);
+    view.setUint32(offset + 12, directorySize, true);
+    view.setUint32(offset + 16, directoryOffset, true);
+    return output;
+};
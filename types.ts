@@ -20,4 +20,436 @@ export interface GroundingSource {
 export interface TranscriptEntry {
   speaker: 'user' | 'model';
   text: string;
+  // Offsets into the session recording, in milliseconds.
+  startMs?: number;
+  endMs?: number;
+  // When voice activity detection first heard the candidate's answer. Without
+  // it, a candidate turn's startMs is estimated from transcription timing.
+  speechStartMs?: number;
+}
+
+export type HireSignal = 'strong_hire' | 'hire' | 'no_hire' | 'strong_no_hire';
+
+export interface RubricScores {
+  relevance: number;
+  depth: number;
+  structure: number;
+  communication: number;
+}
+
+export interface AnswerFeedback {
+  question: string;
+  answer: string;
+  scores: RubricScores;
+  comment: string;
+  improvedAnswer: string;
+}
+
+export interface InterviewFeedback {
+  overallScore?: number;
+  hireSignal?: HireSignal;
+  summary?: string;
+  strengths?: string[];
+  gaps?: string[];
+  answers?: AnswerFeedback[];
+  error?: string;
+}
+
+export interface InterviewSession {
+  id: string;
+  jobRole: string;
+  jobDescription: string;
+  startedAt: number;
+  endedAt: number;
+  config?: InterviewConfig;
+  transcripts: TranscriptEntry[];
+  feedback?: InterviewFeedback;
+  presenceFeedback?: PresenceFeedback;
+  coding?: CodingSubmission;
+  questionPlan?: QuestionPlan;
+  coveredQuestionIds?: string[];
+  interviewerNotes?: InterviewerNotes;
+  loop?: LoopRoundInfo;
+  roundHandoff?: RoundHandoff;
+  // Set on the final round of a loop.
+  loopDebrief?: LoopDebrief;
+}
+
+export type InterviewType = 'behavioral' | 'technical' | 'coding' | 'system_design' | 'hr_screen' | 'case';
+
+export type InterviewDifficulty = 'junior' | 'mid' | 'senior' | 'staff';
+
+export type InterviewerPersona = 'friendly' | 'neutral' | 'bar_raiser';
+
+export type InterviewVoice = 'Zephyr' | 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Aoede' | 'Leda' | 'Orus';
+
+export type InterviewMode = 'voice' | 'text';
+
+export type InterviewRealism = 'practice' | 'realistic';
+
+export interface InterviewConfig {
+  mode: InterviewMode;
+  type: InterviewType;
+  difficulty: InterviewDifficulty;
+  questionCount: number;
+  persona: InterviewerPersona;
+  voice: InterviewVoice;
+  // Voice mode only: stream webcam frames to the interviewer.
+  useCamera: boolean;
+  // Voice mode only: send audio only while the candidate holds the talk key.
+  pushToTalk: boolean;
+  // Practice interviews show live coaching hints; realistic ones do not.
+  realism: InterviewRealism;
+}
+
+export interface ResponsePause {
+  // The interviewer line the candidate was responding to.
+  afterText: string;
+  durationMs: number;
+}
+
+export interface DeliveryMetrics {
+  answerCount: number;
+  totalWords: number;
+  wordsPerMinute?: number;
+  fillerCounts: Record<string, number>;
+  totalFillers: number;
+  fillersPerHundredWords: number;
+  longestPauses: ResponsePause[];
+  averageAnswerWords: number;
+  averageAnswerSeconds?: number;
+  // Share of the conversation spoken by the candidate, from 0 to 1.
+  candidateTalkShare: number;
+}
+
+export interface PresenceAspect {
+  score: number;
+  comment: string;
+}
+
+export interface PresenceFeedback {
+  eyeContact?: PresenceAspect;
+  framing?: PresenceAspect;
+  lighting?: PresenceAspect;
+  posture?: PresenceAspect;
+  tips?: string[];
+  error?: string;
+}
+
+export type CodingLanguage = 'javascript' | 'typescript';
+
+export interface CodingTestCase {
+  // Arguments passed to the solution function, in order.
+  input: unknown[];
+  expected: unknown;
+}
+
+export interface CodingProblem {
+  title: string;
+  description: string;
+  functionName: string;
+  starterCode: string;
+  testCases: CodingTestCase[];
+}
+
+export interface TestCaseResult {
+  passed: boolean;
+  actual?: unknown;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface CodingSubmission {
+  problem: CodingProblem;
+  language: CodingLanguage;
+  code: string;
+  results?: TestCaseResult[];
+}
+
+export interface PlannedQuestion {
+  id: string;
+  text: string;
+  // Added by hand rather than generated from the job description.
+  custom?: boolean;
+}
+
+export interface PlannedCompetency {
+  id: string;
+  name: string;
+  // What a strong answer should demonstrate.
+  signals: string[];
+  questions: PlannedQuestion[];
+}
+
+export interface QuestionPlan {
+  id: string;
+  name: string;
+  jobRole: string;
+  competencies: PlannedCompetency[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Recorded by the live interviewer through function calls as the interview runs.
+export interface LiveAnswerScore {
+  question: string;
+  // 1 to 5, on the same scale as the feedback rubric.
+  score: number;
+  rationale: string;
+  // Offset into the session recording, in milliseconds.
+  atMs?: number;
+}
+
+export interface TopicTransition {
+  topic: string;
+  atMs?: number;
+}
+
+export interface InterviewerNotes {
+  scores: LiveAnswerScore[];
+  topics: TopicTransition[];
+  // The interviewer's closing summary, when it ended the interview itself.
+  summary?: string;
+}
+
+// One round of a multi-round interview loop.
+export interface InterviewRound {
+  id: string;
+  name: string;
+  type: InterviewType;
+  persona: InterviewerPersona;
+  voice: InterviewVoice;
+  // What this round should probe, beyond its interview type.
+  focus: string;
+  timeLimitMinutes: number;
+}
+
+export interface LoopRoundInfo {
+  loopId: string;
+  roundIndex: number;
+  roundCount: number;
+  roundName: string;
+}
+
+// Notes passed from a finished round to the interviewers of later rounds.
+export interface RoundHandoff {
+  summary?: string;
+  weakSpots?: string[];
+  error?: string;
+}
+
+export interface CompletedLoopRound {
+  sessionId: string;
+  roundName: string;
+  transcripts: TranscriptEntry[];
+  interviewerNotes?: InterviewerNotes;
+  handoff?: RoundHandoff;
+}
+
+export interface LoopRoundDebrief {
+  roundName: string;
+  hireSignal?: HireSignal;
+  summary: string;
+}
+
+export interface LoopDebrief {
+  overallScore?: number;
+  hireSignal?: HireSignal;
+  summary?: string;
+  rounds?: LoopRoundDebrief[];
+  strengths?: string[];
+  gaps?: string[];
+  error?: string;
+}
+
+export interface ResumeContact {
+  name: string;
+  location: string;
+  phone: string;
+  email: string;
+  linkedin: string;
+  website: string;
+}
+
+export interface ResumeBullet {
+  id: string;
+  text: string;
+}
+
+export interface ResumeSkillGroup {
+  id: string;
+  label: string;
+  // Comma-separated, as the candidate typed them.
+  items: string;
+}
+
+export interface ResumeExperience {
+  id: string;
+  title: string;
+  company: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  bullets: ResumeBullet[];
+}
+
+export interface ResumeEducation {
+  id: string;
+  degree: string;
+  school: string;
+  location: string;
+  graduationDate: string;
+  details: string;
+}
+
+export interface ResumeProject {
+  id: string;
+  name: string;
+  link: string;
+  bullets: ResumeBullet[];
+}
+
+// A resume built section by section, following the ATS template.
+export interface StructuredResume {
+  contact: ResumeContact;
+  summary: string;
+  skills: ResumeSkillGroup[];
+  experience: ResumeExperience[];
+  education: ResumeEducation[];
+  projects: ResumeProject[];
+}
+
+export type ResumeLayout = 'classic' | 'modern' | 'compact';
+
+export type KeywordImportance = 'required' | 'preferred' | 'nice_to_have';
+
+export interface AnalysisKeyword {
+  keyword: string;
+  importance: KeywordImportance;
+}
+
+export interface SectionScore {
+  section: string;
+  // 0 to 100, like the overall score.
+  score: number;
+  comment: string;
+}
+
+export type FormattingSeverity = 'low' | 'medium' | 'high';
+
+export interface FormattingIssue {
+  issue: string;
+  severity: FormattingSeverity;
+  fix: string;
+}
+
+// A suggestion for one line of a structured resume, such as "E1.B2".
+export interface SectionSuggestion {
+  ref: string;
+  suggestion: string;
+}
+
+// A concrete rewrite of one resume line, applied only if the user accepts it.
+export interface LineRewrite {
+  // Reference of the rewritten line; only set for resumes from the builder.
+  ref?: string;
+  // The line exactly as it appears in the resume.
+  original: string;
+  rewritten: string;
+  reason: string;
+}
+
+// A resume analysis that has passed runtime validation.
+export interface AnalysisResult {
+  score: number;
+  sectionScores: SectionScore[];
+  matchedKeywords: AnalysisKeyword[];
+  missingKeywords: AnalysisKeyword[];
+  summarySuggestion: string;
+  experienceAdvice: string;
+  formattingIssues: FormattingIssue[];
+  lineRewrites: LineRewrite[];
+  // Only requested for resumes from the builder.
+  sectionSuggestions?: SectionSuggestion[];
+}
+
+export type CoverLetterTone = 'professional' | 'enthusiastic' | 'conversational' | 'confident';
+
+export type CoverLetterLength = 'short' | 'standard' | 'detailed';
+
+export interface CoverLetterOptions {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  companyName: string;
+  // Company-specific details to weave in, such as a product or recent news.
+  hooks: string;
+}
+
+export interface CoverLetterParagraph {
+  id: string;
+  text: string;
+}
+
+export interface CoverLetter {
+  date: string;
+  greeting: string;
+  paragraphs: CoverLetterParagraph[];
+  closing: string;
+  signature: string;
+}
+
+// One of several roles a resume is compared against in a batch.
+export interface JobTarget {
+  id: string;
+  label: string;
+  jobDescription: string;
+}
+
+export type JobTargetStatus = 'pending' | 'done' | 'error';
+
+export interface JobTargetResult {
+  targetId: string;
+  status: JobTargetStatus;
+  analysis?: AnalysisResult;
+  // Score from the local keyword matcher, which needs no network.
+  keywordScore?: number;
+  error?: string;
+}
+
+// Where the analyzed resume came from: pasted or imported text, or the builder.
+export type ResumeSource = 'text' | 'builder';
+
+// A resume as it was analyzed, saved locally so revisions can be compared.
+export interface ResumeVersion {
+  id: string;
+  createdAt: number;
+  source: ResumeSource;
+  // Plain text of the resume, used for diffs between versions.
+  resumeText: string;
+  // Set for builder resumes so they can be restored into the builder.
+  resume?: StructuredResume;
+  layout?: ResumeLayout;
+  jobDescription: string;
+  analysis: AnalysisResult;
+  keywordScore: number;
+}
+
+export type JobWorkplace = 'onsite' | 'hybrid' | 'remote' | 'unspecified';
+
+// A job description parsed into its requirements, saved once and shared by
+// the Interview and Resume tabs. Fields the posting leaves out are empty.
+export interface JobDescription {
+  id: string;
+  title: string;
+  company: string;
+  seniority: string;
+  mustHaveSkills: string[];
+  niceToHaveSkills: string[];
+  responsibilities: string[];
+  location: string;
+  workplace: JobWorkplace;
+  compensation: string;
+  // The text the record was parsed from.
+  rawText: string;
+  createdAt: number;
 }
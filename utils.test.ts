@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { floatTo16BitPCM, PcmFramer, StreamingResampler } from './utils';
+
+const sine = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+const rms = (samples: Float32Array) =>
+  Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+
+// Feeds the input in AudioWorklet-sized chunks and joins the output.
+const resampleInChunks = (resampler: StreamingResampler, input: Float32Array, chunkSize: number) => {
+  const parts: number[] = [];
+  for (let offset = 0; offset < input.length; offset += chunkSize) {
+    parts.push(...resampler.process(input.subarray(offset, offset + chunkSize)));
+  }
+  return Float32Array.from(parts);
+};
+
+describe('StreamingResampler', () => {
+  it('downsamples 48 kHz to a third of the samples across chunk boundaries', () => {
+    const output = resampleInChunks(new StreamingResampler(48000, 16000), sine(440, 48000, 4800), 128);
+    expect(output.length).toBe(1600);
+  });
+
+  it('keeps the output length within one sample for uneven ratios and chunks', () => {
+    const output = resampleInChunks(new StreamingResampler(44100, 16000), sine(440, 44100, 44100), 100);
+    expect(Math.abs(output.length - 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it('upsamples by the inverse ratio', () => {
+    const output = resampleInChunks(new StreamingResampler(16000, 48000), sine(440, 16000, 1600), 128);
+    expect(Math.abs(output.length - 4800)).toBeLessThanOrEqual(1);
+  });
+
+  it('produces the same samples whatever the chunk size', () => {
+    const input = sine(440, 48000, 4800);
+    const whole = new StreamingResampler(48000, 16000).process(input);
+    const chunked = resampleInChunks(new StreamingResampler(48000, 16000), input, 128);
+    expect(chunked.length).toBe(whole.length);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+
+  it('passes speech frequencies and filters out what would alias', () => {
+    // Skip the first samples while the filter settles.
+    const speech = new StreamingResampler(48000, 16000).process(sine(1000, 48000, 48000)).subarray(1000);
+    const aliasing = new StreamingResampler(48000, 16000).process(sine(12000, 48000, 48000)).subarray(1000);
+    expect(rms(speech)).toBeCloseTo(Math.SQRT1_2, 1);
+    expect(rms(aliasing)).toBeLessThan(0.05);
+  });
+
+  it('copies the input unchanged when the rates match', () => {
+    const input = sine(440, 16000, 128);
+    const output = new StreamingResampler(16000, 16000).process(input);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('rejects non-positive sample rates', () => {
+    expect(() => new StreamingResampler(0, 16000)).toThrow();
+    expect(() => new StreamingResampler(48000, -1)).toThrow();
+  });
+});
+
+describe('floatTo16BitPCM', () => {
+  it('maps the full range onto int16', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([-1, 0, 1])))).toEqual([-32768, 0, 32767]);
+  });
+
+  it('clamps samples outside [-1, 1] instead of wrapping', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([-2, -1.0001, 1.0001, 5])))).toEqual([-32768, -32768, 32767, 32767]);
+  });
+});
+
+describe('PcmFramer', () => {
+  const ramp = (start: number, length: number) => Int16Array.from({ length }, (_, i) => start + i);
+
+  it('emits only full frames and holds the remainder for the next push', () => {
+    const framer = new PcmFramer(100);
+    const first = framer.push(ramp(0, 250));
+    expect(first).toHaveLength(2);
+    expect(first[1][99]).toBe(199);
+
+    expect(framer.push(ramp(250, 30))).toHaveLength(0);
+    const [frame] = framer.push(ramp(280, 20));
+    expect(Array.from(frame)).toEqual(Array.from(ramp(200, 100)));
+  });
+
+  it('returns a separate buffer for each frame', () => {
+    const framer = new PcmFramer(4);
+    const [a, b] = framer.push(ramp(0, 8));
+    expect(a.buffer).not.toBe(b.buffer);
+    expect(Array.from(a)).toEqual([0, 1, 2, 3]);
+  });
+});
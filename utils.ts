@@ -1,4 +1,6 @@
 
+import { TranscriptEntry } from './types';
+
 // Base64 encoding for audio data
 export function encode(bytes: Uint8Array): string {
   let binary = '';
@@ -54,3 +56,188 @@ export const fileToBase64 = (file: File): Promise<string> => {
     reader.onerror = (error) => reject(error);
   });
 };
+
+// Convert float samples in [-1, 1] to 16-bit signed PCM, clamping anything
+// outside that range so loud input saturates instead of wrapping around.
+export function floatTo16BitPCM(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+}
+
+// Order of the Butterworth low-pass applied before downsampling.
+const ANTI_ALIAS_ORDER = 8;
+// Cutoff as a fraction of the output rate, just under its Nyquist frequency.
+const ANTI_ALIAS_CUTOFF = 0.45;
+
+// One second-order low-pass section (RBJ cookbook biquad). The filter state
+// is carried over between calls so chunk boundaries do not click.
+class BiquadLowPass {
+  private readonly b0: number;
+  private readonly b1: number;
+  private readonly b2: number;
+  private readonly a1: number;
+  private readonly a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(cutoff: number, sampleRate: number, q: number) {
+    const w0 = 2 * Math.PI * cutoff / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - cos) / 2 / a0;
+    this.b1 = (1 - cos) / a0;
+    this.b2 = this.b0;
+    this.a1 = -2 * cos / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(samples: Float32Array): void {
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i];
+      const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+      this.x2 = this.x1;
+      this.x1 = x;
+      this.y2 = this.y1;
+      this.y1 = y;
+      samples[i] = y;
+    }
+  }
+}
+
+// Cascaded biquads with the pole Qs of a Butterworth filter of the given order.
+const createButterworthLowPass = (order: number, cutoff: number, sampleRate: number): BiquadLowPass[] =>
+  Array.from({ length: order / 2 }, (_, k) =>
+    new BiquadLowPass(cutoff, sampleRate, 1 / (2 * Math.cos((2 * k + 1) * Math.PI / (2 * order)))));
+
+// Streaming linear-interpolation resampler. Input arrives in arbitrary-sized
+// chunks (128 frames per AudioWorklet render quantum), so the read position
+// and the last input sample are carried over between calls. When
+// downsampling, a low-pass filter first removes everything above the output
+// rate's Nyquist frequency, which would otherwise fold back as aliasing.
+export class StreamingResampler {
+  private readonly ratio: number;
+  private readonly filters: BiquadLowPass[];
+  private position = 0;
+  private lastSample = 0;
+
+  constructor(inputSampleRate: number, outputSampleRate: number) {
+    if (inputSampleRate <= 0 || outputSampleRate <= 0) {
+      throw new Error("Sample rates must be positive.");
+    }
+    this.ratio = inputSampleRate / outputSampleRate;
+    this.filters = this.ratio > 1
+      ? createButterworthLowPass(ANTI_ALIAS_ORDER, outputSampleRate * ANTI_ALIAS_CUTOFF, inputSampleRate)
+      : [];
+  }
+
+  process(chunk: Float32Array): Float32Array {
+    if (this.ratio === 1) {
+      return chunk.slice();
+    }
+    const input = chunk.slice();
+    for (const filter of this.filters) {
+      filter.process(input);
+    }
+    // `position` is relative to the previous chunk's last sample (index -1 here).
+    const output: number[] = [];
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const before = index === 0 ? this.lastSample : input[index - 1];
+      const after = input[index];
+      output.push(before + (after - before) * fraction);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    if (input.length > 0) {
+      this.lastSample = input[input.length - 1];
+    }
+    return Float32Array.from(output);
+  }
+}
+
+// Collects PCM samples and emits them in fixed-size frames.
+export class PcmFramer {
+  private buffer: Int16Array;
+  private length = 0;
+
+  constructor(private readonly frameSize: number) {
+    this.buffer = new Int16Array(frameSize);
+  }
+
+  push(samples: Int16Array): Int16Array[] {
+    const frames: Int16Array[] = [];
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(this.frameSize - this.length, samples.length - offset);
+      this.buffer.set(samples.subarray(offset, offset + count), this.length);
+      this.length += count;
+      offset += count;
+      if (this.length === this.frameSize) {
+        frames.push(this.buffer);
+        this.buffer = new Int16Array(this.frameSize);
+        this.length = 0;
+      }
+    }
+    return frames;
+  }
+}
+
+// Render a transcript as plain text for use inside model prompts.
+export const formatTranscriptForPrompt = (transcripts: TranscriptEntry[]): string =>
+  transcripts
+    .map(entry => `${entry.speaker === 'user' ? 'CANDIDATE' : 'INTERVIEWER'}: ${entry.text}`)
+    .join('\n');
+
+// Wrap 16-bit PCM samples in a RIFF/WAVE container.
+export function createWavBlob(samples: Int16Array, sampleRate: number, numChannels = 1): Blob {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true); // byte rate
+  view.setUint16(32, numChannels * bytesPerSample, true); // block align
+  view.setUint16(34, bytesPerSample * 8, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(44 + i * bytesPerSample, samples[i], true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+// Turn free text (e.g. a job role) into a safe file name fragment.
+export const toFileSlug = (text: string): string =>
+  text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'session';
+
+// Trigger a browser download for generated text or binary content.
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
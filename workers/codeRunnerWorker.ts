@@ -0,0 +1,72 @@
+import type { CodingTestCase, TestCaseResult } from '../types';
+
+export interface CodeRunRequest {
+  code: string;
+  functionName: string;
+  testCases: CodingTestCase[];
+}
+
+export type CodeRunMessage =
+  | { type: 'result'; index: number; result: TestCaseResult }
+  | { type: 'error'; error: string }
+  | { type: 'done' };
+
+const post = (message: CodeRunMessage) =>
+  (self as unknown as { postMessage: (message: CodeRunMessage) => void }).postMessage(message);
+
+// Candidate code has no business talking to the network.
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts']) {
+  (globalThis as unknown as Record<string, unknown>)[name] = undefined;
+}
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length
+    && keysA.every(key => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+// Runs one batch of test cases; the main thread terminates the worker if it
+// takes too long, so infinite loops cannot hang the page.
+self.onmessage = (event: MessageEvent<CodeRunRequest>) => {
+  const { code, functionName, testCases } = event.data;
+  if (!/^[A-Za-z_$][\w$]*$/.test(functionName)) {
+    post({ type: 'error', error: `Invalid function name "${functionName}".` });
+    return;
+  }
+
+  let solution: unknown;
+  try {
+    solution = new Function(`${code}\nreturn typeof ${functionName} === 'function' ? ${functionName} : undefined;`)();
+  } catch (error) {
+    post({ type: 'error', error: `Your code failed to load: ${error instanceof Error ? error.message : String(error)}` });
+    return;
+  }
+  if (typeof solution !== 'function') {
+    post({ type: 'error', error: `Could not find a function named "${functionName}".` });
+    return;
+  }
+
+  testCases.forEach((testCase, index) => {
+    const startedAt = performance.now();
+    try {
+      // Tests get their own copy of the arguments in case the solution mutates them.
+      const actual = solution(...structuredClone(testCase.input));
+      post({
+        type: 'result',
+        index,
+        result: { passed: deepEqual(actual, testCase.expected), actual, durationMs: performance.now() - startedAt },
+      });
+    } catch (error) {
+      post({
+        type: 'result',
+        index,
+        result: { passed: false, error: error instanceof Error ? error.message : String(error), durationMs: performance.now() - startedAt },
+      });
+    }
+  });
+  post({ type: 'done' });
+};
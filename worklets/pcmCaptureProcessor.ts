@@ -0,0 +1,41 @@
+import { floatTo16BitPCM, PcmFramer, StreamingResampler } from '../utils';
+
+// Globals available in the AudioWorkletGlobalScope, which the DOM lib does not declare.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+
+export interface PcmCaptureProcessorOptions {
+  targetSampleRate: number;
+  frameSize: number;
+}
+
+// Resamples the microphone from the device's native rate to the target rate
+// and posts fixed-size Int16 PCM frames to the main thread.
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly resampler: StreamingResampler;
+  private readonly framer: PcmFramer;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetSampleRate, frameSize } = options.processorOptions as PcmCaptureProcessorOptions;
+    this.resampler = new StreamingResampler(sampleRate, targetSampleRate);
+    this.framer = new PcmFramer(frameSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (channel) {
+      const frames = this.framer.push(floatTo16BitPCM(this.resampler.process(channel)));
+      for (const frame of frames) {
+        this.port.postMessage(frame, [frame.buffer]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture-processor', PcmCaptureProcessor);